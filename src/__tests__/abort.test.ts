@@ -0,0 +1,76 @@
+import { FeskDecoder } from "../feskDecoder";
+import { DecodePipeline } from "../decodePipeline";
+import { AbortError } from "../decodeErrors";
+import { audio, extractorOptions } from "./helpers/decodeFixtures";
+
+jest.setTimeout(120000);
+
+const abortAfter = (ms: number) => {
+  const controller = new AbortController();
+  setTimeout(() => controller.abort(), ms);
+  return controller.signal;
+};
+
+describe("Abort", () => {
+  it("should reject calls whose signal has already aborted", async () => {
+    const decoder = new FeskDecoder();
+    const controller = new AbortController();
+    controller.abort("stop");
+    const signal = controller.signal;
+
+    const rejection = decoder.processAudioComplete(audio, 44100, null, true, {
+      signal,
+    });
+    await expect(rejection).rejects.toBeInstanceOf(AbortError);
+    await expect(rejection).rejects.toMatchObject({ reason: "stop" });
+
+    await expect(
+      decoder.decodeAudioDataWithSymbolExtractor(audio, 44100, {
+        ...extractorOptions,
+        signal,
+      }),
+    ).rejects.toBeInstanceOf(AbortError);
+    await expect(
+      decoder.frames(audio, 44100, { ...extractorOptions, signal }).next(),
+    ).rejects.toBeInstanceOf(AbortError);
+    await expect(
+      new DecodePipeline().decode(audio, 44100, { signal }),
+    ).rejects.toBeInstanceOf(AbortError);
+  });
+
+  it("should stop a running decode and leave the decoder reusable", async () => {
+    const decoder = new FeskDecoder();
+
+    // Silence keeps the search going until the abort
+    const silence = new Float32Array(44100 * 3);
+    await expect(
+      decoder.processAudioComplete(silence, 44100, null, true, {
+        signal: abortAfter(50),
+      }),
+    ).rejects.toBeInstanceOf(AbortError);
+    await expect(
+      decoder.decodeAudioDataWithSymbolExtractor(silence, 44100, {
+        signal: abortAfter(50),
+      }),
+    ).rejects.toBeInstanceOf(AbortError);
+
+    const extracted = await decoder.decodeAudioDataWithSymbolExtractor(
+      audio,
+      44100,
+      extractorOptions,
+    );
+    expect(new TextDecoder().decode(extracted.frame!.payload)).toBe("test");
+
+    const complete = await decoder.processAudioComplete(
+      audio,
+      44100,
+      null,
+      true,
+      {
+        signal: new AbortController().signal,
+      },
+    );
+    expect(complete.frame!.isValid).toBe(true);
+    expect(complete.partial).toBe(false);
+  });
+});
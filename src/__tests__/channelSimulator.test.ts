@@ -0,0 +1,168 @@
+import { ChannelSimulator } from "../audio/channelSimulator";
+import { ToneSynthesizer } from "../audio/toneSynthesizer";
+import { FeskEncoder } from "../feskEncoder";
+import { FeskDecoder } from "../feskDecoder";
+import { Goertzel } from "../utils/goertzel";
+import { DEFAULT_CONFIG } from "../config";
+
+jest.setTimeout(120000);
+
+const SAMPLE_RATE = 44100;
+
+const tone = (frequency: number, seconds: number) => {
+  const data = new Float32Array(Math.round(seconds * SAMPLE_RATE));
+  for (let i = 0; i < data.length; i++) {
+    data[i] = 0.5 * Math.sin((2 * Math.PI * frequency * i) / SAMPLE_RATE);
+  }
+  return data;
+};
+
+const power = (data: Float32Array) =>
+  data.reduce((sum, value) => sum + value * value, 0) / data.length;
+
+const peakFrequency = (data: Float32Array, candidates: number[]) =>
+  candidates[
+    Goertzel.detectStrongestToneParametric(data, candidates, SAMPLE_RATE)
+      .toneIndex
+  ];
+
+describe("ChannelSimulator", () => {
+  describe("impairments", () => {
+    it("should be reproducible for a given seed", () => {
+      const input = tone(3520, 0.2);
+      const options = {
+        seed: 42,
+        snrDb: 10,
+        dropouts: { ratePerSecond: 20, duration: 0.01 },
+      };
+
+      const first = new ChannelSimulator(options).process(input, SAMPLE_RATE);
+      const second = new ChannelSimulator(options).process(input, SAMPLE_RATE);
+      const other = new ChannelSimulator({ ...options, seed: 7 }).process(
+        input,
+        SAMPLE_RATE,
+      );
+
+      expect(second).toEqual(first);
+      expect(other).not.toEqual(first);
+    });
+
+    it("should add noise at the requested SNR", () => {
+      const input = tone(2793.83, 1);
+      const output = new ChannelSimulator({ seed: 3, snrDb: 6 }).process(
+        input,
+        SAMPLE_RATE,
+      );
+      const noise = output.map((value, i) => value - input[i]);
+      const measuredSnr = 10 * Math.log10(power(input) / power(noise));
+
+      expect(measuredSnr).toBeCloseTo(6, 0);
+    });
+
+    it("should stretch time and pitch with the clock ratio", () => {
+      const input = tone(3000, 0.5);
+      const output = new ChannelSimulator({ clockRatio: 1.01 }).process(
+        input,
+        SAMPLE_RATE,
+      );
+
+      expect(output.length).toBeCloseTo(input.length / 1.01, -1);
+      expect(peakFrequency(output, [2970, 3000, 3030])).toBe(3030);
+    });
+
+    it("should reject a clock drift that stops the clock", () => {
+      const simulator = new ChannelSimulator({
+        clockDriftPpmPerSecond: -4e6,
+      });
+
+      expect(() => simulator.process(tone(3000, 0.5), SAMPLE_RATE)).toThrow(
+        "Invalid clock drift",
+      );
+    });
+
+    it("should shift tones by the frequency offset", () => {
+      const input = tone(3520, 0.3);
+      const output = new ChannelSimulator({ frequencyOffsetHz: 40 }).process(
+        input,
+        SAMPLE_RATE,
+      );
+
+      const middle = output.slice(2000, output.length - 2000);
+      expect(peakFrequency(middle, [3480, 3520, 3560])).toBe(3560);
+    });
+
+    it("should attenuate content above the band limit", () => {
+      const input = tone(12000, 0.2);
+      const output = new ChannelSimulator({
+        bandLimit: { highCutHz: 4000, order: 6 },
+      }).process(input, SAMPLE_RATE);
+
+      expect(power(output) / power(input)).toBeLessThan(0.001);
+    });
+
+    it("should add delayed echoes and a decaying reverb tail", () => {
+      const impulse = new Float32Array(4410);
+      impulse[0] = 1;
+
+      const echoed = new ChannelSimulator({
+        multipath: [{ delay: 0.01, gain: 0.5 }],
+      }).process(impulse, SAMPLE_RATE);
+      expect(echoed[441]).toBeCloseTo(0.5);
+
+      const reverberant = new ChannelSimulator({
+        reverb: { decayTime: 0.3, wetLevel: 0.5 },
+      }).process(impulse, SAMPLE_RATE);
+      expect(reverberant.length).toBe(impulse.length + 0.3 * SAMPLE_RATE);
+      expect(power(reverberant.slice(2000, 4000))).toBeGreaterThan(0);
+    });
+
+    it("should clip and drop out samples", () => {
+      const input = tone(2793.83, 1);
+      const clipped = new ChannelSimulator({ clipLevel: 0.2 }).process(
+        input,
+        SAMPLE_RATE,
+      );
+      expect(Math.max(...clipped.map(Math.abs))).toBeCloseTo(0.2);
+
+      const dropped = new ChannelSimulator({
+        seed: 11,
+        dropouts: { ratePerSecond: 5, duration: 0.05 },
+      }).process(input, SAMPLE_RATE);
+      const silent = dropped.filter((value) => value === 0).length;
+      expect(silent).toBeGreaterThan(0.05 * SAMPLE_RATE);
+    });
+  });
+
+  describe("decoderRobustness", () => {
+    it("should leave a mildly impaired transmission decodable", async () => {
+      const symbols = new FeskEncoder().encodeText("test");
+      const clean = new ToneSynthesizer(DEFAULT_CONFIG, {
+        leadingSilence: 0.3,
+        trailingSilence: 0.3,
+      }).synthesize(symbols);
+
+      const impaired = new ChannelSimulator({
+        seed: 5,
+        snrDb: 12,
+        clockRatio: 1.002,
+        multipath: [{ delay: 0.004, gain: 0.3 }],
+      }).process(clean, SAMPLE_RATE);
+
+      const { frame } =
+        await new FeskDecoder().decodeAudioDataWithSymbolExtractor(
+          impaired,
+          SAMPLE_RATE,
+          {
+            frequencySets: [
+              { name: "default", tones: [...DEFAULT_CONFIG.toneFrequencies] },
+            ],
+            startTimeRange: { start: 0, end: 1, step: 0.02 },
+          },
+        );
+
+      expect(frame).not.toBeNull();
+      expect(frame!.isValid).toBe(true);
+      expect(new TextDecoder().decode(frame!.payload)).toBe("test");
+    });
+  });
+});
@@ -0,0 +1,164 @@
+import { ChirpSync } from "../audio/chirpSync";
+import { ChannelSimulator } from "../audio/channelSimulator";
+import { DecodePipeline } from "../decodePipeline";
+import { ToneSynthesizer } from "../audio/toneSynthesizer";
+import { FeskDecoder } from "../feskDecoder";
+import { FeskEncoder } from "../feskEncoder";
+import { FeskStreamDecoder } from "../feskStreamDecoder";
+import { ChirpSyncConfig, DEFAULT_CHIRP_SYNC, DEFAULT_CONFIG } from "../config";
+
+jest.setTimeout(60000);
+
+const sampleRate = 44100;
+
+const chirpConfig = (placement: ChirpSyncConfig["placement"]) => ({
+  ...DEFAULT_CONFIG,
+  chirpSync: { ...DEFAULT_CHIRP_SYNC, placement },
+});
+
+describe("ChirpSync", () => {
+  const chirp = new ChirpSync(DEFAULT_CHIRP_SYNC);
+
+  it("should locate the chirp and measure clock ratio and frequency offset", () => {
+    const leadingSamples = 30000;
+    const audio = new Float32Array(100000);
+    audio.set(
+      chirp.render(sampleRate).map((sample) => 0.5 * sample),
+      leadingSamples,
+    );
+
+    const clean = chirp.detect(audio, sampleRate)!;
+    expect(Math.abs(clean.startSample - leadingSamples)).toBeLessThan(0.5);
+    expect(clean.endSample - clean.startSample).toBeCloseTo(
+      chirp.sampleCount(sampleRate),
+      0,
+    );
+    expect(clean.clockRatio).toBeCloseTo(1, 4);
+    expect(Math.abs(clean.frequencyOffset)).toBeLessThan(0.5);
+
+    const impaired = chirp.detect(
+      new ChannelSimulator({
+        clockRatio: 0.99,
+        frequencyOffsetHz: -30,
+        snrDb: 0,
+      }).process(audio, sampleRate),
+      sampleRate,
+    )!;
+    expect(Math.abs(impaired.startSample - leadingSamples / 0.99)).toBeLessThan(
+      1,
+    );
+    expect(impaired.clockRatio).toBeCloseTo(0.99, 4);
+    expect(Math.abs(impaired.frequencyOffset + 30)).toBeLessThan(1.5);
+    expect(impaired.score).toBeLessThan(clean.score);
+  });
+
+  it("should find nothing in noise or steady tones", () => {
+    const noise = new ChannelSimulator({ snrDb: 0, seed: 3 }).process(
+      Float32Array.from({ length: 100000 }, (_, i) =>
+        Math.sin((2 * Math.PI * 3520 * i) / sampleRate),
+      ),
+      sampleRate,
+    );
+    expect(chirp.detect(noise, sampleRate)).toBeNull();
+    expect(
+      () => new ChirpSync({ ...DEFAULT_CHIRP_SYNC, sweepDuration: 0 }),
+    ).toThrow("Invalid chirp: 2500-5000 Hz over 0 s");
+  });
+
+  it("should render the chirp in place of or after the preamble", () => {
+    const preambleLength = DEFAULT_CONFIG.preambleBits.length;
+    const plain = new FeskEncoder().encodeText("chirp");
+    const after = new FeskEncoder(chirpConfig("afterPreamble")).encodeText(
+      "chirp",
+    );
+    const replaced = new FeskEncoder(chirpConfig("replacePreamble")).encodeText(
+      "chirp",
+    );
+    expect(after).toEqual(plain);
+    expect(replaced).toEqual(plain.slice(preambleLength));
+
+    const audio = new ToneSynthesizer(chirpConfig("afterPreamble")).synthesize(
+      after,
+    );
+    expect(audio.length).toBe(
+      after.length * 4410 + chirp.sampleCount(sampleRate),
+    );
+    expect(chirp.detect(audio, sampleRate)!.startSample).toBeCloseTo(
+      preambleLength * 4410,
+      0,
+    );
+  });
+
+  it.each(["afterPreamble", "replacePreamble"] as const)(
+    "should decode a frame synchronized on a chirp %s",
+    async (placement) => {
+      const config = chirpConfig(placement);
+      const audio = new ChannelSimulator({
+        clockRatio: 1.01,
+        frequencyOffsetHz: 15,
+        snrDb: 5,
+      }).process(
+        new ToneSynthesizer(config, {
+          leadingSilence: 0.7,
+          trailingSilence: 0.5,
+        }).synthesize(new FeskEncoder(config).encodeText("chirp synced")),
+        sampleRate,
+      );
+
+      const result = await new FeskDecoder(
+        config,
+      ).decodeAudioDataWithSymbolExtractor(audio, sampleRate);
+      expect(new TextDecoder().decode(result.frame!.payload)).toBe(
+        "chirp synced",
+      );
+      expect(result.strategy).toBe("chirpSync");
+      expect(
+        Math.abs(result.startTime! * sampleRate - (0.7 * sampleRate) / 1.01),
+      ).toBeLessThan(2);
+      expect(result.clockRatio).toBeCloseTo(1.01, 3);
+      expect(result.symbolDuration).toBeCloseTo(0.1 / 1.01, 4);
+    },
+  );
+
+  it("should search a pipeline run's audio for the chirp once", async () => {
+    const config = chirpConfig("afterPreamble");
+    const audio = new ToneSynthesizer(config, {
+      leadingSilence: 0.5,
+      trailingSilence: 0.5,
+    }).synthesize(new FeskEncoder(config).encodeText("once"));
+    const detect = jest.spyOn(ChirpSync.prototype, "detect");
+
+    try {
+      const result = await new DecodePipeline({
+        config,
+        strategies: [
+          {
+            name: "discard",
+            decode: async ({ decoder, audioData, sampleRate }) => ({
+              ...(await decoder.decodeChirpSynced(audioData, sampleRate)),
+              frame: null,
+            }),
+          },
+          "chirpSync",
+        ],
+      }).decode(audio, sampleRate);
+      expect(new TextDecoder().decode(result.frame!.payload)).toBe("once");
+      expect(result.pipelineStrategy).toBe("chirpSync");
+      expect(detect).toHaveBeenCalledTimes(1);
+
+      // Separate calls search again, as the audio may have changed
+      const decoder = new FeskDecoder(config);
+      await decoder.decodeChirpSynced(audio, sampleRate);
+      await decoder.decodeChirpSynced(audio, sampleRate);
+      expect(detect).toHaveBeenCalledTimes(3);
+    } finally {
+      detect.mockRestore();
+    }
+  });
+
+  it("should not be configured on the stream decoder", () => {
+    expect(() => new FeskStreamDecoder(chirpConfig("afterPreamble"))).toThrow(
+      "Chirp sync is not supported by the stream decoder",
+    );
+  });
+});
@@ -0,0 +1,136 @@
+import { FeskDecoder } from "../feskDecoder";
+import { FeskEncoder } from "../feskEncoder";
+import {
+  CrcMismatch,
+  FeskDecodeError,
+  InvalidAudio,
+  LengthOutOfRange,
+  NoCarrier,
+  PreambleNotFound,
+  SyncMismatch,
+  Truncated,
+} from "../decodeErrors";
+import { CanonicalTritEncoder } from "../utils/canonicalTritEncoder";
+import { CRC16 } from "../utils/crc16";
+import { extractorOptions } from "./helpers/decodeFixtures";
+
+jest.setTimeout(60000);
+
+const encoder = new FeskEncoder();
+const payload = new TextEncoder().encode("test");
+
+// Frame symbols around hand-edited frame bytes
+const encodeBytes = (bytes: Uint8Array) => [
+  ...encoder.getPreambleSymbols(),
+  ...encoder.getSyncSymbols(),
+  ...CanonicalTritEncoder.encodeBytesWithDifferential(bytes),
+];
+
+describe("Decode errors", () => {
+  it("should report preamble and sync mismatches", () => {
+    const symbols = encoder.encode(payload);
+    symbols[0] = 0;
+    symbols[12] = 0;
+    symbols[13] = 0;
+
+    const result = new FeskDecoder().decodeCompleteTransmission(symbols);
+
+    expect(result.frame!.isValid).toBe(true);
+    expect(result.errors).toHaveLength(2);
+    expect(result.errors[0]).toBeInstanceOf(PreambleNotFound);
+    expect(result.errors[1]).toBeInstanceOf(SyncMismatch);
+    expect((result.errors[1] as SyncMismatch).bitErrors).toBe(2);
+  });
+
+  it("should report both CRCs of a corrupted frame", () => {
+    const bytes = encoder.buildFrameBytes(payload);
+    bytes[bytes.length - 1] ^= 0xff;
+
+    const result = new FeskDecoder().decodeCompleteTransmission(
+      encodeBytes(bytes),
+    );
+
+    expect(result.frame!.isValid).toBe(false);
+    expect(result.errors).toHaveLength(1);
+    const error = result.errors[0] as CrcMismatch;
+    expect(error.kind).toBe("crcMismatch");
+    expect(error.calculated).toBe(CRC16.calculate(payload));
+    expect(error.received).toBe(error.calculated ^ 0xff);
+  });
+
+  it("should report header lengths out of range", () => {
+    const bytes = encoder.buildFrameBytes(payload);
+    bytes[0] ^= 0x01; // length 4 -> 260
+
+    const result = new FeskDecoder().decodeCompleteTransmission(
+      encodeBytes(bytes),
+    );
+
+    expect(result.frame).toBeNull();
+    expect(result.errors).toEqual([new LengthOutOfRange(260)]);
+    expect((result.errors[0] as LengthOutOfRange).length).toBe(260);
+  });
+
+  it("should report truncated frames", () => {
+    const bytes = encoder.buildFrameBytes(payload).slice(0, 6);
+
+    const result = new FeskDecoder().decodeCompleteTransmission(
+      encodeBytes(bytes),
+    );
+
+    expect(result.frame).toBeNull();
+    const error = result.errors[0] as Truncated;
+    expect(error).toBeInstanceOf(Truncated);
+    expect(error.haveBytes).toBe(6);
+    expect(error.needBytes).toBe(8);
+
+    const short = new FeskDecoder().decodeCompleteTransmission(
+      encoder.encode(payload).slice(0, 20),
+    );
+    expect(short.errors[0]).toBeInstanceOf(Truncated);
+  });
+
+  it("should reject audio that cannot be decoded", async () => {
+    const decoder = new FeskDecoder();
+
+    const empty = await decoder.processAudioComplete(
+      new Float32Array(0),
+      44100,
+    );
+    expect(empty.error).toBeInstanceOf(InvalidAudio);
+    expect(empty.failureReason).toBe("invalidAudio");
+
+    const samples = new Float32Array(4410);
+    samples[100] = NaN;
+    const nan = await decoder.decodeAudioDataWithSymbolExtractor(
+      samples,
+      44100,
+      extractorOptions,
+    );
+    expect(nan.error).toBeInstanceOf(InvalidAudio);
+    expect(nan.error).toBeInstanceOf(FeskDecodeError);
+
+    const rate = await decoder.decodeAudioDataWithSymbolExtractor(
+      new Float32Array(4410),
+      0,
+      extractorOptions,
+    );
+    expect(rate.error!.kind).toBe("invalidAudio");
+
+    await expect(
+      decoder.frames(new Float32Array(0), 44100).next(),
+    ).rejects.toBeInstanceOf(InvalidAudio);
+  });
+
+  it("should give the error of a failed audio decode", async () => {
+    const result = await new FeskDecoder().decodeAudioDataWithSymbolExtractor(
+      new Float32Array(44100),
+      44100,
+      extractorOptions,
+    );
+
+    expect(result.error).toBeInstanceOf(NoCarrier);
+    expect(result.error!.message).toBe("No carrier found in the audio");
+    expect(result.failureReason).toBe(result.error!.kind);
+  });
+});
@@ -0,0 +1,84 @@
+import {
+  DecodePipeline,
+  DecodeStrategy,
+  completeDecodeStrategies,
+  createDecodeStrategyRegistry,
+  defaultDecodeStrategies,
+} from "../decodePipeline";
+import { audio, extractorOptions } from "./helpers/decodeFixtures";
+
+jest.setTimeout(120000);
+
+// Strategy that only ever sees silence
+const silence: DecodeStrategy = {
+  name: "silence",
+  decode: ({ decoder, sampleRate }) =>
+    decoder.decodeAudioDataWithSymbolExtractor(
+      new Float32Array(sampleRate),
+      sampleRate,
+      extractorOptions,
+    ),
+};
+
+describe("DecodePipeline", () => {
+  it("should run strategies in order until one decodes", async () => {
+    const registry = createDecodeStrategyRegistry().register(silence);
+    const result = await new DecodePipeline({
+      registry,
+      strategies: ["silence", "onsetSymbolExtractor", "complete"],
+      extractorOptions,
+    }).decode(audio, 44100);
+
+    expect(new TextDecoder().decode(result.frame!.payload)).toBe("test");
+    expect(result.pipelineStrategy).toBe("onsetSymbolExtractor");
+    expect(result.attempts.map((attempt) => attempt.strategy)).toEqual([
+      "silence",
+      "onsetSymbolExtractor",
+    ]);
+    expect(result.attempts[0].failureReason).toBe("noCarrier");
+    // Start time counts from the start of the whole audio, not the onset
+    expect(Math.abs(result.startTime! - 0.5)).toBeLessThan(0.03);
+  });
+
+  it("should not start any strategy once the budget is spent", async () => {
+    const result = await new DecodePipeline({
+      strategies: [silence, "symbolExtractor"],
+      budgetMs: 0,
+      extractorOptions,
+    }).decode(audio, 44100);
+
+    expect(result.frame).toBeNull();
+    expect(result.failureReason).toBe("preambleNotFound");
+    expect(result.pipelineStrategy).toBeNull();
+    expect(result.partial).toBe(true);
+    expect(result.attempts).toEqual([]);
+
+    const quiet = await new DecodePipeline({
+      strategies: [silence],
+      budgetMs: 0,
+    }).decode(new Float32Array(44100), 44100);
+    expect(quiet.failureReason).toBe("noCarrier");
+    expect(quiet.attempts).toEqual([]);
+  });
+
+  it("should reject unknown and duplicate strategies", () => {
+    expect(() => new DecodePipeline({ strategies: ["missing"] })).toThrow(
+      "Unknown decode strategy: missing",
+    );
+    expect(() => new DecodePipeline({ strategies: [] })).toThrow();
+    expect(() =>
+      createDecodeStrategyRegistry().register({ ...silence, name: "complete" }),
+    ).toThrow("Decode strategy already registered: complete");
+
+    const registry = createDecodeStrategyRegistry();
+    for (const name of [
+      ...defaultDecodeStrategies(48000),
+      ...completeDecodeStrategies(),
+    ]) {
+      expect(registry.has(name)).toBe(true);
+    }
+    expect(completeDecodeStrategies(false)).not.toContain("timingSync");
+    expect(defaultDecodeStrategies(48000)[0]).toBe("symbolExtractor");
+    expect(defaultDecodeStrategies(44100)[0]).toBe("onsetComplete");
+  });
+});
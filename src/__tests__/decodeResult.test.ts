@@ -0,0 +1,117 @@
+import { FeskDecoder } from "../feskDecoder";
+import { FeskEncoder } from "../feskEncoder";
+import { DEFAULT_CONFIG } from "../config";
+import { audio, extractorOptions, render } from "./helpers/decodeFixtures";
+
+jest.setTimeout(120000);
+
+describe("DecodeResult", () => {
+  it("should describe how the symbol extractor decoded a frame", async () => {
+    const symbols = new FeskEncoder().encodeText("test");
+    const result = await new FeskDecoder().decodeAudioDataWithSymbolExtractor(
+      audio,
+      44100,
+      extractorOptions,
+    );
+
+    expect(new TextDecoder().decode(result.frame!.payload)).toBe("test");
+    expect(result.failureReason).toBeNull();
+    expect(result.strategy).toBe("symbolExtractor");
+    expect(result.frequencySet).toBe("default");
+    expect(result.toneFrequencies).toEqual(DEFAULT_CONFIG.toneFrequencies);
+    expect(result.symbolDuration).toBeCloseTo(0.1, 3);
+    expect(Math.abs(result.startTime! - 0.5)).toBeLessThan(0.03);
+    expect(result.symbolConfidences.length).toBe(symbols.length);
+    expect(Math.min(...result.symbolConfidences)).toBeGreaterThan(0.9);
+    expect(result.snrDb).toBeGreaterThan(30);
+    expect(result.preambleBitErrors).toBe(0);
+    expect(result.syncBitErrors).toBe(0);
+    expect(result.corrections).toEqual([]);
+  });
+
+  it("should keep the deprecated symbol extractor info in step", async () => {
+    const decoder = new FeskDecoder();
+    expect(decoder.getLastSymbolExtractorInfo()).toBeNull();
+
+    const result = await decoder.decodeAudioDataWithSymbolExtractor(
+      audio,
+      44100,
+      extractorOptions,
+    );
+    expect(decoder.getLastSymbolExtractorInfo()).toEqual({
+      frequencySet: result.frequencySet,
+      symbolDuration: result.symbolDuration,
+      startTime: result.startTime,
+    });
+
+    await decoder.decodeAudioDataWithSymbolExtractor(
+      new Float32Array(44100),
+      44100,
+      extractorOptions,
+    );
+    expect(decoder.getLastSymbolExtractorInfo()).toBeNull();
+  });
+
+  it("should report symbols repaired by the list decoder", async () => {
+    const symbols = new FeskEncoder().encodeText("test");
+    symbols[40] = (symbols[40] + 1) % 3;
+
+    const result = await new FeskDecoder().decodeAudioDataWithSymbolExtractor(
+      render(symbols),
+      44100,
+      extractorOptions,
+    );
+
+    expect(result.frame!.isValid).toBe(true);
+    expect(result.strategy).toBe("listDecoding");
+    expect(result.corrections).toEqual([{ kind: "list", count: 1 }]);
+  });
+
+  it("should report the winning strategy of processAudioComplete", async () => {
+    const result = await new FeskDecoder().processAudioComplete(
+      audio,
+      44100,
+      100,
+    );
+
+    expect(result.frame!.isValid).toBe(true);
+    expect(result.strategy).not.toBeNull();
+    expect(result.frequencySet).toBe("default");
+    expect(Math.abs(result.startTime! - 0.5)).toBeLessThan(0.1);
+  });
+
+  it("should give a typed reason when nothing decodes", async () => {
+    const decoder = new FeskDecoder();
+
+    const silence = await decoder.decodeAudioDataWithSymbolExtractor(
+      new Float32Array(44100 * 3),
+      44100,
+      extractorOptions,
+    );
+    expect(silence.frame).toBeNull();
+    expect(silence.failureReason).toBe("noCarrier");
+    expect(silence.strategy).toBeNull();
+
+    const tone = await decoder.decodeAudioDataWithSymbolExtractor(
+      render(new Array(60).fill(1)),
+      44100,
+      extractorOptions,
+    );
+    expect(tone.failureReason).toBe("preambleNotFound");
+
+    // Three payload errors are beyond a list of one sequence
+    const corrupted = new FeskEncoder().encodeText("test");
+    for (const index of [40, 45, 50]) {
+      corrupted[index] = (corrupted[index] + 1) % 3;
+    }
+    const crc = await decoder.decodeAudioDataWithSymbolExtractor(
+      render(corrupted),
+      44100,
+      { ...extractorOptions, listSize: 1 },
+    );
+    expect(crc.frame).toBeNull();
+    expect(crc.failureReason).toBe("crcMismatch");
+    expect(crc.preambleBitErrors).toBe(0);
+    expect(crc.syncBitErrors).toBe(0);
+  });
+});
@@ -0,0 +1,150 @@
+import { Readable, Writable } from "stream";
+import { pipeline } from "stream/promises";
+import {
+  FeskDecodeStream,
+  FeskFrameRecord,
+  FeskMessageRecord,
+} from "../feskDecodeStream";
+import { FeskStreamEvents } from "../feskStreamDecoder";
+import { FeskEncoder } from "../feskEncoder";
+import { MessageFragmenter } from "../messageFragmenter";
+import { ToneSynthesizer } from "../audio/toneSynthesizer";
+import { DEFAULT_CONFIG } from "../config";
+
+jest.setTimeout(120000);
+
+const render = (text: string, sampleRate: number, config = DEFAULT_CONFIG) =>
+  new ToneSynthesizer(config, {
+    sampleRate,
+    leadingSilence: 0.2,
+    trailingSilence: 0.3,
+  }).synthesize(new FeskEncoder(config).encodeText(text));
+
+const toS16Stereo = (samples: Float32Array) => {
+  const buffer = Buffer.alloc(samples.length * 4);
+  samples.forEach((sample, i) => {
+    const value = Math.round(sample * 32767);
+    buffer.writeInt16LE(value, i * 4);
+    buffer.writeInt16LE(value, i * 4 + 2);
+  });
+  return buffer;
+};
+
+const toF32 = (samples: Float32Array) =>
+  Buffer.from(samples.buffer, samples.byteOffset, samples.byteLength);
+
+// Odd chunk sizes split sample frames across chunks
+const chunked = (buffer: Buffer, size: number) => {
+  const chunks: Buffer[] = [];
+  for (let offset = 0; offset < buffer.length; offset += size) {
+    chunks.push(buffer.subarray(offset, offset + size));
+  }
+  return Readable.from(chunks);
+};
+
+const collect = async <T>(stream: FeskDecodeStream, input: Readable) => {
+  const output: T[] = [];
+  await pipeline(
+    input,
+    stream,
+    new Writable({
+      objectMode: true,
+      write(chunk: T, _encoding, callback) {
+        output.push(chunk);
+        callback();
+      },
+    }),
+  );
+  return output;
+};
+
+describe("FeskDecodeStream", () => {
+  it("should decode interleaved s16le PCM into frame objects", async () => {
+    const audio = Buffer.concat([
+      toS16Stereo(render("test", 44100)),
+      toS16Stereo(render("stream", 44100)),
+    ]);
+
+    const frames = await collect<FeskStreamEvents["frame"]>(
+      new FeskDecodeStream({ format: "s16le", channels: 2 }),
+      chunked(audio, 1001),
+    );
+
+    expect(
+      frames.map((event) => new TextDecoder().decode(event.frame.payload)),
+    ).toEqual(["test", "stream"]);
+    expect(frames[0].frame.isValid).toBe(true);
+    expect(frames[1].startSample).toBeGreaterThan(frames[0].endSample);
+  });
+
+  it("should write NDJSON records for f32le input at any sample rate", async () => {
+    const sampleRate = 48000;
+    const lines = await collect<Buffer | string>(
+      new FeskDecodeStream({ format: "f32le", sampleRate, output: "ndjson" }),
+      chunked(toF32(render("ndjson", sampleRate)), 4097),
+    );
+
+    const records: FeskFrameRecord[] = lines
+      .join("")
+      .trim()
+      .split("\n")
+      .map((line) => JSON.parse(line));
+    expect(records.length).toBe(1);
+    expect(records[0].text).toBe("ndjson");
+    expect(Buffer.from(records[0].payload, "base64").toString()).toBe("ndjson");
+    expect(records[0].startTime).toBeCloseTo(0.2, 2);
+  });
+
+  it("should write reassembled messages in place of frames", async () => {
+    const encoder = new FeskEncoder();
+    const samples = new ToneSynthesizer(DEFAULT_CONFIG, {
+      leadingSilence: 0.2,
+      trailingSilence: 0.3,
+    }).synthesize(
+      new MessageFragmenter(4)
+        .fragment(new TextEncoder().encode("in parts"), 3)
+        .flatMap((fragment) => encoder.encode(fragment, true)),
+    );
+
+    const lines = await collect<Buffer | string>(
+      new FeskDecodeStream({
+        format: "f32le",
+        output: "ndjson",
+        messages: true,
+      }),
+      chunked(toF32(samples), 8192),
+    );
+
+    const records: FeskMessageRecord[] = lines
+      .join("")
+      .trim()
+      .split("\n")
+      .map((line) => JSON.parse(line));
+    expect(records.length).toBe(1);
+    expect(records[0].messageId).toBe(3);
+    expect(records[0].fragmentCount).toBe(2);
+    expect(records[0].text).toBe("in parts");
+  });
+
+  it("should decode a frame that ends with the stream", async () => {
+    const samples = new ToneSynthesizer(DEFAULT_CONFIG, {
+      leadingSilence: 0.2,
+    }).synthesize(new FeskEncoder().encodeText("end"));
+
+    const frames = await collect<FeskStreamEvents["frame"]>(
+      new FeskDecodeStream({ format: "f32le" }),
+      chunked(toF32(samples), 8192),
+    );
+
+    expect(frames.length).toBe(1);
+  });
+
+  it("should reject unsupported formats", () => {
+    expect(
+      () => new FeskDecodeStream({ format: "u8" as unknown as "s16le" }),
+    ).toThrow("Unsupported sample format: u8");
+    expect(() => new FeskDecodeStream({ channels: 0 })).toThrow(
+      "Invalid channel count: 0",
+    );
+  });
+});
@@ -0,0 +1,76 @@
+import { FeskDecoder } from "../feskDecoder";
+import { FeskEncoder } from "../feskEncoder";
+import { DEFAULT_CONFIG } from "../config";
+import { LocatedFrame } from "../types";
+import { extractorOptions, render } from "./helpers/decodeFixtures";
+
+jest.setTimeout(180000);
+
+const concat = (...parts: Float32Array[]) => {
+  const output = new Float32Array(
+    parts.reduce((sum, part) => sum + part.length, 0),
+  );
+  let offset = 0;
+  for (const part of parts) {
+    output.set(part, offset);
+    offset += part.length;
+  }
+  return output;
+};
+
+const collect = async (iterator: AsyncIterable<LocatedFrame>) => {
+  const frames: LocatedFrame[] = [];
+  for await (const located of iterator) {
+    frames.push(located);
+  }
+  return frames;
+};
+
+describe("FeskDecoder.frames", () => {
+  it("should yield each frame of a long recording with its position", async () => {
+    const encoder = new FeskEncoder();
+    const texts = ["one", "two", "three"];
+    const symbols = texts.map((text) => encoder.encodeText(text));
+    // A tone burst without preamble sits between the first two frames, and
+    // the last two frames are sent back to back
+    const parts = [
+      render(symbols[0], 1, 0),
+      render(new Array(10).fill(1), 0.5, 0.5),
+      render(symbols[1], 0.5, 0),
+      render(symbols[2], 0, 1.5),
+    ];
+    const audio = concat(...parts);
+
+    const frames = await collect(
+      new FeskDecoder().frames(audio, 44100, extractorOptions),
+    );
+
+    expect(
+      frames.map((located) => new TextDecoder().decode(located.frame.payload)),
+    ).toEqual(texts);
+
+    const symbolSamples = DEFAULT_CONFIG.symbolDuration * 44100;
+    const starts = [
+      44100,
+      parts[0].length + parts[1].length + 0.5 * 44100,
+      parts[0].length + parts[1].length + parts[2].length,
+    ];
+    frames.forEach((located, i) => {
+      expect(Math.abs(located.startSample - starts[i])).toBeLessThan(
+        symbolSamples / 4,
+      );
+      expect(located.endSample - located.startSample).toBeCloseTo(
+        symbols[i].length * symbolSamples,
+        -1,
+      );
+    });
+  });
+
+  it("should yield nothing for a recording without transmissions", async () => {
+    const audio = new Float32Array(44100 * 3).map(
+      (_, i) => 0.005 * Math.sin(i * 0.37),
+    );
+
+    expect(await collect(new FeskDecoder().frames(audio, 44100))).toEqual([]);
+  });
+});
@@ -0,0 +1,102 @@
+import { FeskEncoder } from "../feskEncoder";
+import { FeskDecoder } from "../feskDecoder";
+import { CanonicalTritEncoder } from "../utils/canonicalTritEncoder";
+import { CanonicalTritDecoder } from "../utils/canonicalTritDecoder";
+import { LFSRScrambler } from "../utils/lfsrScrambler";
+import { LFSRDescrambler } from "../utils/lfsrDescrambler";
+
+const TEST_TONE_SEQUENCE =
+  "2,0,2,0,2,0,2,0,2,0,2,0,2,2,2,2,2,0,0,2,2,0,2,0,2,1,1,2,0,0,0,1,1,2,1,0,1,1,0,0,1,2,2,0,1,2,0,1,0,2,0,0,2,1,2,2,0,0,2,0,2,2,1,0,1,1"
+    .split(",")
+    .map(Number);
+
+describe("FeskEncoder", () => {
+  let encoder: FeskEncoder;
+
+  beforeEach(() => {
+    encoder = new FeskEncoder();
+  });
+
+  describe("knownSequences", () => {
+    it('should reproduce the TX symbol stream for "test"', () => {
+      expect(encoder.encodeText("test")).toEqual(TEST_TONE_SEQUENCE);
+    });
+
+    it('should build the known frame bytes for "four56"', () => {
+      const bytes = encoder.buildFrameBytes(new TextEncoder().encode("four56"));
+      expect(bytes).toEqual(
+        new Uint8Array([
+          0xc1, 0xfd, 0x8e, 0x23, 0xe5, 0x00, 0xbe, 0xd1, 0x44, 0x61,
+        ]),
+      );
+    });
+  });
+
+  describe("roundTrip", () => {
+    it("should round trip through decodeCompleteTransmission", () => {
+      const decoder = new FeskDecoder();
+      const messages = [
+        "a",
+        "three45",
+        "a pretty long yes long long long text oh so long i dont know what?",
+      ];
+
+      for (const message of messages) {
+        const result = decoder.decodeCompleteTransmission(
+          encoder.encodeText(message),
+        );
+        expect(result.errors).toEqual([]);
+        expect(result.frame!.isValid).toBe(true);
+        expect(new TextDecoder().decode(result.frame!.payload)).toBe(message);
+      }
+    });
+
+    it("should round trip binary payloads up to the maximum length", () => {
+      const decoder = new FeskDecoder();
+      const payload = new Uint8Array(FeskEncoder.MAX_PAYLOAD_LENGTH);
+      for (let i = 0; i < payload.length; i++) {
+        payload[i] = (i * 37 + 11) & 0xff;
+      }
+
+      const result = decoder.decodeCompleteTransmission(
+        encoder.encode(payload),
+      );
+      expect(result.frame!.isValid).toBe(true);
+      expect(result.frame!.payload).toEqual(payload);
+    });
+  });
+
+  describe("primitives", () => {
+    it("should invert CanonicalTritDecoder.decodeLongSequence", () => {
+      const bytes = new Uint8Array([0xc1, 0x00, 0x7f, 0xff, 0x01]);
+      const trits = CanonicalTritEncoder.encodeBytes(bytes);
+      expect(trits.length).toBe(CanonicalTritEncoder.tritCountForBytes(5));
+      expect(CanonicalTritDecoder.decodeLongSequence(trits)).toEqual(bytes);
+    });
+
+    it("should invert differential decoding", () => {
+      const trits = [0, 1, 2, 2, 1, 0, 0, 2];
+      const encoded = CanonicalTritEncoder.differentialEncode(trits);
+      expect(CanonicalTritDecoder.differentialDecode(encoded)).toEqual(trits);
+    });
+
+    it("should invert LFSRDescrambler", () => {
+      const scrambler = new LFSRScrambler();
+      const descrambler = new LFSRDescrambler();
+      for (let i = 0; i < 64; i++) {
+        expect(descrambler.descrambleByte(scrambler.scrambleByte(i))).toBe(i);
+      }
+    });
+  });
+
+  describe("errorHandling", () => {
+    it("should reject empty and oversized payloads", () => {
+      expect(() => encoder.encode(new Uint8Array())).toThrow(
+        "Payload must contain at least one byte",
+      );
+      expect(() => encoder.encode(new Uint8Array(257))).toThrow(
+        "Payload too long: 257 bytes (max 256)",
+      );
+    });
+  });
+});
@@ -0,0 +1,193 @@
+import {
+  FeskStreamDecoder,
+  FeskStreamEventName,
+  FeskStreamEvents,
+} from "../feskStreamDecoder";
+import { FeskEncoder } from "../feskEncoder";
+import { ToneSynthesizer } from "../audio/toneSynthesizer";
+import { DEFAULT_CONFIG, FeskConfig } from "../config";
+
+jest.setTimeout(120000);
+
+const render = (
+  symbols: number[],
+  config: FeskConfig = DEFAULT_CONFIG,
+  leadingSilence = 0.3,
+  trailingSilence = 0.3,
+) =>
+  new ToneSynthesizer(config, {
+    leadingSilence,
+    trailingSilence,
+  }).synthesize(symbols);
+
+const concat = (...parts: Float32Array[]) => {
+  const output = new Float32Array(
+    parts.reduce((sum, part) => sum + part.length, 0),
+  );
+  let offset = 0;
+  for (const part of parts) {
+    output.set(part, offset);
+    offset += part.length;
+  }
+  return output;
+};
+
+// Feed audio in irregular chunk sizes so symbols straddle chunk boundaries
+const feed = (decoder: FeskStreamDecoder, audio: Float32Array) => {
+  const sizes = [1, 333, 4096, 997, 12000, 2];
+  let offset = 0;
+  for (let i = 0; offset < audio.length; i++) {
+    const size = sizes[i % sizes.length];
+    decoder.write(audio.subarray(offset, offset + size));
+    offset += size;
+  }
+  decoder.flush();
+};
+
+const record = (decoder: FeskStreamDecoder) => {
+  const events: {
+    [E in FeskStreamEventName]: FeskStreamEvents[E][];
+  } = {
+    carrier: [],
+    preamble: [],
+    sync: [],
+    trit: [],
+    frame: [],
+    crcError: [],
+    message: [],
+    lost: [],
+  };
+  for (const name of Object.keys(events) as FeskStreamEventName[]) {
+    decoder.on(name, (event) =>
+      (events[name] as FeskStreamEvents[typeof name][]).push(event),
+    );
+  }
+  return events;
+};
+
+const text = (event: FeskStreamEvents["frame"]) =>
+  new TextDecoder().decode(event.frame.payload);
+
+describe("FeskStreamDecoder", () => {
+  it("should decode back-to-back frames across chunk boundaries", () => {
+    const encoder = new FeskEncoder();
+    const audio = concat(
+      render(encoder.encodeText("test"), DEFAULT_CONFIG, 0.3, 0),
+      render(encoder.encodeText("hello"), DEFAULT_CONFIG, 0, 0.4),
+    );
+
+    const decoder = new FeskStreamDecoder();
+    const events = record(decoder);
+    feed(decoder, audio);
+
+    expect(events.frame.map(text)).toEqual(["test", "hello"]);
+    expect(events.preamble.length).toBe(2);
+    expect(events.sync.length).toBe(2);
+    expect(events.crcError).toEqual([]);
+    expect(events.lost).toEqual([]);
+
+    const symbolSamples = DEFAULT_CONFIG.symbolDuration * 44100;
+    expect(
+      Math.abs(events.preamble[0].sampleOffset - 0.3 * 44100),
+    ).toBeLessThan(symbolSamples * 0.05);
+    expect(events.frame[0].endSample).toBeCloseTo(
+      events.preamble[1].sampleOffset,
+      -3,
+    );
+    expect(events.trit.length).toBe(
+      encoder.encodeText("test").length +
+        encoder.encodeText("hello").length -
+        50,
+    );
+    expect(events.carrier.map((event) => event.present)).toEqual([true, false]);
+  });
+
+  it("should follow the transmitter's actual symbol duration", () => {
+    const rxConfig = { ...DEFAULT_CONFIG, symbolDuration: 0.05 };
+    const txConfig = { ...DEFAULT_CONFIG, symbolDuration: 0.0505 };
+    const audio = render(new FeskEncoder().encodeText("drift"), txConfig);
+
+    const decoder = new FeskStreamDecoder(rxConfig);
+    const events = record(decoder);
+    let duringPayload = 0;
+    decoder.on("trit", () => {
+      duringPayload = decoder.getState().estimatedSymbolDuration;
+    });
+    feed(decoder, audio);
+
+    expect(events.frame.map(text)).toEqual(["drift"]);
+    expect(events.sync[0].symbolDuration).toBeCloseTo(0.0505, 4);
+    expect(duringPayload).toBe(events.sync[0].symbolDuration);
+  });
+
+  it("should report frames that fail the CRC and keep listening", () => {
+    const encoder = new FeskEncoder();
+    const corrupted = encoder.encodeText("test");
+    corrupted[corrupted.length - 1] = (corrupted[corrupted.length - 1] + 1) % 3;
+
+    const decoder = new FeskStreamDecoder();
+    const events = record(decoder);
+    feed(
+      decoder,
+      concat(render(corrupted), render(encoder.encodeText("next"))),
+    );
+
+    expect(events.crcError.length).toBe(1);
+    expect(events.crcError[0].frame.header.payloadLength).toBe(4);
+    expect(events.frame.map(text)).toEqual(["next"]);
+  });
+
+  it("should give up on frames whose carrier disappears", () => {
+    const symbols = new FeskEncoder().encodeText("a longer message");
+    const decoder = new FeskStreamDecoder();
+    const events = record(decoder);
+    feed(decoder, render(symbols.slice(0, 40), DEFAULT_CONFIG, 0.3, 1));
+
+    expect(events.sync.length).toBe(1);
+    expect(events.frame).toEqual([]);
+    expect(events.lost.map((event) => event.reason)).toEqual(["carrier"]);
+    // The first silent slot is still read before the carrier counts as lost
+    expect(events.lost[0].tritCount).toBe(16);
+  });
+
+  it("should decode frames of unexpected length when the carrier ends", () => {
+    // The receiver is not configured for FEC, so the frame length is unexpected
+    const fecConfig = { ...DEFAULT_CONFIG, fecParityBytes: 8 };
+    const decoder = new FeskStreamDecoder();
+    const events = record(decoder);
+    feed(decoder, render(new FeskEncoder(fecConfig).encodeText("parity")));
+
+    expect(events.frame.map(text)).toEqual(["parity"]);
+    expect(events.frame[0].frame.fec!.parityBytes).toBe(8);
+    expect(events.lost).toEqual([]);
+  });
+
+  it("should report a preamble without sync", () => {
+    const symbols = new FeskEncoder().encodeText("test");
+    for (let i = 12; i < 25; i++) {
+      symbols[i] = 1;
+    }
+
+    const decoder = new FeskStreamDecoder();
+    const events = record(decoder);
+    feed(decoder, render(symbols));
+
+    expect(events.preamble.length).toBeGreaterThan(0);
+    expect(events.sync).toEqual([]);
+    expect(events.lost[0].reason).toBe("sync");
+  });
+
+  it("should stop delivering events to removed listeners", () => {
+    const decoder = new FeskStreamDecoder();
+    const frames: string[] = [];
+    const listener = (event: FeskStreamEvents["frame"]) =>
+      frames.push(text(event));
+
+    decoder.on("frame", listener);
+    feed(decoder, render(new FeskEncoder().encodeText("one")));
+    decoder.off("frame", listener);
+    feed(decoder, render(new FeskEncoder().encodeText("two")));
+
+    expect(frames).toEqual(["one"]);
+  });
+});
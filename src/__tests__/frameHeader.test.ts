@@ -0,0 +1,173 @@
+import { FrameHeaderCodec } from "../utils/frameHeader";
+import { CanonicalTritDecoder } from "../utils/canonicalTritDecoder";
+import { LFSRScrambler } from "../utils/lfsrScrambler";
+import { CanonicalTritEncoder } from "../utils/canonicalTritEncoder";
+import { FeskEncoder } from "../feskEncoder";
+import { FeskDecoder } from "../feskDecoder";
+import { FeskStreamDecoder } from "../feskStreamDecoder";
+import { ToneSynthesizer } from "../audio/toneSynthesizer";
+import { DEFAULT_CONFIG } from "../config";
+import { Frame } from "../types";
+
+const VERSIONED_CONFIG = { ...DEFAULT_CONFIG, versionedHeader: true };
+
+const noFlags = { fec: false, fragment: false, pilots: false, reserved: 0 };
+
+describe("FrameHeaderCodec", () => {
+  it("should keep legacy headers to the bare length word", () => {
+    const header = FrameHeaderCodec.encode(54, 16, null);
+    expect(header).toEqual(new Uint8Array([0x20, 0x36]));
+    expect(FrameHeaderCodec.parseLegacy(header)).toEqual({
+      header: { payloadLength: 54 },
+      parityBytes: 16,
+      length: 2,
+    });
+    expect(FrameHeaderCodec.parseVersioned(header)).toBeNull();
+  });
+
+  it("should protect versioned headers with a checksum", () => {
+    const flags = { fec: true, fragment: true, pilots: false, reserved: 0 };
+    const header = FrameHeaderCodec.encode(256, 8, flags);
+    expect(header.length).toBe(4);
+    expect(header[0]).toBe(0x13);
+    expect(FrameHeaderCodec.parseVersioned(header)).toEqual({
+      header: { payloadLength: 256, version: 1, flags },
+      parityBytes: 8,
+      length: 4,
+    });
+
+    // Any flipped bit fails the checksum
+    for (let bit = 0; bit < 24; bit++) {
+      const corrupted = header.slice();
+      corrupted[bit >> 3] ^= 1 << (bit & 7);
+      expect(FrameHeaderCodec.parseVersioned(corrupted)).toBeNull();
+    }
+
+    // Versions this decoder does not know are not versioned headers
+    const future = header.slice();
+    future[0] = 0x23;
+    expect(FrameHeaderCodec.parseVersioned(future)).toBeNull();
+  });
+
+  it("should switch the trit decoder to legacy mode on legacy headers", () => {
+    const decoder = new CanonicalTritDecoder();
+    expect(decoder.isLegacyMode()).toBe(false);
+
+    decoder.readHeader(FrameHeaderCodec.encode(4, 0, null));
+    expect(decoder.isLegacyMode()).toBe(true);
+
+    const { header } = decoder.readHeader(
+      FrameHeaderCodec.encode(4, 0, noFlags),
+    );
+    expect(decoder.isLegacyMode()).toBe(false);
+    expect(header.version).toBe(1);
+
+    decoder.readHeader(FrameHeaderCodec.encode(4, 0, null));
+    decoder.reset();
+    expect(decoder.isLegacyMode()).toBe(false);
+  });
+});
+
+describe("Versioned frames", () => {
+  const decode = (symbols: number[]): Frame | null =>
+    new FeskDecoder().decodeCompleteTransmission(symbols).frame;
+
+  it("should decode versioned and legacy frames alike", () => {
+    const versioned = decode(
+      new FeskEncoder(VERSIONED_CONFIG).encodeText("test"),
+    );
+    expect(versioned!.isValid).toBe(true);
+    expect(new TextDecoder().decode(versioned!.payload)).toBe("test");
+    expect(versioned!.header).toEqual({
+      payloadLength: 4,
+      version: 1,
+      flags: noFlags,
+    });
+
+    const legacy = decode(new FeskEncoder().encodeText("test"));
+    expect(legacy!.isValid).toBe(true);
+    expect(legacy!.header).toEqual({ payloadLength: 4 });
+  });
+
+  it("should flag FEC, pilots and fragments", () => {
+    const config = {
+      ...VERSIONED_CONFIG,
+      fecParityBytes: 8,
+      pilotsEnabled: true,
+    };
+    const message = new Uint8Array(300).map((_, i) => i & 0xff);
+    const [first] = new FeskEncoder(config).encodeFragmented(message, 7);
+
+    const frame = new FeskDecoder(config).decodeCompleteTransmission(
+      first,
+    ).frame;
+    expect(frame!.isValid).toBe(true);
+    expect(frame!.fec!.parityBytes).toBe(8);
+    expect(frame!.pilots!.pilotCount).toBeGreaterThan(0);
+    expect(frame!.header.flags).toEqual({
+      fec: true,
+      fragment: true,
+      pilots: true,
+      reserved: 0,
+    });
+  });
+
+  it("should take the payload layout from the header flags", () => {
+    const config = { ...VERSIONED_CONFIG, pilotsEnabled: true };
+    const payload = new Uint8Array(40).map((_, i) => i);
+    const symbols = new FeskEncoder(config).encode(payload);
+
+    // A receiver not expecting pilots, whose first pilot slot is damaged,
+    // only strips them because the header says they are there
+    const headerSymbols = config.preambleBits.length + config.barker13.length;
+    symbols[headerSymbols + config.pilotInterval] ^= 2;
+    const frame = decode(symbols);
+    expect(frame!.isValid).toBe(true);
+    expect(frame!.payload).toEqual(payload);
+    expect(frame!.header.flags!.pilots).toBe(true);
+    expect(frame!.pilots!.mismatches).toBe(1);
+  });
+
+  it("should read a header failing its checksum as a legacy header", () => {
+    // Version 1 header with a wrong checksum, otherwise a valid frame
+    const payload = new TextEncoder().encode("test");
+    const plain = [
+      ...FrameHeaderCodec.encode(payload.length, 0, noFlags),
+      ...payload,
+    ];
+    plain[3] ^= 0xff;
+    const scrambler = new LFSRScrambler();
+    const frameBytes = new Uint8Array([
+      ...plain.map((byte) => scrambler.scrambleByte(byte)),
+      ...new FeskEncoder().buildFrameBytes(payload).slice(-2),
+    ]);
+
+    const encoder = new FeskEncoder();
+    const symbols = [
+      ...encoder.getPreambleSymbols(),
+      ...encoder.getSyncSymbols(),
+      ...CanonicalTritEncoder.encodeBytesWithDifferential(frameBytes),
+    ];
+    const frame = decode(symbols);
+    expect(frame?.isValid ?? false).toBe(false);
+    expect(frame?.header.version).toBeUndefined();
+  });
+
+  it("should decode versioned frames from a stream", () => {
+    const audio = new ToneSynthesizer(VERSIONED_CONFIG, {
+      leadingSilence: 0.5,
+      trailingSilence: 0.5,
+    }).synthesize(new FeskEncoder(VERSIONED_CONFIG).encodeText("stream"));
+
+    const frames: Frame[] = [];
+    const decoder = new FeskStreamDecoder();
+    decoder.on("frame", ({ frame }) => frames.push(frame));
+    decoder.write(audio);
+    decoder.flush();
+
+    expect(
+      frames.map((frame) => new TextDecoder().decode(frame.payload)),
+    ).toEqual(["stream"]);
+    expect(frames[0].header.version).toBe(1);
+  });
+});
@@ -0,0 +1,94 @@
+import { FeskDecoder } from "../feskDecoder";
+import { FeskEncoder } from "../feskEncoder";
+import { FeskStreamDecoder } from "../feskStreamDecoder";
+import { ToneSynthesizer } from "../audio/toneSynthesizer";
+import { DEFAULT_CONFIG, FeskConfig } from "../config";
+
+jest.setTimeout(120000);
+
+// Longer preamble and a Barker-11 sync word
+const config: FeskConfig = {
+  ...DEFAULT_CONFIG,
+  preambleBits: [1, 0, 1, 0, 1, 0, 1, 0, 1, 0, 1, 0, 1, 0, 1, 0],
+  barker13: [1, 1, 1, 0, 0, 0, 1, 0, 0, 1, 0],
+};
+
+const symbols = new FeskEncoder(config).encodeText("test");
+const audio = new ToneSynthesizer(config, {
+  leadingSilence: 0.5,
+  trailingSilence: 0.5,
+}).synthesize(symbols);
+
+describe("Configurable preamble and sync", () => {
+  it("should check the configured patterns and their lengths", () => {
+    const decoder = new FeskDecoder(config);
+    const result = decoder.decodeCompleteTransmission(symbols);
+    expect(result.preambleValid).toBe(true);
+    expect(result.syncValid).toBe(true);
+    expect(new TextDecoder().decode(result.frame!.payload)).toBe("test");
+
+    // The default layout does not line up with this frame
+    const mismatched = new FeskDecoder().decodeCompleteTransmission(symbols);
+    expect(mismatched.syncValid).toBe(false);
+    expect(mismatched.frame?.isValid).not.toBe(true);
+  });
+
+  it("should find and repair the configured patterns", () => {
+    const decoder = new FeskDecoder(config);
+    const shifted = [1, ...symbols];
+    expect(decoder.findPreambleInSymbols(shifted)).toBe(1);
+
+    const damaged = [...symbols];
+    damaged[2] = 1;
+    damaged[config.preambleBits.length + 4] = 1;
+    expect(decoder.attemptPatternCorrection(damaged)).toEqual(symbols);
+
+    const timing = decoder.optimizeSymbolTiming(symbols, 2);
+    expect(timing.offset).toBe(0);
+    expect(timing.confidence).toBe(1);
+  });
+
+  it("should decode audio with both decoder paths", async () => {
+    const complete = await new FeskDecoder(config).processAudioComplete(
+      audio,
+      44100,
+    );
+    expect(new TextDecoder().decode(complete.frame!.payload)).toBe("test");
+
+    const extracted = await new FeskDecoder(
+      config,
+    ).decodeAudioDataWithSymbolExtractor(audio, 44100, {
+      frequencySets: [
+        { name: "default", tones: [...DEFAULT_CONFIG.toneFrequencies] },
+      ],
+      symbolDurations: [config.symbolDuration],
+    });
+    expect(new TextDecoder().decode(extracted.frame!.payload)).toBe("test");
+  });
+
+  it("should stream-decode a sync word shorter than 11 bits", () => {
+    // Barker-7 sync word
+    const barker7: FeskConfig = {
+      ...DEFAULT_CONFIG,
+      barker13: [1, 1, 1, 0, 0, 1, 0],
+    };
+    const stream = new FeskStreamDecoder(barker7);
+    const frames: string[] = [];
+    const lost: string[] = [];
+    stream.on("frame", ({ frame }) =>
+      frames.push(new TextDecoder().decode(frame.payload)),
+    );
+    stream.on("lost", ({ reason }) => lost.push(reason));
+
+    stream.write(
+      new ToneSynthesizer(barker7, {
+        leadingSilence: 0.5,
+        trailingSilence: 0.5,
+      }).synthesize(new FeskEncoder(barker7).encodeText("test")),
+    );
+    stream.flush();
+
+    expect(frames).toEqual(["test"]);
+    expect(lost).toEqual([]);
+  });
+});
@@ -0,0 +1,126 @@
+import {
+  FrequencyEstimator,
+  FrequencyTracker,
+} from "../utils/frequencyEstimator";
+import { PreambleDetectionResult, PreambleDetector } from "../preambleDetector";
+import { FeskDecoder } from "../feskDecoder";
+import { FeskEncoder } from "../feskEncoder";
+import { ToneSynthesizer } from "../audio/toneSynthesizer";
+import { DEFAULT_CONFIG } from "../config";
+import { extractorOptions } from "./helpers/decodeFixtures";
+
+jest.setTimeout(60000);
+
+const tone = (frequency: number, samples: number, sampleRate = 44100) =>
+  Float32Array.from({ length: samples }, (_, i) =>
+    Math.sin((2 * Math.PI * frequency * i) / sampleRate),
+  );
+
+const scaledTones = (scale: number) =>
+  DEFAULT_CONFIG.toneFrequencies.map((frequency) => frequency * scale) as [
+    number,
+    number,
+    number,
+  ];
+
+describe("FrequencyEstimator", () => {
+  it("should find a tone between Goertzel bins", () => {
+    const peak = FrequencyEstimator.findPeak(
+      tone(2827.4, 2646),
+      2793.83,
+      44100,
+    );
+    expect(Math.abs(peak.frequency - 2827.4)).toBeLessThan(0.5);
+    expect(peak.strength).toBeGreaterThan(0.1);
+
+    // Outside the span there is no peak to find
+    const missing = FrequencyEstimator.findPeak(
+      tone(3520, 2646),
+      2793.83,
+      44100,
+    );
+    expect(missing).toEqual({ frequency: 2793.83, strength: 0 });
+  });
+
+  it("should infer the tone left out of the preamble", () => {
+    const nominal = [2000, 3000, 5000];
+    const fitted = FrequencyEstimator.fitTones(
+      [
+        { tone: 0, frequency: 2030 },
+        { tone: 2, frequency: 5060 },
+        { tone: 2, frequency: 5070 },
+      ],
+      nominal,
+    );
+    // f1 keeps its place a third of the way from f0 to f2
+    [2030, 2030 + (5065 - 2030) / 3, 5065].forEach((frequency, i) =>
+      expect(fitted[i]).toBeCloseTo(frequency, 9),
+    );
+    expect(
+      FrequencyEstimator.fitTones([{ tone: 2, frequency: 5050 }], nominal),
+    ).toEqual([2020, 3030, 5050]);
+    expect(FrequencyEstimator.fitTones([], nominal)).toEqual(nominal);
+  });
+
+  it("should follow slow drift a bounded step at a time", () => {
+    const tracker = new FrequencyTracker([2000, 3000, 4000], 0.5, 0.001);
+    tracker.update(1, 3030);
+    expect(tracker.getTones()[1]).toBeCloseTo(3003, 6);
+
+    for (let i = 0; i < 50; i++) {
+      tracker.update(2, 4040);
+    }
+    const [f0, f1, f2] = tracker.getTones();
+    expect(f2).toBeCloseTo(4040, 0);
+    expect(f0 / 2000).toBeCloseTo(f1 / 3000, 9);
+
+    tracker.update(0, NaN);
+    expect(tracker.getTones()[2]).toBe(f2);
+  });
+
+  it("should estimate the preamble tones from measured detections", () => {
+    const detector = new PreambleDetector({ ...DEFAULT_CONFIG });
+    const tones = scaledTones(1.01);
+    let result: PreambleDetectionResult | null = null;
+
+    DEFAULT_CONFIG.preambleBits.forEach((bit, i) => {
+      const symbol = bit === 1 ? 2 : 0;
+      result = detector.processToneDetections(
+        [
+          {
+            frequency: DEFAULT_CONFIG.toneFrequencies[symbol],
+            magnitude: 1,
+            confidence: 0.9,
+            measuredFrequency: tones[symbol],
+          },
+        ],
+        i * 100,
+      );
+    });
+
+    expect(result!.detected).toBe(true);
+    result!.estimatedFrequencies.forEach((frequency, i) =>
+      expect(frequency).toBeCloseTo(tones[i], 6),
+    );
+  });
+
+  it("should decode with tones off their nominal frequencies", async () => {
+    const tones = scaledTones(1.012);
+    const audio = new ToneSynthesizer(
+      { ...DEFAULT_CONFIG, toneFrequencies: tones },
+      { leadingSilence: 0.5, trailingSilence: 0.5 },
+    ).synthesize(new FeskEncoder().encodeText("test"));
+
+    const result = await new FeskDecoder().decodeAudioDataWithSymbolExtractor(
+      audio,
+      44100,
+      extractorOptions,
+    );
+
+    expect(new TextDecoder().decode(result.frame!.payload)).toBe("test");
+    expect(result.frequencySet).toBe("afc");
+    result.toneFrequencies!.forEach((frequency, i) =>
+      expect(Math.abs(frequency - tones[i])).toBeLessThan(1),
+    );
+  });
+});
@@ -0,0 +1,26 @@
+import { SymbolExtractorDecodeOptions } from "../../feskDecoder";
+import { FeskEncoder } from "../../feskEncoder";
+import { ToneSynthesizer } from "../../audio/toneSynthesizer";
+import { DEFAULT_CONFIG } from "../../config";
+
+// Symbols at 44.1 kHz, by default with half a second of silence on either side
+export const render = (
+  symbols: number[],
+  leadingSilence = 0.5,
+  trailingSilence = 0.5,
+) =>
+  new ToneSynthesizer(DEFAULT_CONFIG, {
+    leadingSilence,
+    trailingSilence,
+  }).synthesize(symbols);
+
+// "test" rendered with the default silences
+export const audio = render(new FeskEncoder().encodeText("test"));
+
+// Symbol extractor search narrowed to the transmitted tones and timing
+export const extractorOptions: SymbolExtractorDecodeOptions = {
+  frequencySets: [
+    { name: "default", tones: [...DEFAULT_CONFIG.toneFrequencies] },
+  ],
+  symbolDurations: [DEFAULT_CONFIG.symbolDuration],
+};
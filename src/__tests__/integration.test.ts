@@ -97,7 +97,7 @@ describe("FESK Integration Tests", () => {
         startTime / 1000,
       );
 
-      const frame = await decoder.processAudioComplete(
+      const { frame } = await decoder.processAudioComplete(
         audioWithOffset.data,
         audioWithOffset.sampleRate,
         100, // 100ms chunks - exact symbol duration
@@ -127,7 +127,7 @@ describe("FESK Integration Tests", () => {
         startTime / 1000,
       );
 
-      const frame = await decoder.processAudioComplete(
+      const { frame } = await decoder.processAudioComplete(
         audioWithOffset.data,
         audioWithOffset.sampleRate,
       );
@@ -156,7 +156,7 @@ describe("FESK Integration Tests", () => {
         startTime / 1000,
       );
 
-      const frame = await decoder.processAudioComplete(
+      const { frame } = await decoder.processAudioComplete(
         audioWithOffset.data,
         audioWithOffset.sampleRate,
         100, // Same as other tests
@@ -179,7 +179,7 @@ describe("FESK Integration Tests", () => {
 
       const wavPath = path.join(__dirname, "../../testdata/fesk1mp.wav");
       const decoder = new FeskDecoder();
-      const frame = await decoder.decodeWavFileWithSymbolExtractor(wavPath);
+      const { frame } = await decoder.decodeWavFileWithSymbolExtractor(wavPath);
 
       expect(frame).not.toBeNull();
       expect(frame!.isValid).toBe(true);
@@ -195,7 +195,7 @@ describe("FESK Integration Tests", () => {
 
       const wavPath = path.join(__dirname, "../../testdata/webapp-fesk1.wav");
       const decoder = new FeskDecoder();
-      const frame = await decoder.decodeWavFileWithSymbolExtractor(wavPath);
+      const { frame } = await decoder.decodeWavFileWithSymbolExtractor(wavPath);
 
       expect(frame).not.toBeNull();
       expect(frame!.isValid).toBe(true);
@@ -214,17 +214,20 @@ describe("FESK Integration Tests", () => {
       let committedSequence: number[] | null = null;
       let lastSequence: number[] | null = null;
 
-      const frame = await decoder.decodeWavFileWithSymbolExtractor(wavPath, {
-        debugIncludeSequence: true,
-        debugCollector: (info) => {
-          if (info.sequence) {
-            lastSequence = [...info.sequence];
-            if (info.frameValid) {
-              committedSequence = [...info.sequence];
+      const { frame } = await decoder.decodeWavFileWithSymbolExtractor(
+        wavPath,
+        {
+          debugIncludeSequence: true,
+          debugCollector: (info) => {
+            if (info.sequence) {
+              lastSequence = [...info.sequence];
+              if (info.frameValid) {
+                committedSequence = [...info.sequence];
+              }
             }
-          }
+          },
         },
-      });
+      );
 
       expect(frame).not.toBeNull();
       expect(frame!.isValid).toBe(true);
@@ -0,0 +1,146 @@
+import { ListDecoder } from "../utils/listDecoder";
+import { ToneLikelihood, ToneLikelihoods } from "../utils/toneLikelihood";
+import { FeskEncoder } from "../feskEncoder";
+import { FeskDecoder } from "../feskDecoder";
+import { ToneSynthesizer } from "../audio/toneSynthesizer";
+import { ChannelSimulator } from "../audio/channelSimulator";
+import { DEFAULT_CONFIG } from "../config";
+
+const PAYLOAD_START = 25;
+
+const confident = (symbol: number): ToneLikelihoods =>
+  ToneLikelihood.fromHardDecision(symbol, 0.97);
+
+describe("ListDecoder", () => {
+  describe("enumeration", () => {
+    it("should recover a frame from the least reliable symbols", () => {
+      const sent = new FeskEncoder().encodeText("three45");
+      const received = [...sent];
+      const likelihoods = sent.map(confident);
+
+      // Two symbols flipped by noise, with the sent tone a close second
+      for (const index of [PAYLOAD_START + 4, PAYLOAD_START + 30]) {
+        received[index] = (sent[index] + 1) % 3;
+        const probabilities = [0.05, 0.05, 0.05];
+        probabilities[received[index]] = 0.5;
+        probabilities[sent[index]] = 0.45;
+        likelihoods[index] = probabilities.map(Math.log) as ToneLikelihoods;
+      }
+
+      const decoder = new FeskDecoder();
+      expect(
+        decoder.decodeCompleteTransmission(received).frame?.isValid,
+      ).not.toBe(true);
+
+      const result = new ListDecoder().decode(
+        received,
+        likelihoods,
+        PAYLOAD_START,
+        (sequence) => decoder.decodeCompleteTransmission(sequence).frame,
+      );
+
+      expect(result).not.toBeNull();
+      expect(result!.sequence).toEqual(sent);
+      expect(new TextDecoder().decode(result!.frame.payload)).toBe("three45");
+      expect(result!.report.corrections).toBe(2);
+      expect(result!.report.candidatesTried).toBe(4);
+      expect(result!.report.posterior).toBeGreaterThan(0.99);
+      expect(result!.frame.listDecoding).toEqual(result!.report);
+    });
+
+    it("should try sequences in order of decreasing likelihood", () => {
+      const symbols = [0, 1, 2, 0, 1];
+      const likelihoods: ToneLikelihoods[] = [
+        [-0.2, -2.0, -3.0],
+        [-1.5, -0.4, -2.5],
+        [-4.0, -1.1, -0.5],
+        [-0.1, -3.0, -3.0],
+        [-2.0, -0.3, -1.7],
+      ];
+      const score = (sequence: number[]) =>
+        sequence.reduce((sum, symbol, i) => sum + likelihoods[i][symbol], 0);
+
+      const scores: number[] = [];
+      const result = new ListDecoder({ listSize: 100 }).decode(
+        symbols,
+        likelihoods,
+        0,
+        (sequence) => {
+          scores.push(score(sequence));
+          return null;
+        },
+      );
+
+      expect(result).toBeNull();
+      expect(scores).toHaveLength(100);
+      for (let i = 1; i < scores.length; i++) {
+        expect(scores[i]).toBeLessThanOrEqual(scores[i - 1] + 1e-12);
+      }
+    });
+
+    it("should bound the posterior of unlikely CRC matches", () => {
+      const symbols = new Array(40).fill(0);
+      const likelihoods = symbols.map(() => ToneLikelihood.uniform());
+      let calls = 0;
+      const accept = () => {
+        calls++;
+        return calls === 50
+          ? {
+              header: { payloadLength: 1 },
+              payload: new Uint8Array([0]),
+              crc: 0,
+              isValid: true,
+            }
+          : null;
+      };
+
+      const unbounded = new ListDecoder().decode(
+        symbols,
+        likelihoods,
+        0,
+        accept,
+      );
+      expect(unbounded!.report.posterior).toBeLessThan(0.01);
+
+      calls = 0;
+      const bounded = new ListDecoder({ minPosterior: 0.5 }).decode(
+        symbols,
+        likelihoods,
+        0,
+        accept,
+      );
+      expect(bounded).toBeNull();
+    });
+  });
+
+  describe("symbolExtractor", () => {
+    it("should list-decode a noisy transmission that fails hard decisions", async () => {
+      const symbols = new FeskEncoder().encodeText("test");
+      const clean = new ToneSynthesizer(DEFAULT_CONFIG, {
+        leadingSilence: 0.3,
+        trailingSilence: 0.3,
+      }).synthesize(symbols);
+      const noisy = new ChannelSimulator({ seed: 4, snrDb: -21 }).process(
+        clean,
+        44100,
+      );
+
+      const { frame } =
+        await new FeskDecoder().decodeAudioDataWithSymbolExtractor(
+          noisy,
+          44100,
+          {
+            frequencySets: [
+              { name: "default", tones: [...DEFAULT_CONFIG.toneFrequencies] },
+            ],
+            startTimeRange: { start: 0, end: 1, step: 0.02 },
+          },
+        );
+
+      expect(frame!.isValid).toBe(true);
+      expect(new TextDecoder().decode(frame!.payload)).toBe("test");
+      expect(frame!.listDecoding!.corrections).toBeGreaterThan(0);
+      expect(frame!.listDecoding!.posterior).toBeGreaterThan(0.99);
+    });
+  });
+});
@@ -0,0 +1,91 @@
+import { CanonicalTritEncoder } from "../utils/canonicalTritEncoder";
+import { CanonicalTritDecoder } from "../utils/canonicalTritDecoder";
+import { FeskEncoder } from "../feskEncoder";
+import { FeskDecoder } from "../feskDecoder";
+import { FeskStreamDecoder } from "../feskStreamDecoder";
+import { ToneSynthesizer } from "../audio/toneSynthesizer";
+import { DEFAULT_CONFIG, TONE_PROFILES } from "../config";
+import { Frame } from "../types";
+
+jest.setTimeout(60000);
+
+const profileConfig = (toneCount: 3 | 4 | 8 | 16) => ({
+  ...DEFAULT_CONFIG,
+  toneFrequencies: [...TONE_PROFILES[toneCount]],
+});
+
+describe("M-ary FSK", () => {
+  it("should round-trip bytes through base-M packing", () => {
+    const bytes = new Uint8Array([0x12, 0, 1, 0x7f, 0xff, 0x34, 0x56]);
+    for (const radix of [4, 8, 16]) {
+      const trits = CanonicalTritEncoder.encodeBytesWithDifferential(
+        bytes,
+        radix,
+      );
+      expect(trits).toHaveLength(
+        CanonicalTritEncoder.tritCountForBytes(bytes.length, radix),
+      );
+      expect(trits.every((trit) => trit >= 0 && trit < radix)).toBe(true);
+      expect(
+        CanonicalTritDecoder.decodeLongSequenceWithDifferential(trits, radix),
+      ).toEqual(bytes);
+    }
+
+    // Four hex digits to two bytes
+    expect(CanonicalTritEncoder.tritCountForBytes(2, 16)).toBe(4);
+    expect(
+      CanonicalTritEncoder.encodeBytes(new Uint8Array([0xab]), 16),
+    ).toEqual([10, 11]);
+  });
+
+  it("should shorten frames as the tone count grows", () => {
+    const lengths = ([3, 4, 8, 16] as const).map((toneCount) => {
+      const symbols = new FeskEncoder(profileConfig(toneCount)).encodeText(
+        "hello m-ary",
+      );
+      expect(Math.max(...symbols)).toBeLessThan(toneCount);
+      return symbols.length;
+    });
+    for (let i = 1; i < lengths.length; i++) {
+      expect(lengths[i]).toBeLessThan(lengths[i - 1]);
+    }
+  });
+
+  it("should reject unsupported tone counts", () => {
+    expect(
+      () =>
+        new FeskEncoder({
+          ...DEFAULT_CONFIG,
+          toneFrequencies: [3000, 3500, 4000, 4500, 5000],
+        }),
+    ).toThrow("Unsupported tone count: 5");
+  });
+
+  it.each([4, 16] as const)(
+    "should decode a %i-tone transmission",
+    async (toneCount) => {
+      const config = profileConfig(toneCount);
+      const audio = new ToneSynthesizer(config, {
+        leadingSilence: 0.5,
+        trailingSilence: 0.5,
+      }).synthesize(new FeskEncoder(config).encodeText("hello m-ary"));
+
+      const result = await new FeskDecoder(config).processAudioComplete(
+        audio,
+        44100,
+      );
+      expect(new TextDecoder().decode(result.frame!.payload)).toBe(
+        "hello m-ary",
+      );
+
+      const frames: Frame[] = [];
+      const stream = new FeskStreamDecoder(config);
+      stream.on("frame", ({ frame }) => frames.push(frame));
+      stream.write(audio);
+      stream.flush();
+      expect(
+        frames.map((frame) => new TextDecoder().decode(frame.payload)),
+      ).toEqual(["hello m-ary"]);
+    },
+  );
+});
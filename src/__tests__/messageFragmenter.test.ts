@@ -0,0 +1,226 @@
+import { MessageFragmenter } from "../messageFragmenter";
+import { MessageReassembler } from "../messageReassembler";
+import { FeskEncoder } from "../feskEncoder";
+import { FeskDecoder } from "../feskDecoder";
+import { FeskStreamDecoder } from "../feskStreamDecoder";
+import { ToneSynthesizer } from "../audio/toneSynthesizer";
+import { DEFAULT_CHIRP_SYNC, DEFAULT_CONFIG, FeskConfig } from "../config";
+import { CRC32 } from "../utils/crc32";
+import { Frame, LocatedMessage } from "../types";
+
+jest.setTimeout(120000);
+
+const makeMessage = (length: number) =>
+  new Uint8Array(length).map((_, i) => (i * 131 + (i >> 8)) & 0xff);
+
+const asFrame = (payload: Uint8Array): Frame => ({
+  header: { payloadLength: payload.length },
+  payload,
+  crc: 0,
+  isValid: true,
+});
+
+describe("MessageFragmenter", () => {
+  it("should compute the standard CRC-32", () => {
+    expect(CRC32.calculate(new TextEncoder().encode("123456789"))).toBe(
+      0xcbf43926,
+    );
+  });
+
+  it("should split messages into frame-sized fragments", () => {
+    const message = makeMessage(600);
+    const fragments = new MessageFragmenter().fragment(message, 0x1234);
+
+    expect(fragments.length).toBe(3);
+    expect(fragments[0].length).toBe(256);
+    expect(fragments[2].length).toBe(
+      MessageFragmenter.HEADER_LENGTH + 600 - 2 * 245,
+    );
+
+    const parsed = MessageFragmenter.parseFragment(fragments[1])!;
+    expect(parsed.messageId).toBe(0x1234);
+    expect(parsed.fragmentIndex).toBe(1);
+    expect(parsed.fragmentCount).toBe(3);
+    expect(parsed.messageChecksum).toBe(CRC32.calculate(message));
+    expect(parsed.data).toEqual(message.slice(245, 490));
+  });
+
+  it("should not parse ordinary payloads as fragments", () => {
+    expect(
+      MessageFragmenter.parseFragment(new TextEncoder().encode("test")),
+    ).toBeNull();
+    expect(
+      MessageFragmenter.parseFragment(
+        new Uint8Array([0xf5, 0, 1, 0, 3, 0, 2, 0, 0, 0, 0, 9]),
+      ),
+    ).toBeNull();
+  });
+
+  it("should reject invalid arguments", () => {
+    expect(() => new MessageFragmenter(246)).toThrow(
+      "Invalid fragment data length: 246 (max 245)",
+    );
+    expect(() => new MessageFragmenter().fragment(new Uint8Array(), 1)).toThrow(
+      "Message must contain at least one byte",
+    );
+    expect(() =>
+      new MessageFragmenter().fragment(new Uint8Array(1), 0x10000),
+    ).toThrow("Invalid message ID: 65536");
+  });
+});
+
+describe("MessageReassembler", () => {
+  it("should round trip a long message through encoded frames in any order", () => {
+    const message = makeMessage(3000);
+    const transmissions = new FeskEncoder().encodeFragmented(message, 7);
+    expect(transmissions.length).toBe(13);
+
+    const decoder = new FeskDecoder();
+    const frames = transmissions.map(
+      (symbols) => decoder.decodeCompleteTransmission(symbols).frame!,
+    );
+    const order = frames.map((_, i) => (i * 5) % frames.length);
+
+    const reassembler = new MessageReassembler();
+    const results = order.map((i) => reassembler.addFrame(frames[i]));
+
+    expect(results.slice(0, -1).every((result) => result === null)).toBe(true);
+    const delivered = results[results.length - 1]!;
+    expect(delivered.messageId).toBe(7);
+    expect(delivered.fragmentCount).toBe(13);
+    expect(delivered.data).toEqual(message);
+    expect(reassembler.getPendingMessages()).toEqual([]);
+  });
+
+  it("should ignore duplicates and repeated deliveries", () => {
+    const fragments = new MessageFragmenter(100).fragment(makeMessage(250), 1);
+    const reassembler = new MessageReassembler();
+
+    expect(reassembler.addFrame(asFrame(fragments[0]))).toBeNull();
+    expect(reassembler.addFrame(asFrame(fragments[0]))).toBeNull();
+    expect(reassembler.addFrame(asFrame(fragments[2]))).toBeNull();
+    expect(reassembler.getPendingMessages()).toEqual([
+      { messageId: 1, fragmentCount: 3, receivedFragments: 2 },
+    ]);
+
+    expect(reassembler.addFrame(asFrame(fragments[1]))!.data).toEqual(
+      makeMessage(250),
+    );
+    expect(reassembler.addFrame(asFrame(fragments[1]))).toBeNull();
+  });
+
+  it("should drop messages that fail the message checksum", () => {
+    const fragments = new MessageFragmenter(100).fragment(makeMessage(150), 2);
+    const tampered = MessageFragmenter.parseFragment(fragments[1])!;
+    tampered.data[0] ^= 0xff;
+
+    const reassembler = new MessageReassembler();
+    expect(reassembler.addFrame(asFrame(fragments[0]))).toBeNull();
+    expect(reassembler.addFragment(tampered)).toBeNull();
+    expect(reassembler.getPendingMessages()).toEqual([]);
+  });
+
+  it("should trust the fragment flag of versioned frames", () => {
+    const fragments = new MessageFragmenter(10).fragment(makeMessage(10), 4);
+    const versioned = (fragment: boolean): Frame => ({
+      ...asFrame(fragments[0]),
+      header: {
+        payloadLength: fragments[0].length,
+        version: 1,
+        flags: { fec: false, fragment, pilots: false, reserved: 0 },
+      },
+    });
+
+    // A payload that merely opens with the marker is not a fragment
+    expect(new MessageReassembler().addFrame(versioned(false))).toBeNull();
+    expect(new MessageReassembler().addFrame(versioned(true))!.data).toEqual(
+      makeMessage(10),
+    );
+    expect(
+      new MessageReassembler().addFrame(asFrame(fragments[0]))!.data,
+    ).toEqual(makeMessage(10));
+  });
+
+  it("should skip invalid frames and evict stale messages", () => {
+    const reassembler = new MessageReassembler({ maxPendingMessages: 2 });
+    const first = new MessageFragmenter(10).fragment(makeMessage(20), 1);
+
+    expect(
+      reassembler.addFrame({ ...asFrame(first[0]), isValid: false }),
+    ).toBeNull();
+    expect(reassembler.getPendingMessages()).toEqual([]);
+
+    reassembler.addFrame(asFrame(first[0]));
+    for (const id of [2, 3]) {
+      reassembler.addFrame(
+        asFrame(new MessageFragmenter(10).fragment(makeMessage(20), id)[0]),
+      );
+    }
+
+    expect(
+      reassembler.getPendingMessages().map((pending) => pending.messageId),
+    ).toEqual([2, 3]);
+  });
+});
+
+describe("Message reassembly from audio", () => {
+  const message = new TextEncoder().encode("fragmented!!");
+
+  // Two fragment frames, then an ordinary frame, with a pause between each
+  const transmit = (config: FeskConfig) => {
+    const encoder = new FeskEncoder(config);
+    const transmissions = [
+      ...new MessageFragmenter(6)
+        .fragment(message, 9)
+        .map((fragment) => encoder.encode(fragment, true)),
+      encoder.encodeText("plain"),
+    ].map((symbols) =>
+      new ToneSynthesizer(config, {
+        leadingSilence: 0.5,
+        trailingSilence: 0.5,
+      }).synthesize(symbols),
+    );
+    const audio = new Float32Array(
+      transmissions.reduce((sum, part) => sum + part.length, 0),
+    );
+    transmissions.reduce((offset, part) => {
+      audio.set(part, offset);
+      return offset + part.length;
+    }, 0);
+    return audio;
+  };
+
+  it("should emit messages from the stream decoder", () => {
+    const audio = transmit(DEFAULT_CONFIG);
+    const decoder = new FeskStreamDecoder();
+    const events: string[] = [];
+    const messages: LocatedMessage[] = [];
+    decoder.on("frame", () => events.push("frame"));
+    decoder.on("message", (event) => {
+      events.push("message");
+      messages.push(event);
+    });
+    decoder.write(audio);
+    decoder.flush();
+
+    expect(events).toEqual(["frame", "frame", "message", "frame"]);
+    expect(messages[0].messageId).toBe(9);
+    expect(messages[0].data).toEqual(message);
+    // Before the ordinary frame
+    expect(messages[0].endSample).toBeLessThan(audio.length - 8 * 44100);
+  });
+
+  it("should reassemble messages across a recording", async () => {
+    // The chirp keeps the search of each transmission short
+    const config = { ...DEFAULT_CONFIG, chirpSync: DEFAULT_CHIRP_SYNC };
+    const messages: LocatedMessage[] = [];
+    for await (const located of new FeskDecoder(config).messages(
+      transmit(config),
+      44100,
+    )) {
+      messages.push(located);
+    }
+
+    expect(messages.map((located) => located.data)).toEqual([message]);
+  });
+});
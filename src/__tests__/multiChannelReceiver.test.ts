@@ -0,0 +1,152 @@
+import { MultiChannelReceiver } from "../multiChannelReceiver";
+import { FeskStreamDecoderOptions } from "../feskStreamDecoder";
+import { FeskEncoder } from "../feskEncoder";
+import { ToneSynthesizer } from "../audio/toneSynthesizer";
+import { GoertzelBank } from "../utils/goertzelBank";
+import { Goertzel } from "../utils/goertzel";
+import {
+  DEFAULT_CONFIG,
+  FeskConfig,
+  HARDWARE_TONE_FREQUENCIES,
+} from "../config";
+
+jest.setTimeout(60000);
+
+const hardware: FeskConfig = {
+  ...DEFAULT_CONFIG,
+  toneFrequencies: [...HARDWARE_TONE_FREQUENCIES],
+};
+
+// Each tone closest to a different default tone, so its sidelobes line up
+// into the default channel's preamble
+const interleaved: FeskConfig = {
+  ...DEFAULT_CONFIG,
+  toneFrequencies: [2600, 3900, 5000],
+};
+
+const transmit = (config: FeskConfig, text: string, leadingSilence: number) =>
+  new ToneSynthesizer(config, {
+    leadingSilence,
+    trailingSilence: 0.5,
+  }).synthesize(new FeskEncoder(config).encodeText(text));
+
+const mix = (...signals: Float32Array[]) => {
+  const mixed = new Float32Array(Math.max(...signals.map((s) => s.length)));
+  for (const signal of signals) {
+    signal.forEach((sample, i) => (mixed[i] += sample / signals.length));
+  }
+  return mixed;
+};
+
+const receive = (
+  other: FeskConfig,
+  audio: Float32Array,
+  options: FeskStreamDecoderOptions = {},
+) => {
+  const receiver = new MultiChannelReceiver(
+    [
+      { id: "beacon", config: DEFAULT_CONFIG },
+      { id: "other", config: other },
+    ],
+    options,
+  );
+  const events: string[] = [];
+  const frames: { channel: string; text: string }[] = [];
+  receiver.on("preamble", ({ channel }) => events.push(`${channel}:preamble`));
+  receiver.on("frame", ({ channel, frame }) =>
+    frames.push({ channel, text: new TextDecoder().decode(frame.payload) }),
+  );
+  for (let i = 0; i < audio.length; i += 4096) {
+    receiver.write(audio.subarray(i, i + 4096));
+  }
+  receiver.flush();
+  return { events, frames };
+};
+
+describe("MultiChannelReceiver", () => {
+  it("should decode overlapping transmissions on their own channels", () => {
+    const audio = mix(
+      transmit(DEFAULT_CONFIG, "beacon A", 0.5),
+      transmit(hardware, "beacon B", 1.3),
+    );
+    const { frames } = receive(hardware, audio);
+    expect(frames).toEqual([
+      { channel: "beacon", text: "beacon A" },
+      { channel: "other", text: "beacon B" },
+    ]);
+  });
+
+  it("should not raise preambles from another channel's leakage", () => {
+    const audio = transmit(interleaved, "beacon B", 0.5);
+
+    const unsuppressed = receive(interleaved, audio, {
+      crossChannelRejection: 0,
+    });
+    expect(unsuppressed.events).toContain("beacon:preamble");
+
+    const { events, frames } = receive(interleaved, audio);
+    expect(events).toEqual(["other:preamble"]);
+    expect(frames).toEqual([{ channel: "other", text: "beacon B" }]);
+  });
+
+  it("should reject channels that cannot share the audio", () => {
+    expect(() => new MultiChannelReceiver([])).toThrow(
+      "At least one channel is required",
+    );
+    expect(
+      () =>
+        new MultiChannelReceiver([
+          { id: "a", config: DEFAULT_CONFIG },
+          { id: "a", config: hardware },
+        ]),
+    ).toThrow("Duplicate channel id: a");
+    expect(
+      () =>
+        new MultiChannelReceiver([
+          { id: "a", config: DEFAULT_CONFIG },
+          { id: "b", config: { ...hardware, sampleRate: 48000 } },
+        ]),
+    ).toThrow("Channel b expects 48000 Hz audio, not 44100 Hz");
+    expect(
+      () =>
+        new MultiChannelReceiver([
+          { id: "a", config: DEFAULT_CONFIG },
+          {
+            id: "b",
+            config: { ...DEFAULT_CONFIG, toneFrequencies: [1000, 2000, 3500] },
+          },
+        ]),
+    ).toThrow("Channels a and b both use 3500 Hz");
+  });
+});
+
+describe("GoertzelBank", () => {
+  it("should measure each tone of a window once", () => {
+    const window = transmit(DEFAULT_CONFIG, "x", 0).subarray(0, 4410);
+    const bank = new GoertzelBank([1200, 2793.83, 4698.63, 1200], 44100);
+    expect(bank.getFrequencies()).toEqual([1200, 2793.83, 4698.63]);
+
+    const spy = jest.spyOn(Goertzel, "getFrequencyStrengthParametric");
+    const strengths = bank.strengths(window, 0, [4698.63, 2793.83]);
+    expect(strengths).toEqual(
+      Goertzel.getFrequencyStrengthsParametric(
+        window,
+        [4698.63, 2793.83],
+        44100,
+      ),
+    );
+    spy.mockClear();
+
+    expect(bank.strengths(window, 0, [2793.83])).toEqual([strengths[1]]);
+    expect(bank.strongestExcept(window, 0, [2793.83, 4698.63])).toBeLessThan(
+      strengths[0],
+    );
+    // Only the tone not measured before
+    expect(spy).toHaveBeenCalledTimes(1);
+    spy.mockRestore();
+
+    expect(() => bank.strengths(window, 0, [3520])).toThrow(
+      "Frequency not in the Goertzel bank: 3520 Hz",
+    );
+  });
+});
@@ -0,0 +1,134 @@
+import { PilotSequence } from "../utils/pilotSequence";
+import { FeskEncoder } from "../feskEncoder";
+import { FeskDecoder } from "../feskDecoder";
+import { ToneSynthesizer } from "../audio/toneSynthesizer";
+import { ChannelSimulator } from "../audio/channelSimulator";
+import { SymbolExtractor } from "../audio/symbolExtractor";
+import { DEFAULT_CONFIG } from "../config";
+
+const LONG_MESSAGE =
+  "a pretty long yes long long long text oh so long i dont know what?";
+
+const PILOT_CONFIG = { ...DEFAULT_CONFIG, pilotsEnabled: true };
+
+describe("PilotSequence", () => {
+  describe("insertAndRemove", () => {
+    it("should insert pilots between data blocks only", () => {
+      const pilots = new PilotSequence([0, 2], 3);
+
+      expect(pilots.insert([1, 1, 1, 1, 1, 1, 1])).toEqual([
+        1, 1, 1, 0, 2, 1, 1, 1, 0, 2, 1,
+      ]);
+      expect(pilots.insert([1, 1, 1, 1, 1, 1])).toEqual([
+        1, 1, 1, 0, 2, 1, 1, 1,
+      ]);
+      expect(pilots.countForDataLength(7)).toBe(2);
+      expect(pilots.countForDataLength(6)).toBe(1);
+    });
+
+    it("should strip pilots and count mismatched slots", () => {
+      const pilots = new PilotSequence([0, 2], 3);
+      const removal = pilots.remove([1, 2, 1, 0, 2, 1, 1, 2, 2, 2, 0]);
+
+      expect(removal.trits).toEqual([1, 2, 1, 1, 1, 2, 0]);
+      expect(removal.slotIndices).toEqual([3, 8]);
+      expect(removal.slotMismatches).toEqual([0, 1]);
+      expect(pilots.report(removal, 7)).toEqual({
+        pilotCount: 2,
+        mismatches: 1,
+      });
+    });
+
+    it("should pass symbols through when disabled", () => {
+      const pilots = new PilotSequence([0, 2], 0);
+
+      expect(pilots.isEnabled()).toBe(false);
+      expect(pilots.insert([1, 2, 0])).toEqual([1, 2, 0]);
+      expect(pilots.remove([1, 2, 0]).trits).toEqual([1, 2, 0]);
+    });
+  });
+
+  describe("frameDecoding", () => {
+    it("should round trip a long message with pilots enabled", () => {
+      const symbols = new FeskEncoder(PILOT_CONFIG).encodeText(LONG_MESSAGE);
+      const plain = new FeskEncoder().encodeText(LONG_MESSAGE);
+      expect(symbols.length).toBe(plain.length + 5 * 2);
+
+      const result = new FeskDecoder(PILOT_CONFIG).decodeCompleteTransmission(
+        symbols,
+      );
+      expect(result.frame!.isValid).toBe(true);
+      expect(new TextDecoder().decode(result.frame!.payload)).toBe(
+        LONG_MESSAGE,
+      );
+      expect(result.frame!.pilots).toEqual({ pilotCount: 5, mismatches: 0 });
+    });
+
+    it("should detect pilots without pilotsEnabled and still decode legacy frames", () => {
+      const decoder = new FeskDecoder();
+
+      const piloted = decoder.decodeCompleteTransmission(
+        new FeskEncoder(PILOT_CONFIG).encodeText(LONG_MESSAGE),
+      );
+      expect(piloted.frame!.isValid).toBe(true);
+      expect(piloted.frame!.pilots!.pilotCount).toBe(5);
+
+      const legacy = decoder.decodeCompleteTransmission(
+        new FeskEncoder().encodeText(LONG_MESSAGE),
+      );
+      expect(legacy.frame!.isValid).toBe(true);
+      expect(legacy.frame!.pilots).toBeUndefined();
+      expect(new TextDecoder().decode(legacy.frame!.payload)).toBe(
+        LONG_MESSAGE,
+      );
+    });
+  });
+
+  describe("audioRelock", () => {
+    it("should recover a drifting long transmission by re-locking on pilots", () => {
+      const symbols = new FeskEncoder(PILOT_CONFIG).encodeText(LONG_MESSAGE);
+      const clean = new ToneSynthesizer(PILOT_CONFIG, {
+        leadingSilence: 0.3,
+        trailingSilence: 0.3,
+      }).synthesize(symbols);
+
+      const drifted = new ChannelSimulator({ clockRatio: 1.003 }).process(
+        clean,
+        44100,
+      );
+
+      const extractor = new SymbolExtractor({
+        frequencySets: [
+          { name: "default", tones: [...DEFAULT_CONFIG.toneFrequencies] },
+        ],
+        symbolDurations: [DEFAULT_CONFIG.symbolDuration],
+        startTimeRange: { start: 0.2, end: 0.4, step: 0.01 },
+        symbolsToExtract: symbols.length,
+      });
+      const candidate = extractor.findBestCandidate(drifted, 44100)!;
+      const decoder = new FeskDecoder(PILOT_CONFIG);
+
+      const unlocked = decoder.decodeCompleteTransmission(
+        candidate.mappedSymbols,
+      );
+      expect(unlocked.frame?.isValid).not.toBe(true);
+
+      const relocked = extractor.relockWithPilots(
+        drifted,
+        44100,
+        candidate,
+        PILOT_CONFIG.pilotSequence,
+        PILOT_CONFIG.pilotInterval,
+        PILOT_CONFIG.preambleBits.length + PILOT_CONFIG.barker13.length,
+      );
+      expect(relocked.pilotRelocks).toBe(5);
+      expect(relocked.toneScale).toBeCloseTo(1.003, 3);
+
+      const result = decoder.decodeCompleteTransmission(relocked.mappedSymbols);
+      expect(result.frame!.isValid).toBe(true);
+      expect(new TextDecoder().decode(result.frame!.payload)).toBe(
+        LONG_MESSAGE,
+      );
+    });
+  });
+});
@@ -0,0 +1,39 @@
+import { FeskDecoder } from "../feskDecoder";
+import { FeskEncoder } from "../feskEncoder";
+import { ToneSynthesizer } from "../audio/toneSynthesizer";
+import { DEFAULT_CONFIG } from "../config";
+
+jest.setTimeout(120000);
+
+const sampleRate = 44100;
+
+describe("FeskDecoder.processAudio", () => {
+  it("should commit payload symbols at the symbol duration, not the chunk spacing", () => {
+    // Longer than the 200 ms the preamble timing estimate is clamped to
+    const config = { ...DEFAULT_CONFIG, symbolDuration: 0.25 };
+    const audio = new ToneSynthesizer(config, {
+      leadingSilence: 0.5,
+      trailingSilence: 0.5,
+    }).synthesize(new FeskEncoder(config).encodeText("hi"));
+
+    // The preamble and sync are read one symbol per chunk, the payload in
+    // 50 ms chunks
+    const decoder = new FeskDecoder(config);
+    let frame = null;
+    let timestamp = 0;
+    for (let offset = 0; offset < audio.length && !frame?.isValid; ) {
+      const chunkMs = decoder.getState().phase === "payload" ? 50 : 250;
+      const chunkSize = Math.round((sampleRate * chunkMs) / 1000);
+      frame = decoder.processAudio({
+        data: audio.slice(offset, offset + chunkSize),
+        timestamp,
+        sampleRate,
+      });
+      offset += chunkSize;
+      timestamp += chunkMs;
+    }
+
+    expect(frame?.isValid).toBe(true);
+    expect(new TextDecoder().decode(frame!.payload)).toBe("hi");
+  });
+});
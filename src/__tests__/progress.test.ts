@@ -0,0 +1,78 @@
+import { FeskDecoder, SymbolExtractorDecodeOptions } from "../feskDecoder";
+import { DecodeProgress } from "../types";
+import { audio, extractorOptions } from "./helpers/decodeFixtures";
+
+jest.setTimeout(120000);
+
+// Two durations, so the search tries each start time twice
+const options: SymbolExtractorDecodeOptions = {
+  ...extractorOptions,
+  symbolDurations: [0.098, 0.1],
+};
+
+describe("Decode progress", () => {
+  it("should report the symbol extractor search and candidates", async () => {
+    const reports: DecodeProgress[] = [];
+    const result = await new FeskDecoder().decodeAudioDataWithSymbolExtractor(
+      audio,
+      44100,
+      { ...options, onProgress: (progress) => reports.push(progress) },
+    );
+    expect(result.frame!.isValid).toBe(true);
+
+    const phases = reports.map((progress) => progress.phase);
+    expect(phases[0]).toBe("startTimes");
+    expect(phases[phases.length - 1]).toBe("candidates");
+    expect(phases.indexOf("candidates")).toBe(
+      phases.lastIndexOf("startTimes") + 1,
+    );
+
+    const search = reports.filter(
+      (progress) => progress.phase === "startTimes",
+    );
+    expect(search[search.length - 1].fraction).toBe(1);
+    for (let i = 1; i < reports.length; i++) {
+      if (reports[i].phase === reports[i - 1].phase) {
+        expect(reports[i].fraction).toBeGreaterThanOrEqual(
+          reports[i - 1].fraction,
+        );
+      }
+      expect(reports[i].candidatesTried).toBeGreaterThanOrEqual(
+        reports[i - 1].candidatesTried,
+      );
+    }
+    // Every duration at every start time, in the combined and per-set searches
+    const { candidatesTried } = search[search.length - 1];
+    expect(candidatesTried).toBeGreaterThanOrEqual(search.length * 2);
+    expect(candidatesTried % search.length).toBe(0);
+    expect(reports[reports.length - 1].bestScoreSoFar).toBeGreaterThan(0);
+  });
+
+  it("should report the frequency set loop of processAudioComplete", async () => {
+    const decoder = new FeskDecoder();
+    const reports: DecodeProgress[] = [];
+    const result = await decoder.processAudioComplete(
+      audio,
+      44100,
+      null,
+      true,
+      {
+        onProgress: (progress) => reports.push(progress),
+      },
+    );
+    expect(result.frame!.isValid).toBe(true);
+
+    expect(reports.length).toBeGreaterThan(0);
+    expect(reports[0]).toEqual({
+      phase: "frequencySets",
+      fraction: 0,
+      candidatesTried: 1,
+      bestScoreSoFar: null,
+    });
+
+    // The callback belongs to its call only
+    reports.length = 0;
+    await decoder.processAudioComplete(audio, 44100);
+    expect(reports).toHaveLength(0);
+  });
+});
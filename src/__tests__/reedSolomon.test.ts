@@ -0,0 +1,146 @@
+import { ReedSolomon } from "../utils/reedSolomon";
+import { FeskEncoder } from "../feskEncoder";
+import { FeskDecoder } from "../feskDecoder";
+import { DEFAULT_CONFIG } from "../config";
+
+const LONG_MESSAGE =
+  "a pretty long yes long long long text oh so long i dont know what?";
+
+const FEC_CONFIG = { ...DEFAULT_CONFIG, fecParityBytes: 16 };
+
+const corrupt = (symbols: number[], positions: number[]) => {
+  const corrupted = [...symbols];
+  for (const position of positions) {
+    corrupted[position] = (corrupted[position] + 1) % 3;
+  }
+  return corrupted;
+};
+
+describe("ReedSolomon", () => {
+  describe("codec", () => {
+    it("should correct up to half the parity length in byte errors", () => {
+      const rs = new ReedSolomon(10);
+      const data = new Uint8Array(100).map((_, i) => (i * 31 + 7) & 0xff);
+      const codeword = new Uint8Array([...data, ...rs.encode(data)]);
+
+      const received = codeword.slice();
+      for (const position of [0, 13, 50, 99, 105]) {
+        received[position] ^= 0x5a;
+      }
+
+      const result = rs.decode(received);
+      expect(result).not.toBeNull();
+      expect(result!.data).toEqual(data);
+      expect(result!.correctedBytes).toBe(5);
+    });
+
+    it("should report uncorrectable codewords", () => {
+      const rs = new ReedSolomon(4);
+      const data = new Uint8Array([1, 2, 3, 4, 5, 6, 7, 8]);
+      const received = new Uint8Array([...data, ...rs.encode(data)]);
+      received[0] ^= 1;
+      received[1] ^= 2;
+      received[2] ^= 3;
+
+      const result = rs.decode(received);
+      expect(result === null || result.data.join() !== data.join()).toBe(true);
+    });
+
+    it("should split long data into blocks of at most 255 bytes", () => {
+      const rs = new ReedSolomon(32);
+      const data = new Uint8Array(300).map((_, i) => i & 0xff);
+      const encoded = rs.encodeBlocks(data);
+
+      expect(rs.blockCount(data.length)).toBe(2);
+      expect(encoded.length).toBe(300 + 2 * 32);
+      expect(encoded.slice(0, 300)).toEqual(data);
+      expect(rs.dataLengthFor(encoded.length)).toBe(300);
+
+      encoded[10] ^= 0xff;
+      encoded[290] ^= 0xff;
+      const result = rs.decodeBlocks(encoded);
+      expect(result!.data).toEqual(data);
+      expect(result!.correctedBytes).toBe(2);
+    });
+  });
+
+  describe("frameFec", () => {
+    it("should signal the parity length in the frame header", () => {
+      const bytes = new FeskEncoder(FEC_CONFIG).buildFrameBytes(
+        new TextEncoder().encode("four56"),
+      );
+      const plain = new FeskEncoder().buildFrameBytes(
+        new TextEncoder().encode("four56"),
+      );
+
+      expect(bytes.length).toBe(plain.length + 16);
+      expect(bytes.slice(2, plain.length)).toEqual(plain.slice(2));
+      expect(bytes[0]).not.toBe(plain[0]);
+    });
+
+    it("should correct symbol errors that break the CRC without FEC", () => {
+      const decoder = new FeskDecoder();
+      const payloadStart = 25;
+
+      const plain = new FeskEncoder().encodeText(LONG_MESSAGE);
+      const broken = decoder.decodeCompleteTransmission(
+        corrupt(plain, [payloadStart + 40, payloadStart + 200]),
+      );
+      expect(broken.frame?.isValid).not.toBe(true);
+
+      const protectedSymbols = new FeskEncoder(FEC_CONFIG).encodeText(
+        LONG_MESSAGE,
+      );
+      // A corrupted header hides the parity length, so the RX falls back on its config
+      const result = new FeskDecoder(FEC_CONFIG).decodeCompleteTransmission(
+        corrupt(protectedSymbols, [
+          payloadStart + 1,
+          payloadStart + 40,
+          payloadStart + 200,
+          protectedSymbols.length - 3,
+        ]),
+      );
+
+      expect(result.frame!.isValid).toBe(true);
+      expect(new TextDecoder().decode(result.frame!.payload)).toBe(
+        LONG_MESSAGE,
+      );
+      expect(result.frame!.fec!.parityBytes).toBe(16);
+      expect(result.frame!.fec!.correctedBytes).toBeGreaterThan(0);
+    });
+
+    it("should decode clean FEC frames and leave legacy frames untouched", () => {
+      const decoder = new FeskDecoder(FEC_CONFIG);
+
+      const clean = decoder.decodeCompleteTransmission(
+        new FeskEncoder(FEC_CONFIG).encodeText("three45"),
+      );
+      expect(clean.frame!.isValid).toBe(true);
+      expect(clean.frame!.fec).toEqual({ parityBytes: 16, correctedBytes: 0 });
+
+      const legacy = decoder.decodeCompleteTransmission(
+        new FeskEncoder().encodeText("three45"),
+      );
+      expect(legacy.frame!.isValid).toBe(true);
+      expect(legacy.frame!.fec).toBeUndefined();
+    });
+
+    it("should combine FEC with pilots", () => {
+      const config = { ...FEC_CONFIG, pilotsEnabled: true };
+      const symbols = new FeskEncoder(config).encodeText(LONG_MESSAGE);
+      const result = new FeskDecoder().decodeCompleteTransmission(
+        corrupt(symbols, [100]),
+      );
+
+      expect(result.frame!.isValid).toBe(true);
+      expect(result.frame!.fec!.correctedBytes).toBeGreaterThan(0);
+      expect(result.frame!.pilots!.pilotCount).toBeGreaterThan(0);
+    });
+
+    it("should reject invalid parity lengths", () => {
+      expect(
+        () => new FeskEncoder({ ...DEFAULT_CONFIG, fecParityBytes: 65 }),
+      ).toThrow("Invalid FEC parity length: 65 (max 64)");
+    });
+  });
+});
@@ -0,0 +1,69 @@
+import { SymbolTimingLoop } from "../audio/symbolTiming";
+import { FeskDecoder } from "../feskDecoder";
+import { FeskEncoder } from "../feskEncoder";
+import { ChannelSimulator } from "../audio/channelSimulator";
+import { extractorOptions, render } from "./helpers/decodeFixtures";
+
+jest.setTimeout(120000);
+
+const sampleRate = 44100;
+
+// 1000 Hz up to the boundary, 2000 Hz after it
+const transition = (boundary: number, samples: number) =>
+  Float32Array.from({ length: samples }, (_, i) =>
+    Math.sin((2 * Math.PI * (i < boundary ? 1000 : 2000) * i) / sampleRate),
+  );
+
+describe("SymbolTimingLoop", () => {
+  it("should measure how far a tone transition is from its prediction", () => {
+    const audio = transition(2000, 4000);
+    const error = (predicted: number) =>
+      SymbolTimingLoop.transitionError(
+        audio,
+        sampleRate,
+        predicted,
+        882,
+        1000,
+        2000,
+      )!;
+
+    expect(Math.abs(error(2000))).toBeLessThan(20);
+    expect(error(1900)).toBeGreaterThan(60);
+    expect(error(2100)).toBeLessThan(-60);
+    expect(
+      SymbolTimingLoop.transitionError(audio, sampleRate, 100, 882, 1000, 2000),
+    ).toBeNull();
+  });
+
+  it("should settle on the period of a slower clock", () => {
+    const actualPeriod = 4455; // 1% slower than nominal
+    const loop = new SymbolTimingLoop(0, 4410);
+
+    for (let i = 0; i < 100; i++) {
+      loop.update(i * actualPeriod - loop.getSymbolStart());
+      loop.advance();
+    }
+
+    expect(loop.getPeriod()).toBeCloseTo(actualPeriod, 0);
+    expect(loop.getClockRatio()).toBeCloseTo(4410 / actualPeriod, 4);
+  });
+
+  it("should decode a long frame through a clock mismatch", async () => {
+    // Long enough for a 1% mismatch to slip the grid by several symbols
+    const text = "thirty two characters of payload";
+    const audio = new ChannelSimulator({ clockRatio: 1.01 }).process(
+      render(new FeskEncoder().encodeText(text)),
+      sampleRate,
+    );
+
+    // Only the nominal duration; the loop has to find the actual one
+    const result = await new FeskDecoder().decodeAudioDataWithSymbolExtractor(
+      audio,
+      sampleRate,
+      { ...extractorOptions, symbolsToExtract: 300 },
+    );
+
+    expect(new TextDecoder().decode(result.frame!.payload)).toBe(text);
+    expect(result.clockRatio).toBeCloseTo(1.01, 3);
+  });
+});
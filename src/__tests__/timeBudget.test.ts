@@ -0,0 +1,76 @@
+import { FeskDecoder } from "../feskDecoder";
+import { SymbolExtractor } from "../audio/symbolExtractor";
+import { audio, extractorOptions } from "./helpers/decodeFixtures";
+
+jest.setTimeout(120000);
+
+describe("Time budget", () => {
+  it("should return a partial result once the budget is spent", async () => {
+    const decoder = new FeskDecoder();
+
+    let started = Date.now();
+    const extracted = await decoder.decodeAudioDataWithSymbolExtractor(
+      audio,
+      44100,
+      { ...extractorOptions, timeBudgetMs: 0 },
+    );
+    expect(Date.now() - started).toBeLessThan(1000);
+    expect(extracted.partial).toBe(true);
+    expect(extracted.frame).toBeNull();
+
+    started = Date.now();
+    const complete = await decoder.processAudioComplete(
+      audio,
+      44100,
+      null,
+      true,
+      { deadline: Date.now() - 1 },
+    );
+    expect(Date.now() - started).toBeLessThan(1000);
+    expect(complete.partial).toBe(true);
+  });
+
+  it("should decode normally within a generous budget", async () => {
+    const decoder = new FeskDecoder();
+
+    const extracted = await decoder.decodeAudioDataWithSymbolExtractor(
+      audio,
+      44100,
+      { ...extractorOptions, timeBudgetMs: 60000 },
+    );
+    expect(extracted.frame!.isValid).toBe(true);
+    expect(extracted.partial).toBe(false);
+
+    // A later run without a budget is not affected by the earlier deadline
+    const complete = await decoder.processAudioComplete(audio, 44100);
+    expect(complete.frame!.isValid).toBe(true);
+    expect(complete.partial).toBe(false);
+  });
+
+  it("should find the same candidate whichever start time goes first", () => {
+    const search = (startTimeHint?: number) =>
+      new SymbolExtractor({
+        frequencySets: extractorOptions.frequencySets!,
+        symbolDurations: [0.098, 0.1, 0.102],
+        startTimeRange: { start: 0, end: 1.2, step: 0.02 },
+        startTimeHint,
+      }).findBestCandidate(audio, 44100);
+
+    const unordered = search();
+    expect(unordered!.startTime).toBeCloseTo(0.5, 1);
+    for (const hint of [0, 0.5, 1.2]) {
+      const ordered = search(hint)!;
+      expect(ordered.startTime).toBe(unordered!.startTime);
+      expect(ordered.symbolDuration).toBe(unordered!.symbolDuration);
+    }
+
+    const cutShort = new SymbolExtractor({
+      frequencySets: extractorOptions.frequencySets!,
+      symbolDurations: [0.1],
+      startTimeRange: { start: 0, end: 1.2, step: 0.02 },
+      deadline: Date.now() - 1,
+    });
+    expect(cutShort.findBestCandidate(audio, 44100)).toBeNull();
+    expect(cutShort.isSearchComplete()).toBe(false);
+  });
+});
@@ -0,0 +1,95 @@
+import { ToneLikelihood, ToneLikelihoods } from "../utils/toneLikelihood";
+import { ToneDetector } from "../toneDetector";
+import { SymbolExtractor } from "../audio/symbolExtractor";
+import { ToneSynthesizer } from "../audio/toneSynthesizer";
+import { ChannelSimulator } from "../audio/channelSimulator";
+import { FeskEncoder } from "../feskEncoder";
+import { DEFAULT_CONFIG } from "../config";
+
+const logSumExp = (values: ToneLikelihoods) =>
+  Math.log(values.reduce((sum, value) => sum + Math.exp(value), 0));
+
+describe("ToneLikelihood", () => {
+  describe("normalization", () => {
+    it("should produce normalized log-likelihoods favouring the strongest tone", () => {
+      const likelihoods = ToneLikelihood.fromStrengths([0.02, 0.5, 0.03]);
+
+      expect(logSumExp(likelihoods)).toBeCloseTo(0, 9);
+      expect(ToneLikelihood.mostLikely(likelihoods)).toBe(1);
+      expect(likelihoods[1]).toBeGreaterThan(-0.01);
+      expect(Math.min(...likelihoods)).toBeGreaterThanOrEqual(
+        ToneLikelihood.MIN_LOG_LIKELIHOOD - 1e-6,
+      );
+    });
+
+    it("should stay uncertain when tones are comparable", () => {
+      const likelihoods = ToneLikelihood.fromStrengths([0.2, 0.22, 0.21]);
+      const probabilities = ToneLikelihood.probabilities(likelihoods);
+
+      expect(Math.max(...probabilities)).toBeLessThan(0.6);
+      expect(ToneLikelihood.fromStrengths([0, 0, 0])).toEqual(
+        ToneLikelihood.uniform(),
+      );
+    });
+
+    it("should derive likelihoods from hard decisions and permute them", () => {
+      const hard = ToneLikelihood.fromHardDecision(2, 0.8);
+      expect(ToneLikelihood.probabilities(hard)[2]).toBeCloseTo(0.8);
+      expect(logSumExp(hard)).toBeCloseTo(0, 9);
+
+      const permuted = ToneLikelihood.permute(hard, [1, 2, 0]);
+      expect(ToneLikelihood.mostLikely(permuted)).toBe(0);
+      expect(permuted[1]).toBe(hard[0]);
+    });
+  });
+
+  describe("detectors", () => {
+    const symbols = new FeskEncoder().encodeText("test");
+    const audio = new ToneSynthesizer(DEFAULT_CONFIG, {
+      leadingSilence: 0.3,
+      trailingSilence: 0.3,
+    }).synthesize(symbols);
+    const noisy = new ChannelSimulator({ seed: 9, snrDb: 0 }).process(
+      audio,
+      44100,
+    );
+
+    it("should emit soft symbols from ToneDetector on the hard symbol grid", () => {
+      const detector = new ToneDetector(DEFAULT_CONFIG);
+      const sample = { data: noisy, sampleRate: 44100, timestamp: 0 };
+
+      const detections = detector.extractSymbolDetections(sample, 0.3);
+      const hard = detector.extractSymbols(sample, 0.3);
+
+      expect(detections.map((d) => d.symbol)).toEqual(hard);
+      for (const detection of detections) {
+        expect(logSumExp(detection.likelihoods)).toBeCloseTo(0, 6);
+      }
+      expect(hard.slice(0, symbols.length)).toEqual(symbols);
+    });
+
+    it("should attach mapped likelihoods to symbol extraction candidates", () => {
+      const extractor = new SymbolExtractor({
+        frequencySets: [
+          { name: "default", tones: [...DEFAULT_CONFIG.toneFrequencies] },
+        ],
+        symbolDurations: [DEFAULT_CONFIG.symbolDuration],
+        startTimeRange: { start: 0.2, end: 0.4, step: 0.01 },
+        symbolsToExtract: symbols.length,
+      });
+      const candidate = extractor.findBestCandidate(noisy, 44100)!;
+
+      expect(candidate.likelihoods).toHaveLength(
+        candidate.mappedSymbols.length,
+      );
+      candidate.likelihoods.forEach((likelihood, i) => {
+        expect(ToneLikelihood.mostLikely(likelihood)).toBe(
+          candidate.mappedSymbols[i],
+        );
+      });
+
+      const refined = extractor.refineCandidate(noisy, 44100, candidate);
+      expect(refined.likelihoods).toHaveLength(refined.mappedSymbols.length);
+    });
+  });
+});
@@ -0,0 +1,128 @@
+import { ToneSynthesizer } from "../audio/toneSynthesizer";
+import { FeskEncoder } from "../feskEncoder";
+import { FeskDecoder } from "../feskDecoder";
+import { Goertzel } from "../utils/goertzel";
+import { DEFAULT_CONFIG } from "../config";
+
+jest.setTimeout(120000);
+
+describe("ToneSynthesizer", () => {
+  describe("rendering", () => {
+    it("should pad silence and size the output from the symbol duration", () => {
+      const synthesizer = new ToneSynthesizer(DEFAULT_CONFIG, {
+        sampleRate: 8000,
+        leadingSilence: 0.25,
+        trailingSilence: 0.5,
+      });
+      const data = synthesizer.synthesize([0, 1, 2]);
+
+      expect(data.length).toBe(2000 + 3 * 800 + 4000);
+      expect(data.slice(0, 2000).every((value) => value === 0)).toBe(true);
+      expect(data.slice(4400).every((value) => value === 0)).toBe(true);
+    });
+
+    it("should place the configured tone in each symbol slot", () => {
+      const sampleRate = 44100;
+      const synthesizer = new ToneSynthesizer(DEFAULT_CONFIG, { sampleRate });
+      const symbols = [2, 0, 1, 1, 0, 2];
+      const data = synthesizer.synthesize(symbols);
+      const symbolSamples = DEFAULT_CONFIG.symbolDuration * sampleRate;
+
+      symbols.forEach((symbol, index) => {
+        const segment = data.slice(
+          index * symbolSamples + 500,
+          (index + 1) * symbolSamples - 500,
+        );
+        const { toneIndex } = Goertzel.detectStrongestToneParametric(
+          segment,
+          DEFAULT_CONFIG.toneFrequencies,
+          sampleRate,
+        );
+        expect(toneIndex).toBe(symbol);
+      });
+    });
+
+    it("should ramp burst edges and respect the amplitude", () => {
+      const synthesizer = new ToneSynthesizer(DEFAULT_CONFIG, {
+        amplitude: 0.5,
+        rampDuration: 0.01,
+      });
+      const data = synthesizer.synthesize([0, 2, 0, 2]);
+
+      expect(Math.abs(data[0])).toBeLessThan(0.01);
+      expect(Math.abs(data[data.length - 1])).toBeLessThan(0.01);
+      expect(Math.max(...data.map(Math.abs))).toBeLessThanOrEqual(0.5);
+    });
+
+    it("should keep phase continuous across symbol switches", () => {
+      const sampleRate = 44100;
+      const synthesizer = new ToneSynthesizer(DEFAULT_CONFIG, {
+        sampleRate,
+        amplitude: 1,
+      });
+      const data = synthesizer.synthesize([0, 2, 1, 0]);
+      const maxStep =
+        (2 * Math.PI * Math.max(...DEFAULT_CONFIG.toneFrequencies)) /
+        sampleRate;
+
+      let largestStep = 0;
+      for (let i = 1; i < data.length; i++) {
+        largestStep = Math.max(largestStep, Math.abs(data[i] - data[i - 1]));
+      }
+      expect(largestStep).toBeLessThanOrEqual(maxStep + 1e-6);
+    });
+
+    it("should reject symbols outside the tone set", () => {
+      const synthesizer = new ToneSynthesizer();
+      expect(() => synthesizer.synthesize([0, 3])).toThrow(
+        "Invalid symbol value: 3",
+      );
+    });
+  });
+
+  describe("decoderRoundTrip", () => {
+    it("should decode synthesized audio with processAudioComplete", async () => {
+      const symbols = new FeskEncoder().encodeText("three45");
+      const synthesizer = new ToneSynthesizer(DEFAULT_CONFIG, {
+        leadingSilence: 0.5,
+        trailingSilence: 0.5,
+      });
+      const audio = synthesizer.synthesizeSample(symbols);
+
+      const { frame } = await new FeskDecoder().processAudioComplete(
+        audio.data,
+        audio.sampleRate,
+        100,
+      );
+
+      expect(frame).not.toBeNull();
+      expect(frame!.isValid).toBe(true);
+      expect(new TextDecoder().decode(frame!.payload)).toBe("three45");
+    });
+
+    it("should decode synthesized audio with the symbol extractor", async () => {
+      const symbols = new FeskEncoder().encodeText("test");
+      const synthesizer = new ToneSynthesizer(DEFAULT_CONFIG, {
+        leadingSilence: 0.3,
+        trailingSilence: 0.3,
+      });
+      const audio = synthesizer.synthesizeSample(symbols);
+
+      const { frame } =
+        await new FeskDecoder().decodeAudioDataWithSymbolExtractor(
+          audio.data,
+          audio.sampleRate,
+          {
+            frequencySets: [
+              { name: "default", tones: [...DEFAULT_CONFIG.toneFrequencies] },
+            ],
+            startTimeRange: { start: 0, end: 1, step: 0.02 },
+          },
+        );
+
+      expect(frame).not.toBeNull();
+      expect(frame!.isValid).toBe(true);
+      expect(new TextDecoder().decode(frame!.payload)).toBe("test");
+    });
+  });
+});
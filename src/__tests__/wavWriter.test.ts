@@ -0,0 +1,134 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { WavWriter } from "../utils/wavWriter";
+import { WavReader } from "../utils/wavReader";
+
+describe("WavWriter", () => {
+  let tempDir: string;
+
+  beforeAll(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "fesk-wav-"));
+  });
+
+  afterAll(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  const ramp = (length: number) => {
+    const data = new Float32Array(length);
+    for (let i = 0; i < length; i++) {
+      data[i] = Math.sin(i / 7) * 0.75;
+    }
+    return data;
+  };
+
+  describe("roundTrip", () => {
+    const cases: Array<["pcm16" | "pcm24" | "float32", number]> = [
+      ["pcm16", 1 / 32767],
+      ["pcm24", 1 / 8388607],
+      ["float32", 1e-7],
+    ];
+
+    it.each(cases)(
+      "should write %s data readable by WavReader",
+      async (format, tolerance) => {
+        const data = ramp(1000);
+        const filePath = path.join(tempDir, `${format}.wav`);
+        await WavWriter.writeWavFile(filePath, data, {
+          format,
+          sampleRate: 22050,
+        });
+
+        const audio = await WavReader.readWavFile(filePath, {
+          normalize: false,
+        });
+        expect(audio.sampleRate).toBe(22050);
+        expect(audio.data.length).toBe(data.length);
+        for (let i = 0; i < data.length; i++) {
+          expect(Math.abs(audio.data[i] - data[i])).toBeLessThanOrEqual(
+            tolerance,
+          );
+        }
+      },
+    );
+
+    it("should interleave multi-channel data", async () => {
+      const left = new Float32Array([0.5, 0.5, 0.5, 0.5]);
+      const right = new Float32Array([-0.5, 0, 0.25, 0.5]);
+      const filePath = path.join(tempDir, "stereo.wav");
+      await WavWriter.writeWavFile(filePath, [left, right], {
+        format: "float32",
+        sampleRate: 8000,
+      });
+
+      // WavReader mixes stereo down to mono
+      const audio = await WavReader.readWavFile(filePath, { normalize: false });
+      expect(Array.from(audio.data)).toEqual([0, 0.25, 0.375, 0.5]);
+    });
+
+    it("should take the sample rate from an AudioSample", async () => {
+      const filePath = path.join(tempDir, "sample.wav");
+      await WavWriter.writeWavFile(filePath, {
+        data: ramp(200),
+        sampleRate: 48000,
+        timestamp: 0,
+      });
+
+      const audio = await WavReader.readWavFile(filePath, { normalize: false });
+      expect(audio.sampleRate).toBe(48000);
+      expect(audio.data.length).toBe(200);
+    });
+  });
+
+  describe("layout", () => {
+    it("should write a LIST/INFO chunk with padded strings", () => {
+      const buffer = WavWriter.encode(new Float32Array(3), {
+        sampleRate: 8000,
+        metadata: { title: "fesk", software: "fesk-rx" },
+      });
+
+      expect(buffer.toString("ascii", 0, 4)).toBe("RIFF");
+      expect(buffer.readUInt32LE(4)).toBe(buffer.length - 8);
+
+      const listOffset = buffer.indexOf("LIST");
+      expect(listOffset).toBe(36);
+      expect(buffer.toString("ascii", listOffset + 8, listOffset + 12)).toBe(
+        "INFO",
+      );
+      expect(buffer.indexOf("INAM")).toBeGreaterThan(listOffset);
+      expect(buffer.indexOf("fesk-rx\0")).toBeGreaterThan(
+        buffer.indexOf("ISFT"),
+      );
+
+      // Odd-length data is padded to keep chunks word aligned
+      const dataOffset = buffer.indexOf("data");
+      expect(buffer.readUInt32LE(dataOffset + 4)).toBe(6);
+      expect((buffer.length - dataOffset) % 2).toBe(0);
+    });
+
+    it("should clip PCM samples to full scale", () => {
+      const buffer = WavWriter.encode(new Float32Array([2, -2]), {
+        sampleRate: 8000,
+      });
+      expect(buffer.readInt16LE(44)).toBe(32767);
+      expect(buffer.readInt16LE(46)).toBe(-32768);
+    });
+  });
+
+  describe("errorHandling", () => {
+    it("should require a sample rate for raw arrays", () => {
+      expect(() => WavWriter.encode(new Float32Array(4))).toThrow(
+        "A positive sampleRate is required to write WAV data",
+      );
+    });
+
+    it("should reject channels of different lengths", () => {
+      expect(() =>
+        WavWriter.encode([new Float32Array(4), new Float32Array(3)], {
+          sampleRate: 8000,
+        }),
+      ).toThrow("All channels must have the same length");
+    });
+  });
+});
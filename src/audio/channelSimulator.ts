@@ -0,0 +1,498 @@
+import { AudioSample } from "../types";
+
+export interface MultipathEcho {
+  delay: number; // seconds after the direct path
+  gain: number; // linear gain relative to the direct path
+}
+
+export interface ReverbOptions {
+  decayTime: number; // RT60 in seconds
+  wetLevel: number; // 0-1 mix of the reverberant tail
+}
+
+export interface BandLimitOptions {
+  lowCutHz?: number; // high-pass corner
+  highCutHz?: number; // low-pass corner (e.g. 16000 for a 128 kbps MP3)
+  order?: number; // Butterworth order, rounded up to an even number
+}
+
+export interface DropoutOptions {
+  ratePerSecond: number; // average number of dropouts per second
+  duration: number; // seconds per dropout
+  attenuation?: number; // residual gain during a dropout (default: 0)
+}
+
+export interface ChannelImpairments {
+  snrDb?: number; // AWGN relative to the active signal power
+  clockRatio?: number; // TX clock / RX clock (1.001 = TX runs 1000 ppm fast)
+  clockDriftPpmPerSecond?: number; // linear drift of the clock ratio
+  frequencyOffsetHz?: number; // shift applied to every spectral component
+  multipath?: MultipathEcho[];
+  reverb?: ReverbOptions;
+  bandLimit?: BandLimitOptions;
+  clipLevel?: number; // hard clip threshold, 0-1
+  dropouts?: DropoutOptions;
+}
+
+export interface ChannelSimulatorOptions extends ChannelImpairments {
+  seed?: number;
+}
+
+const HILBERT_HALF_LENGTH = 63;
+
+/**
+ * Applies reproducible acoustic channel impairments to PCM audio
+ *
+ * Stages run in physical order: clock mismatch, frequency offset, multipath,
+ * reverb, band-limiting, noise, clipping and finally dropouts. Every random
+ * stage draws from a PRNG seeded per call, so identical inputs and options
+ * always produce identical output.
+ */
+export class ChannelSimulator {
+  private options: ChannelSimulatorOptions;
+
+  constructor(options: ChannelSimulatorOptions = {}) {
+    this.options = options;
+  }
+
+  /**
+   * Run the configured impairments over a mono signal
+   */
+  process(data: Float32Array, sampleRate: number): Float32Array {
+    const random = ChannelSimulator.createRandom(this.options.seed ?? 1);
+    const {
+      snrDb,
+      clockRatio,
+      clockDriftPpmPerSecond,
+      frequencyOffsetHz,
+      multipath,
+      reverb,
+      bandLimit,
+      clipLevel,
+      dropouts,
+    } = this.options;
+
+    let output: Float32Array = new Float32Array(data);
+
+    if (
+      (clockRatio !== undefined && clockRatio !== 1) ||
+      clockDriftPpmPerSecond
+    ) {
+      output = ChannelSimulator.applyClockMismatch(
+        output,
+        sampleRate,
+        clockRatio ?? 1,
+        clockDriftPpmPerSecond ?? 0,
+      );
+    }
+
+    if (frequencyOffsetHz) {
+      output = ChannelSimulator.applyFrequencyOffset(
+        output,
+        sampleRate,
+        frequencyOffsetHz,
+      );
+    }
+
+    if (multipath && multipath.length > 0) {
+      output = ChannelSimulator.applyMultipath(output, sampleRate, multipath);
+    }
+
+    if (reverb && reverb.wetLevel > 0 && reverb.decayTime > 0) {
+      output = ChannelSimulator.applyReverb(output, sampleRate, reverb);
+    }
+
+    if (bandLimit) {
+      output = ChannelSimulator.applyBandLimit(output, sampleRate, bandLimit);
+    }
+
+    if (snrDb !== undefined) {
+      output = ChannelSimulator.applyNoise(output, sampleRate, snrDb, random);
+    }
+
+    if (clipLevel !== undefined) {
+      output = ChannelSimulator.applyClipping(output, clipLevel);
+    }
+
+    if (dropouts && dropouts.ratePerSecond > 0 && dropouts.duration > 0) {
+      output = ChannelSimulator.applyDropouts(
+        output,
+        sampleRate,
+        dropouts,
+        random,
+      );
+    }
+
+    return output;
+  }
+
+  /**
+   * Run the configured impairments over an AudioSample
+   */
+  processSample(audioSample: AudioSample): AudioSample {
+    return {
+      data: this.process(audioSample.data, audioSample.sampleRate),
+      sampleRate: audioSample.sampleRate,
+      timestamp: audioSample.timestamp,
+    };
+  }
+
+  /**
+   * Resample as if the transmitter clock ran at clockRatio times the receiver
+   * clock: symbols shorten and tones rise by the same factor
+   */
+  static applyClockMismatch(
+    data: Float32Array,
+    sampleRate: number,
+    clockRatio: number,
+    driftPpmPerSecond: number = 0,
+  ): Float32Array {
+    if (!(clockRatio > 0)) {
+      throw new Error(`Invalid clock ratio: ${clockRatio}`);
+    }
+
+    const output: number[] = [];
+    let position = 0;
+    let n = 0;
+
+    while (position < data.length - 1) {
+      const index = Math.floor(position);
+      const fraction = position - index;
+      output.push(data[index] * (1 - fraction) + data[index + 1] * fraction);
+
+      const elapsed = n / sampleRate;
+      const step = clockRatio * (1 + driftPpmPerSecond * 1e-6 * elapsed);
+      if (!(step > 0)) {
+        throw new Error(
+          `Invalid clock drift: ${driftPpmPerSecond} ppm/s stops the clock after ${elapsed.toFixed(3)}s`,
+        );
+      }
+      position += step;
+      n++;
+    }
+
+    return new Float32Array(output);
+  }
+
+  /**
+   * Shift every frequency component by offsetHz using a windowed FIR
+   * Hilbert transformer (single-sideband modulation)
+   */
+  static applyFrequencyOffset(
+    data: Float32Array,
+    sampleRate: number,
+    offsetHz: number,
+  ): Float32Array {
+    const M = HILBERT_HALF_LENGTH;
+    const taps = new Float32Array(2 * M + 1);
+    for (let k = -M; k <= M; k++) {
+      if (k % 2 === 0) continue;
+      // Blackman window
+      const w =
+        0.42 +
+        0.5 * Math.cos((Math.PI * k) / (M + 1)) +
+        0.08 * Math.cos((2 * Math.PI * k) / (M + 1));
+      taps[k + M] = (2 / (Math.PI * k)) * w;
+    }
+
+    const output = new Float32Array(data.length);
+    const omega = (2 * Math.PI * offsetHz) / sampleRate;
+
+    for (let n = 0; n < data.length; n++) {
+      let quadrature = 0;
+      // Even taps are zero; M is odd so k walks the odd taps only
+      for (let k = -M; k <= M; k += 2) {
+        const index = n - k;
+        if (index < 0 || index >= data.length) continue;
+        quadrature += taps[k + M] * data[index];
+      }
+
+      output[n] =
+        data[n] * Math.cos(omega * n) - quadrature * Math.sin(omega * n);
+    }
+
+    return output;
+  }
+
+  static applyMultipath(
+    data: Float32Array,
+    sampleRate: number,
+    echoes: MultipathEcho[],
+  ): Float32Array {
+    const output = new Float32Array(data);
+
+    for (const echo of echoes) {
+      const delaySamples = Math.round(echo.delay * sampleRate);
+      if (delaySamples <= 0) continue;
+
+      for (let i = delaySamples; i < data.length; i++) {
+        output[i] += echo.gain * data[i - delaySamples];
+      }
+    }
+
+    return output;
+  }
+
+  /**
+   * Schroeder reverberator: four parallel comb filters followed by two
+   * series all-pass filters
+   */
+  static applyReverb(
+    data: Float32Array,
+    sampleRate: number,
+    reverb: ReverbOptions,
+  ): Float32Array {
+    const combDelays = [0.0297, 0.0371, 0.0411, 0.0437];
+    const allpassDelays = [0.005, 0.0017];
+    const allpassGain = 0.7;
+
+    // Append room for the tail to decay by 60 dB
+    const tailSamples = Math.round(reverb.decayTime * sampleRate);
+    const length = data.length + tailSamples;
+    const wet = new Float32Array(length);
+
+    for (const delay of combDelays) {
+      const delaySamples = Math.max(1, Math.round(delay * sampleRate));
+      const feedback = Math.pow(10, (-3 * delay) / reverb.decayTime);
+      const buffer = new Float32Array(length);
+
+      for (let i = 0; i < length; i++) {
+        const input = i < data.length ? data[i] : 0;
+        const delayed = i >= delaySamples ? buffer[i - delaySamples] : 0;
+        buffer[i] = input + feedback * delayed;
+        wet[i] += delayed / combDelays.length;
+      }
+    }
+
+    let stage = wet;
+    for (const delay of allpassDelays) {
+      const delaySamples = Math.max(1, Math.round(delay * sampleRate));
+      const next = new Float32Array(length);
+      for (let i = 0; i < length; i++) {
+        const delayedIn = i >= delaySamples ? stage[i - delaySamples] : 0;
+        const delayedOut = i >= delaySamples ? next[i - delaySamples] : 0;
+        next[i] =
+          -allpassGain * stage[i] + delayedIn + allpassGain * delayedOut;
+      }
+      stage = next;
+    }
+
+    const output = new Float32Array(length);
+    for (let i = 0; i < length; i++) {
+      const dry = i < data.length ? data[i] : 0;
+      output[i] = (1 - reverb.wetLevel) * dry + reverb.wetLevel * stage[i];
+    }
+
+    return output;
+  }
+
+  /**
+   * Butterworth band-limiting built from cascaded biquad sections
+   */
+  static applyBandLimit(
+    data: Float32Array,
+    sampleRate: number,
+    bandLimit: BandLimitOptions,
+  ): Float32Array {
+    const order = Math.max(2, Math.ceil((bandLimit.order ?? 4) / 2) * 2);
+    const sections = order / 2;
+    let output: Float32Array = new Float32Array(data);
+    const nyquist = sampleRate / 2;
+
+    for (let k = 0; k < sections; k++) {
+      const q = 1 / (2 * Math.cos(((2 * k + 1) * Math.PI) / (2 * order)));
+
+      if (bandLimit.highCutHz !== undefined && bandLimit.highCutHz < nyquist) {
+        output = ChannelSimulator.biquad(
+          output,
+          sampleRate,
+          bandLimit.highCutHz,
+          q,
+          "lowpass",
+        );
+      }
+
+      if (bandLimit.lowCutHz !== undefined && bandLimit.lowCutHz > 0) {
+        output = ChannelSimulator.biquad(
+          output,
+          sampleRate,
+          bandLimit.lowCutHz,
+          q,
+          "highpass",
+        );
+      }
+    }
+
+    return output;
+  }
+
+  /**
+   * Add white Gaussian noise so that the active (non-silent) part of the
+   * signal sits snrDb above the noise floor
+   */
+  static applyNoise(
+    data: Float32Array,
+    sampleRate: number,
+    snrDb: number,
+    random: () => number,
+  ): Float32Array {
+    const signalPower = ChannelSimulator.measureActivePower(data, sampleRate);
+    const output = new Float32Array(data);
+    if (signalPower <= 0) {
+      return output;
+    }
+
+    const noiseStd = Math.sqrt(signalPower / Math.pow(10, snrDb / 10));
+    for (let i = 0; i < output.length; i++) {
+      output[i] += noiseStd * ChannelSimulator.gaussian(random);
+    }
+
+    return output;
+  }
+
+  static applyClipping(data: Float32Array, clipLevel: number): Float32Array {
+    const level = Math.abs(clipLevel);
+    const output = new Float32Array(data.length);
+    for (let i = 0; i < data.length; i++) {
+      output[i] = Math.max(-level, Math.min(level, data[i]));
+    }
+    return output;
+  }
+
+  /**
+   * Mute random windows (Poisson arrivals) with short fades at each edge
+   */
+  static applyDropouts(
+    data: Float32Array,
+    sampleRate: number,
+    dropouts: DropoutOptions,
+    random: () => number,
+  ): Float32Array {
+    const output = new Float32Array(data);
+    const attenuation = dropouts.attenuation ?? 0;
+    const durationSamples = Math.max(
+      1,
+      Math.round(dropouts.duration * sampleRate),
+    );
+    const fadeSamples = Math.min(
+      Math.floor(durationSamples / 4),
+      Math.round(sampleRate * 0.002),
+    );
+
+    let time = 0;
+    const duration = data.length / sampleRate;
+
+    while (true) {
+      // Exponential inter-arrival time
+      time += -Math.log(1 - random()) / dropouts.ratePerSecond;
+      if (time >= duration) break;
+
+      const start = Math.floor(time * sampleRate);
+      for (let n = 0; n < durationSamples; n++) {
+        const index = start + n;
+        if (index >= output.length) break;
+
+        let gain = attenuation;
+        if (fadeSamples > 0) {
+          const edge = Math.min(n, durationSamples - 1 - n);
+          if (edge < fadeSamples) {
+            const t = edge / fadeSamples;
+            gain = attenuation + (1 - attenuation) * (1 - t);
+          }
+        }
+        output[index] *= gain;
+      }
+
+      time += dropouts.duration;
+    }
+
+    return output;
+  }
+
+  /**
+   * Mulberry32 PRNG, returns values in [0, 1)
+   */
+  static createRandom(seed: number): () => number {
+    let state = seed >>> 0;
+    return () => {
+      state = (state + 0x6d2b79f5) >>> 0;
+      let t = state;
+      t = Math.imul(t ^ (t >>> 15), t | 1);
+      t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+  }
+
+  private static gaussian(random: () => number): number {
+    // Box-Muller transform
+    const u1 = Math.max(random(), Number.EPSILON);
+    const u2 = random();
+    return Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
+  }
+
+  private static measureActivePower(
+    data: Float32Array,
+    sampleRate: number,
+  ): number {
+    const blockSize = Math.max(1, Math.floor(sampleRate * 0.01));
+    const blockPowers: number[] = [];
+
+    for (let start = 0; start < data.length; start += blockSize) {
+      const end = Math.min(start + blockSize, data.length);
+      let sum = 0;
+      for (let i = start; i < end; i++) {
+        sum += data[i] * data[i];
+      }
+      blockPowers.push(sum / (end - start));
+    }
+
+    const maxPower = blockPowers.reduce(
+      (max, power) => Math.max(max, power),
+      0,
+    );
+    const active = blockPowers.filter((power) => power > maxPower * 0.01);
+    if (active.length === 0) {
+      return 0;
+    }
+
+    return active.reduce((sum, power) => sum + power, 0) / active.length;
+  }
+
+  private static biquad(
+    data: Float32Array,
+    sampleRate: number,
+    cutoffHz: number,
+    q: number,
+    type: "lowpass" | "highpass",
+  ): Float32Array {
+    // RBJ audio EQ cookbook coefficients
+    const w0 = (2 * Math.PI * cutoffHz) / sampleRate;
+    const cosW0 = Math.cos(w0);
+    const alpha = Math.sin(w0) / (2 * q);
+
+    const b1 = type === "lowpass" ? 1 - cosW0 : -(1 + cosW0);
+    const b0 = type === "lowpass" ? (1 - cosW0) / 2 : (1 + cosW0) / 2;
+    const b2 = b0;
+    const a0 = 1 + alpha;
+    const a1 = -2 * cosW0;
+    const a2 = 1 - alpha;
+
+    const output = new Float32Array(data.length);
+    let x1 = 0,
+      x2 = 0,
+      y1 = 0,
+      y2 = 0;
+
+    for (let i = 0; i < data.length; i++) {
+      const x0 = data[i];
+      const y0 = (b0 * x0 + b1 * x1 + b2 * x2 - a1 * y1 - a2 * y2) / a0;
+      output[i] = y0;
+      x2 = x1;
+      x1 = x0;
+      y2 = y1;
+      y1 = y0;
+    }
+
+    return output;
+  }
+}
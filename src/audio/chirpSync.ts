@@ -0,0 +1,323 @@
+import { ChirpSyncConfig } from "../config";
+
+export interface ChirpSyncOptions {
+  minScore?: number; // mean matched filter score of the three sweeps
+  maxClockDrift?: number; // largest clock ratio error searched, as a fraction
+  maxFrequencyOffset?: number; // largest frequency offset searched, in Hz
+}
+
+export interface ChirpDetection {
+  startSample: number; // first sample of the chirp, fractional
+  endSample: number; // sample after the chirp, where the sync word starts
+  clockRatio: number; // TX clock / RX clock, as ChannelImpairments.clockRatio
+  frequencyOffset: number; // Hz, shift of every tone on top of the clock ratio's scaling
+  score: number; // mean matched filter score of the three sweeps; about 1 without noise
+}
+
+const SWEEPS = 3;
+const BLOCK_SIZE = 1 << 16;
+
+/**
+ * Renders and finds the linear chirp of ChirpSyncConfig
+ *
+ * Each sweep is found with a Hann-weighted matched filter, correlated block
+ * by block through the FFT. A frequency shift moves the up-sweep peaks early
+ * and the down-sweep peak late by the same amount, while a clock mismatch
+ * stretches the spacing of the peaks; the three peak positions give the
+ * frame start, clock ratio and frequency offset in one step.
+ */
+export class ChirpSync {
+  private readonly config: ChirpSyncConfig;
+  private readonly minScore: number;
+  private readonly maxClockDrift: number;
+  private readonly maxFrequencyOffset: number;
+
+  constructor(config: ChirpSyncConfig, options: ChirpSyncOptions = {}) {
+    if (
+      !(config.startFrequency > 0) ||
+      !(config.endFrequency > 0) ||
+      config.startFrequency === config.endFrequency ||
+      !(config.sweepDuration > 0)
+    ) {
+      throw new Error(
+        `Invalid chirp: ${config.startFrequency}-${config.endFrequency} Hz over ${config.sweepDuration} s`,
+      );
+    }
+    this.config = config;
+    this.minScore = options.minScore ?? 0.3;
+    this.maxClockDrift = options.maxClockDrift ?? 0.02;
+    this.maxFrequencyOffset = options.maxFrequencyOffset ?? 100;
+  }
+
+  /**
+   * Samples the chirp takes at the transmitter
+   */
+  sampleCount(sampleRate: number): number {
+    return SWEEPS * this.sweepSamples(sampleRate);
+  }
+
+  /**
+   * Up, down and up sweep with continuous phase and raised-cosine outer edges
+   * @returns Samples at unit amplitude
+   */
+  render(sampleRate: number, rampDuration: number = 0.005): Float32Array {
+    const sweepSamples = this.sweepSamples(sampleRate);
+    const output = new Float32Array(SWEEPS * sweepSamples);
+    const ramp = Math.min(
+      Math.round(rampDuration * sampleRate),
+      Math.floor(output.length / 2),
+    );
+
+    let phase = 0;
+    for (let n = 0; n < output.length; n++) {
+      const sweep = Math.floor(n / sweepSamples);
+      const frequency = this.frequencyAt(
+        sweep,
+        (n - sweep * sweepSamples) / sweepSamples,
+      );
+      let gain = 1;
+      if (n < ramp) {
+        gain = 0.5 * (1 - Math.cos((Math.PI * (n + 0.5)) / ramp));
+      } else if (n >= output.length - ramp) {
+        gain =
+          0.5 * (1 - Math.cos((Math.PI * (output.length - n - 0.5)) / ramp));
+      }
+      output[n] = gain * Math.sin(phase);
+      phase += (2 * Math.PI * frequency) / sampleRate;
+    }
+
+    return output;
+  }
+
+  /**
+   * Strongest chirp in the audio
+   * @returns null when no up, down, up triple scores minScore
+   */
+  detect(audioData: Float32Array, sampleRate: number): ChirpDetection | null {
+    const sweepSamples = this.sweepSamples(sampleRate);
+    if (audioData.length < SWEEPS * sweepSamples) {
+      return null;
+    }
+
+    const up = this.matchedFilter(audioData, sampleRate, 0);
+    const down = this.matchedFilter(audioData, sampleRate, 1);
+
+    // Farthest a sweep peak can sit from its nominal place after the first
+    const sweepRate =
+      ((this.config.endFrequency - this.config.startFrequency) * sampleRate) /
+      sweepSamples;
+    const centre = (this.config.startFrequency + this.config.endFrequency) / 2;
+    const shift =
+      ((centre * this.maxClockDrift + this.maxFrequencyOffset) * sampleRate) /
+      Math.abs(sweepRate);
+    const slack = Math.ceil(2 * shift + 2 * sweepSamples * this.maxClockDrift);
+
+    let best: { peaks: number[]; score: number } | null = null;
+    for (let p = 1; p < up.length - 1; p++) {
+      if (up[p] < this.minScore || up[p] < up[p - 1] || up[p] < up[p + 1]) {
+        continue;
+      }
+      const second = ChirpSync.peakNear(down, p + sweepSamples, slack);
+      const third = ChirpSync.peakNear(up, p + 2 * sweepSamples, slack);
+      if (second < 0 || third < 0) continue;
+
+      const score = (up[p] + down[second] + up[third]) / SWEEPS;
+      if (score >= this.minScore && (!best || score > best.score)) {
+        best = { peaks: [p, second, third], score };
+      }
+    }
+    if (!best) {
+      return null;
+    }
+
+    const [first, second, third] = [
+      ChirpSync.interpolate(up, best.peaks[0]),
+      ChirpSync.interpolate(down, best.peaks[1]),
+      ChirpSync.interpolate(up, best.peaks[2]),
+    ];
+    const clockRatio = (2 * sweepSamples) / (third - first);
+    // Half the down-sweep's displacement from midway between the up-sweeps
+    const displacement = (second - (first + third) / 2) / 2;
+    const receivedSweep = sweepSamples / clockRatio;
+    const startSample =
+      first + displacement + (sweepSamples - receivedSweep) / 2;
+    const totalOffset =
+      (displacement * sweepRate * clockRatio * clockRatio) / sampleRate;
+
+    return {
+      startSample,
+      endSample: startSample + SWEEPS * receivedSweep,
+      clockRatio,
+      frequencyOffset: totalOffset - centre * (clockRatio - 1),
+      score: best.score,
+    };
+  }
+
+  private sweepSamples(sampleRate: number): number {
+    return Math.round(this.config.sweepDuration * sampleRate);
+  }
+
+  // Instantaneous frequency at a fraction of the way through a sweep
+  private frequencyAt(sweep: number, fraction: number): number {
+    const { startFrequency, endFrequency } = this.config;
+    const [from, to] =
+      sweep % 2 === 0
+        ? [startFrequency, endFrequency]
+        : [endFrequency, startFrequency];
+    return from + (to - from) * fraction;
+  }
+
+  /**
+   * Normalized matched filter output for one sweep at every lag
+   * A perfect copy of the sweep at any amplitude scores 1.
+   */
+  private matchedFilter(
+    audioData: Float32Array,
+    sampleRate: number,
+    sweep: number,
+  ): Float32Array {
+    const sweepSamples = this.sweepSamples(sampleRate);
+    const size = Math.max(
+      BLOCK_SIZE,
+      1 << Math.ceil(Math.log2(2 * sweepSamples)),
+    );
+
+    // Hann-weighted analytic sweep
+    const templateRe = new Float64Array(size);
+    const templateIm = new Float64Array(size);
+    let weightSum = 0;
+    let phase = 0;
+    for (let n = 0; n < sweepSamples; n++) {
+      const weight =
+        0.5 - 0.5 * Math.cos((2 * Math.PI * (n + 0.5)) / sweepSamples);
+      templateRe[n] = weight * Math.cos(phase);
+      templateIm[n] = weight * Math.sin(phase);
+      weightSum += weight;
+      phase +=
+        (2 * Math.PI * this.frequencyAt(sweep, n / sweepSamples)) / sampleRate;
+    }
+    fft(templateRe, templateIm, false);
+    // A sweep of amplitude A correlates to A * weightSum / 2 against a
+    // window energy of A^2 * sweepSamples / 2
+    const scale = Math.sqrt(2 * sweepSamples) / weightSum;
+
+    const energy = new Float64Array(audioData.length + 1);
+    for (let i = 0; i < audioData.length; i++) {
+      energy[i + 1] = energy[i] + audioData[i] * audioData[i];
+    }
+
+    const lags = audioData.length - sweepSamples + 1;
+    const output = new Float32Array(lags);
+    const valid = size - sweepSamples + 1;
+    const re = new Float64Array(size);
+    const im = new Float64Array(size);
+
+    for (let blockStart = 0; blockStart < lags; blockStart += valid) {
+      re.fill(0);
+      im.fill(0);
+      re.set(
+        audioData.subarray(
+          blockStart,
+          Math.min(audioData.length, blockStart + size),
+        ),
+      );
+      fft(re, im, false);
+      // X * conj(T) is the spectrum of the correlation
+      for (let k = 0; k < size; k++) {
+        const productRe = re[k] * templateRe[k] + im[k] * templateIm[k];
+        im[k] = im[k] * templateRe[k] - re[k] * templateIm[k];
+        re[k] = productRe;
+      }
+      fft(re, im, true);
+
+      for (let j = 0; j < valid && blockStart + j < lags; j++) {
+        const lag = blockStart + j;
+        const windowEnergy = energy[lag + sweepSamples] - energy[lag];
+        if (windowEnergy <= 1e-8 * sweepSamples) continue;
+        output[lag] =
+          (Math.hypot(re[j], im[j]) * scale) / Math.sqrt(windowEnergy);
+      }
+    }
+
+    return output;
+  }
+
+  // Strongest local maximum within ±slack of a lag, or -1
+  private static peakNear(
+    scores: Float32Array,
+    lag: number,
+    slack: number,
+  ): number {
+    let best = -1;
+    const from = Math.max(1, Math.floor(lag - slack));
+    const to = Math.min(scores.length - 2, Math.ceil(lag + slack));
+    for (let i = from; i <= to; i++) {
+      if (
+        scores[i] >= scores[i - 1] &&
+        scores[i] >= scores[i + 1] &&
+        (best < 0 || scores[i] > scores[best])
+      ) {
+        best = i;
+      }
+    }
+    return best;
+  }
+
+  // Parabolic interpolation of a peak to a fractional lag
+  private static interpolate(scores: Float32Array, peak: number): number {
+    const left = scores[peak - 1];
+    const centre = scores[peak];
+    const right = scores[peak + 1];
+    const denominator = left - 2 * centre + right;
+    if (!(denominator < 0)) {
+      return peak;
+    }
+    return peak + (0.5 * (left - right)) / denominator;
+  }
+}
+
+// In-place iterative radix-2 FFT; the length must be a power of two
+function fft(re: Float64Array, im: Float64Array, inverse: boolean): void {
+  const n = re.length;
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) {
+      j ^= bit;
+    }
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+
+  for (let length = 2; length <= n; length <<= 1) {
+    const angle = ((inverse ? 2 : -2) * Math.PI) / length;
+    const stepRe = Math.cos(angle);
+    const stepIm = Math.sin(angle);
+    for (let start = 0; start < n; start += length) {
+      let wRe = 1;
+      let wIm = 0;
+      for (let k = 0; k < length / 2; k++) {
+        const a = start + k;
+        const b = a + length / 2;
+        const tRe = re[b] * wRe - im[b] * wIm;
+        const tIm = re[b] * wIm + im[b] * wRe;
+        re[b] = re[a] - tRe;
+        im[b] = im[a] - tIm;
+        re[a] += tRe;
+        im[a] += tIm;
+        const nextRe = wRe * stepRe - wIm * stepIm;
+        wIm = wRe * stepIm + wIm * stepRe;
+        wRe = nextRe;
+      }
+    }
+  }
+
+  if (inverse) {
+    for (let i = 0; i < n; i++) {
+      re[i] /= n;
+      im[i] /= n;
+    }
+  }
+}
@@ -1,9 +1,16 @@
 import { Goertzel } from "../utils/goertzel";
 import { DEFAULT_CONFIG } from "../config";
+import { ToneLikelihood, ToneLikelihoods } from "../utils/toneLikelihood";
+import {
+  FrequencyEstimator,
+  FrequencyTracker,
+  ToneMeasurement,
+} from "../utils/frequencyEstimator";
+import { SymbolTimingLoop } from "./symbolTiming";
 
 export interface ToneFrequencySet {
   name: string;
-  tones: [number, number, number];
+  tones: number[]; // f0..f(M-1)
 }
 
 export interface StartTimeRange {
@@ -19,6 +26,17 @@ export interface SymbolExtractorOptions {
   symbolsToExtract?: number;
   windowFraction?: number;
   minConfidence?: number;
+  startTimeHint?: number; // seconds; start times nearest this are searched first
+  deadline?: number; // Date.now() time after which the search stops early
+  onProgress?: (progress: CandidateSearchProgress) => void; // after each start time
+  preambleBits?: number[]; // defaults to DEFAULT_CONFIG.preambleBits
+  barker13?: number[]; // sync word, defaults to DEFAULT_CONFIG.barker13
+}
+
+export interface CandidateSearchProgress {
+  fraction: number; // of the start times searched
+  candidatesTried: number; // grid points of sets, durations and start times
+  bestScore: number | null;
 }
 
 export interface SymbolExtractionCandidate {
@@ -27,32 +45,70 @@ export interface SymbolExtractionCandidate {
   startTime: number;
   rawSymbols: number[];
   mappedSymbols: number[];
-  mapping: [number, number, number];
+  mapping: number[]; // mapping[tone] = symbol
   confidences: number[];
+  likelihoods: ToneLikelihoods[]; // normalized log-likelihoods per mapped symbol
   score: number;
   preambleMatches: number;
   syncMatches: number;
+  pilotRelocks?: number; // pilots used to re-lock timing and tones
+  toneScale?: number; // tone frequency scale estimated from the pilots or by AFC
+  clockRatio?: number; // searched over tracked symbol duration, from timing recovery
 }
 
-const PERMUTATIONS: [number, number, number][] = [
-  [0, 1, 2],
-  [0, 2, 1],
-  [1, 0, 2],
-  [1, 2, 0],
-  [2, 0, 1],
-  [2, 1, 0],
-];
-
-const PREAMBLE = DEFAULT_CONFIG.preambleBits.map((bit) => (bit === 1 ? 2 : 0));
-const SYNC = [...DEFAULT_CONFIG.barker13].map((bit) => (bit === 1 ? 2 : 0));
+const MAPPINGS = new Map<number, number[][]>();
+
+/**
+ * Tone-to-symbol mappings the search tries: each rotation of the tone order
+ * and each reversal (aliasing mirrors the tones), 2M in all and sorted so ties
+ * go to the identity. For the HT3 triad these are all six permutations.
+ */
+function toneMappings(toneCount: number): number[][] {
+  let mappings = MAPPINGS.get(toneCount);
+  if (!mappings) {
+    const unique = new Map<string, number[]>();
+    for (let shift = 0; shift < toneCount; shift++) {
+      for (const direction of [1, -1]) {
+        const mapping = Array.from(
+          { length: toneCount },
+          (_, tone) =>
+            (((shift + direction * tone) % toneCount) + toneCount) % toneCount,
+        );
+        unique.set(mapping.join(","), mapping);
+      }
+    }
+    mappings = [...unique.values()].sort((a, b) => {
+      const index = a.findIndex((symbol, i) => symbol !== b[i]);
+      return index < 0 ? 0 : a[index] - b[index];
+    });
+    MAPPINGS.set(toneCount, mappings);
+  }
+  return mappings;
+}
 
 export class SymbolExtractor {
   private options: SymbolExtractorOptions;
+  private searchComplete = true;
+  private readonly preambleSymbols: number[]; // preamble bits as raw symbols
+  private readonly syncSymbols: number[];
 
   constructor(options: SymbolExtractorOptions) {
     this.options = options;
+    this.preambleSymbols = (
+      options.preambleBits ?? DEFAULT_CONFIG.preambleBits
+    ).map((bit) => (bit === 1 ? 2 : 0));
+    this.syncSymbols = (options.barker13 ?? DEFAULT_CONFIG.barker13).map(
+      (bit) => (bit === 1 ? 2 : 0),
+    );
   }
 
+  /**
+   * Search frequency sets, symbol durations and start times for the grid
+   * that best matches the preamble and sync
+   * Start times nearest startTimeHint go first, so a search cut short by the
+   * deadline has covered the most promising ones; a complete search returns
+   * the same candidate in any order.
+   */
   findBestCandidate(
     audioData: Float32Array,
     sampleRate: number,
@@ -60,16 +116,51 @@ export class SymbolExtractor {
     const symbolsToExtract = this.options.symbolsToExtract || 90;
     const windowFraction = this.options.windowFraction || 0.6;
     const minConfidence = this.options.minConfidence || 0.15;
+    const {
+      frequencySets,
+      symbolDurations,
+      startTimeHint,
+      deadline,
+      onProgress,
+    } = this.options;
     const startTimes = this.generateStartTimes();
 
+    const startOrder = startTimes.map((_, index) => index);
+    if (startTimeHint !== undefined) {
+      startOrder.sort(
+        (a, b) =>
+          Math.abs(startTimes[a] - startTimeHint) -
+            Math.abs(startTimes[b] - startTimeHint) || a - b,
+      );
+    }
+
     let bestCandidate: SymbolExtractionCandidate | null = null;
+    // Position in set, duration, start time order breaks score ties
+    let bestRank = Infinity;
+    let candidatesTried = 0;
+    let startTimesSearched = 0;
+    this.searchComplete = true;
+
+    for (const startIndex of startOrder) {
+      if (deadline !== undefined && Date.now() >= deadline) {
+        this.searchComplete = false;
+        break;
+      }
+      const startTime = startTimes[startIndex];
 
-    for (const frequencySet of this.options.frequencySets) {
-      for (const symbolDuration of this.options.symbolDurations) {
-        const symbolSamples = Math.floor(symbolDuration * sampleRate);
-        if (symbolSamples <= 0) continue;
+      for (let setIndex = 0; setIndex < frequencySets.length; setIndex++) {
+        const frequencySet = frequencySets[setIndex];
 
-        for (const startTime of startTimes) {
+        for (
+          let durationIndex = 0;
+          durationIndex < symbolDurations.length;
+          durationIndex++
+        ) {
+          const symbolDuration = symbolDurations[durationIndex];
+          const symbolSamples = Math.floor(symbolDuration * sampleRate);
+          if (symbolSamples <= 0) continue;
+
+          candidatesTried++;
           const detection = this.detectSymbols(
             audioData,
             sampleRate,
@@ -85,6 +176,7 @@ export class SymbolExtractor {
           const candidate = this.evaluateCandidate(
             detection.rawSymbols,
             detection.confidences,
+            detection.likelihoods,
             frequencySet,
             symbolDuration,
             startTime,
@@ -93,16 +185,40 @@ export class SymbolExtractor {
 
           if (!candidate) continue;
 
-          if (!bestCandidate || candidate.score > bestCandidate.score) {
+          const rank =
+            (setIndex * symbolDurations.length + durationIndex) *
+              startTimes.length +
+            startIndex;
+          if (
+            !bestCandidate ||
+            candidate.score > bestCandidate.score ||
+            (candidate.score === bestCandidate.score && rank < bestRank)
+          ) {
             bestCandidate = candidate;
+            bestRank = rank;
           }
         }
       }
+
+      startTimesSearched++;
+      onProgress?.({
+        fraction: startTimesSearched / startOrder.length,
+        candidatesTried,
+        bestScore: bestCandidate ? bestCandidate.score : null,
+      });
     }
 
     return bestCandidate;
   }
 
+  /**
+   * Whether the last findBestCandidate call searched every candidate
+   * before its deadline
+   */
+  isSearchComplete(): boolean {
+    return this.searchComplete;
+  }
+
   private generateStartTimes(): number[] {
     const { start, end, step } = this.options.startTimeRange;
     const times: number[] = [];
@@ -119,10 +235,15 @@ export class SymbolExtractor {
     symbolDuration: number,
     symbolsToExtract: number,
     windowFraction: number,
-    tones: [number, number, number],
-  ): { rawSymbols: number[]; confidences: number[] } | null {
+    tones: number[],
+  ): {
+    rawSymbols: number[];
+    confidences: number[];
+    likelihoods: ToneLikelihoods[];
+  } | null {
     const rawSymbols: number[] = [];
     const confidences: number[] = [];
+    const likelihoods: ToneLikelihoods[] = [];
 
     const symbolSamples = Math.floor(symbolDuration * sampleRate);
     if (symbolSamples <= 0) return null;
@@ -151,6 +272,7 @@ export class SymbolExtractor {
       if (totalStrength <= 0) {
         rawSymbols.push(-1);
         confidences.push(0);
+        likelihoods.push(ToneLikelihood.uniform(tones.length));
         continue;
       }
 
@@ -160,18 +282,23 @@ export class SymbolExtractor {
 
       rawSymbols.push(dominantIndex);
       confidences.push(confidence);
+      likelihoods.push(ToneLikelihood.fromStrengths(strengths));
     }
 
-    if (rawSymbols.length < PREAMBLE.length + SYNC.length) {
+    if (
+      rawSymbols.length <
+      this.preambleSymbols.length + this.syncSymbols.length
+    ) {
       return null;
     }
 
-    return { rawSymbols, confidences };
+    return { rawSymbols, confidences, likelihoods };
   }
 
   private evaluateCandidate(
     rawSymbols: number[],
     confidences: number[],
+    rawLikelihoods: ToneLikelihoods[],
     frequencySet: ToneFrequencySet,
     symbolDuration: number,
     startTime: number,
@@ -179,7 +306,7 @@ export class SymbolExtractor {
   ): SymbolExtractionCandidate | null {
     let best: SymbolExtractionCandidate | null = null;
 
-    for (const mapping of PERMUTATIONS) {
+    for (const mapping of toneMappings(frequencySet.tones.length)) {
       const mappedSymbols = rawSymbols.map((symbol) =>
         symbol >= 0 ? mapping[symbol] : -1,
       );
@@ -201,6 +328,9 @@ export class SymbolExtractor {
           mappedSymbols,
           mapping,
           confidences,
+          likelihoods: rawLikelihoods.map((likelihood) =>
+            ToneLikelihood.permute(likelihood, mapping),
+          ),
           score,
           preambleMatches,
           syncMatches,
@@ -216,8 +346,8 @@ export class SymbolExtractor {
     confidences: number[],
     minConfidence: number,
   ): { score: number; preambleMatches: number; syncMatches: number } {
-    const preambleLength = PREAMBLE.length;
-    const syncLength = SYNC.length;
+    const preambleLength = this.preambleSymbols.length;
+    const syncLength = this.syncSymbols.length;
 
     const preambleSlice = mappedSymbols.slice(0, preambleLength);
     const syncSlice = mappedSymbols.slice(
@@ -232,7 +362,7 @@ export class SymbolExtractor {
 
     for (let i = 0; i < preambleSlice.length; i++) {
       const symbol = preambleSlice[i];
-      if (symbol === PREAMBLE[i]) {
+      if (symbol === this.preambleSymbols[i]) {
         preambleMatches++;
       }
       const conf = confidences[i] || 0;
@@ -244,7 +374,7 @@ export class SymbolExtractor {
 
     for (let i = 0; i < syncSlice.length; i++) {
       const symbol = syncSlice[i];
-      if (symbol === SYNC[i]) {
+      if (symbol === this.syncSymbols[i]) {
         syncMatches++;
       }
       const conf = confidences[preambleLength + i] || 0;
@@ -272,6 +402,7 @@ export class SymbolExtractor {
   ): SymbolExtractionCandidate {
     const refinedRaw = [...candidate.rawSymbols];
     const refinedConfidences = [...candidate.confidences];
+    const refinedLikelihoods = this.getRawLikelihoods(candidate);
 
     const offsets: number[] = [];
     const baseStep = candidate.symbolDuration * 0.02;
@@ -290,6 +421,7 @@ export class SymbolExtractor {
 
       let bestSymbol = refinedRaw[i];
       let bestConfidence = refinedConfidences[i];
+      let bestLikelihoods = refinedLikelihoods[i];
 
       for (const offset of offsets) {
         const centerTime =
@@ -308,17 +440,20 @@ export class SymbolExtractor {
         if (detection.confidence > bestConfidence) {
           bestConfidence = detection.confidence;
           bestSymbol = detection.symbol;
+          bestLikelihoods = detection.likelihoods;
         }
       }
 
       refinedRaw[i] = bestSymbol;
       refinedConfidences[i] = bestConfidence;
+      refinedLikelihoods[i] = bestLikelihoods;
     }
 
     const minConfidence = this.options.minConfidence || 0.15;
     const updated = this.evaluateCandidate(
       refinedRaw,
       refinedConfidences,
+      refinedLikelihoods,
       candidate.frequencySet,
       candidate.symbolDuration,
       candidate.startTime,
@@ -330,10 +465,18 @@ export class SymbolExtractor {
         ...candidate,
         rawSymbols: refinedRaw,
         confidences: refinedConfidences,
+        likelihoods: refinedLikelihoods.map((likelihood) =>
+          ToneLikelihood.permute(likelihood, candidate.mapping),
+        ),
       }
     );
   }
 
+  /**
+   * Fine start time search around a candidate
+   * Offsets nearest the candidate go first and the search stops at the
+   * deadline; a complete search returns the same candidate in any order.
+   */
   refineStartTime(
     audioData: Float32Array,
     sampleRate: number,
@@ -342,14 +485,27 @@ export class SymbolExtractor {
     step: number = 0.0005,
   ): SymbolExtractionCandidate {
     let bestCandidate: SymbolExtractionCandidate = candidate;
+    // Position in ascending offset order breaks score ties
+    let bestRank = -1;
     const minConfidence = this.options.minConfidence || 0.15;
+    const deadline = this.options.deadline;
 
+    const offsets: number[] = [];
     for (
       let offset = -radius;
       offset <= radius;
       offset = Number((offset + step).toFixed(6))
     ) {
-      const startTime = candidate.startTime + offset;
+      offsets.push(offset);
+    }
+    const order = offsets
+      .map((_, index) => index)
+      .sort((a, b) => Math.abs(offsets[a]) - Math.abs(offsets[b]) || a - b);
+
+    for (const rank of order) {
+      if (deadline !== undefined && Date.now() >= deadline) break;
+
+      const startTime = candidate.startTime + offsets[rank];
       if (startTime < this.options.startTimeRange.start) continue;
       if (startTime > this.options.startTimeRange.end) continue;
 
@@ -368,14 +524,22 @@ export class SymbolExtractor {
       const evaluated = this.evaluateCandidate(
         detection.rawSymbols,
         detection.confidences,
+        detection.likelihoods,
         candidate.frequencySet,
         candidate.symbolDuration,
         startTime,
         minConfidence,
       );
 
-      if (evaluated && evaluated.score > bestCandidate.score) {
+      if (
+        evaluated &&
+        (evaluated.score > bestCandidate.score ||
+          (evaluated.score === bestCandidate.score &&
+            bestRank >= 0 &&
+            rank < bestRank))
+      ) {
         bestCandidate = evaluated;
+        bestRank = rank;
       }
     }
 
@@ -404,6 +568,7 @@ export class SymbolExtractor {
     return this.evaluateCandidate(
       detection.rawSymbols,
       detection.confidences,
+      detection.likelihoods,
       frequencySet,
       symbolDuration,
       startTime,
@@ -411,20 +576,405 @@ export class SymbolExtractor {
     );
   }
 
+  /**
+   * Re-detect the payload of a candidate, re-locking symbol timing and tone
+   * estimates on every pilot slot. Each pilot is searched within a quarter
+   * symbol of the current lock; the measured pilot tones update a running
+   * frequency scale applied to the symbols that follow.
+   */
+  relockWithPilots(
+    audioData: Float32Array,
+    sampleRate: number,
+    candidate: SymbolExtractionCandidate,
+    pilot: number[],
+    pilotInterval: number,
+    payloadOffset: number,
+  ): SymbolExtractionCandidate {
+    const rawPilot = pilot.map((symbol) => candidate.mapping.indexOf(symbol));
+    if (pilotInterval <= 0 || pilot.length === 0 || rawPilot.includes(-1)) {
+      return candidate;
+    }
+
+    const symbolDuration = candidate.symbolDuration;
+    const symbolSamples = Math.floor(symbolDuration * sampleRate);
+    const windowSamples = Math.max(
+      Math.floor(symbolSamples * (this.options.windowFraction || 0.6)),
+      Math.floor(sampleRate * 0.04),
+    );
+    const baseTones = candidate.frequencySet.tones;
+    const period = pilotInterval + pilot.length;
+    const centerOf = (index: number, offset: number) =>
+      candidate.startTime +
+      index * symbolDuration +
+      symbolDuration / 2 +
+      offset;
+
+    const rawSymbols = [...candidate.rawSymbols];
+    const confidences = [...candidate.confidences];
+    const rawLikelihoods = this.getRawLikelihoods(candidate);
+    let timingOffset = 0;
+    let toneScale = 1;
+    let relocks = 0;
+    let nextSlot = payloadOffset + pilotInterval;
+
+    for (let i = payloadOffset; i < rawSymbols.length; i++) {
+      const tones = baseTones.map((tone) => tone * toneScale);
+
+      if (i === nextSlot && i + pilot.length <= rawSymbols.length) {
+        nextSlot += period;
+
+        let bestOffset = timingOffset;
+        let bestScore = 0;
+        const radius = symbolDuration * 0.25;
+        const step = symbolDuration * 0.025;
+
+        for (let delta = -radius; delta <= radius + 1e-9; delta += step) {
+          let score = 0;
+          for (let j = 0; j < pilot.length; j++) {
+            const detection = this.detectSingleSymbol(
+              audioData,
+              sampleRate,
+              centerOf(i + j, timingOffset + delta),
+              windowSamples,
+              tones,
+            );
+            if (detection.symbol === rawPilot[j]) {
+              score += detection.confidence;
+            }
+          }
+
+          if (score > bestScore) {
+            bestScore = score;
+            bestOffset = timingOffset + delta;
+          }
+        }
+
+        // Keep the previous lock when the pilot cannot be found
+        if (bestScore >= pilot.length * 0.5) {
+          timingOffset = bestOffset;
+          relocks++;
+
+          const ratios = rawPilot.map((raw, j) =>
+            this.estimateToneRatio(
+              audioData,
+              sampleRate,
+              centerOf(i + j, timingOffset),
+              windowSamples,
+              baseTones[raw],
+            ),
+          );
+          const measured =
+            ratios.reduce((sum, ratio) => sum + ratio, 0) / ratios.length;
+          toneScale = 0.5 * toneScale + 0.5 * measured;
+        }
+      }
+
+      const detection = this.detectSingleSymbol(
+        audioData,
+        sampleRate,
+        centerOf(i, timingOffset),
+        windowSamples,
+        baseTones.map((tone) => tone * toneScale),
+      );
+      rawSymbols[i] = detection.symbol;
+      confidences[i] = detection.confidence;
+      rawLikelihoods[i] = detection.likelihoods;
+    }
+
+    const evaluated = this.evaluateCandidate(
+      rawSymbols,
+      confidences,
+      rawLikelihoods,
+      candidate.frequencySet,
+      symbolDuration,
+      candidate.startTime,
+      this.options.minConfidence || 0.15,
+    );
+
+    return {
+      ...(evaluated || {
+        ...candidate,
+        rawSymbols,
+        confidences,
+        likelihoods: rawLikelihoods.map((likelihood) =>
+          ToneLikelihood.permute(likelihood, candidate.mapping),
+        ),
+      }),
+      pilotRelocks: relocks,
+      toneScale,
+    };
+  }
+
+  /**
+   * Automatic frequency control for a candidate
+   * f0 and f2 are measured over the preamble symbols and f1 is inferred from
+   * them; every symbol is then detected again on the measured tones, which
+   * track slow drift through the rest of the frame.
+   */
+  applyFrequencyControl(
+    audioData: Float32Array,
+    sampleRate: number,
+    candidate: SymbolExtractionCandidate,
+  ): SymbolExtractionCandidate {
+    const symbolDuration = candidate.symbolDuration;
+    const symbolSamples = Math.floor(symbolDuration * sampleRate);
+    const windowSamples = Math.max(
+      Math.floor(symbolSamples * (this.options.windowFraction || 0.6)),
+      Math.floor(sampleRate * 0.04),
+    );
+    const segmentAt = (index: number) => {
+      const centerSample = Math.floor(
+        (candidate.startTime + index * symbolDuration + symbolDuration / 2) *
+          sampleRate,
+      );
+      const windowStart = centerSample - Math.floor(windowSamples / 2);
+      if (windowStart < 0 || windowStart + windowSamples >= audioData.length) {
+        return null;
+      }
+      return audioData.subarray(windowStart, windowStart + windowSamples);
+    };
+
+    // A preamble symbol is sent on its own tone, but weak detection can
+    // map it to another one; the stronger peak near either tells which
+    const nominal = candidate.frequencySet.tones;
+    const measurements: ToneMeasurement[] = [];
+    this.preambleSymbols.forEach((symbol, i) => {
+      const segment = segmentAt(i);
+      if (candidate.mappedSymbols[i] !== symbol || !segment) return;
+      const tones = Array.from(
+        new Set([symbol, candidate.mapping.indexOf(symbol)]),
+      );
+      const peaks = tones.map((tone) =>
+        FrequencyEstimator.findPeak(segment, nominal[tone], sampleRate),
+      );
+      const best = peaks[1]?.strength > peaks[0].strength ? 1 : 0;
+      if (peaks[best].strength > 0) {
+        measurements.push({
+          tone: tones[best],
+          frequency: peaks[best].frequency,
+        });
+      }
+    });
+    if (measurements.length === 0) {
+      return candidate;
+    }
+
+    const tones = FrequencyEstimator.fitTones(measurements, nominal);
+    const tracker = new FrequencyTracker(tones);
+    const rawSymbols: number[] = [];
+    const confidences: number[] = [];
+    const rawLikelihoods: ToneLikelihoods[] = [];
+
+    for (let i = 0; i < candidate.rawSymbols.length; i++) {
+      const tracked = tracker.getTones();
+      const detection = this.detectSingleSymbol(
+        audioData,
+        sampleRate,
+        candidate.startTime + i * symbolDuration + symbolDuration / 2,
+        windowSamples,
+        tracked,
+      );
+      rawSymbols.push(detection.symbol);
+      confidences.push(detection.confidence);
+      rawLikelihoods.push(detection.likelihoods);
+
+      const segment = segmentAt(i);
+      if (
+        i >= this.preambleSymbols.length &&
+        segment &&
+        detection.symbol >= 0 &&
+        detection.confidence >= 0.6
+      ) {
+        const peak = FrequencyEstimator.findPeak(
+          segment,
+          tracked[detection.symbol],
+          sampleRate,
+          0.005,
+        );
+        if (peak.strength > 0) {
+          tracker.update(detection.symbol, peak.frequency);
+        }
+      }
+    }
+
+    const frequencySet = { name: "afc", tones };
+    const evaluated = this.evaluateCandidate(
+      rawSymbols,
+      confidences,
+      rawLikelihoods,
+      frequencySet,
+      symbolDuration,
+      candidate.startTime,
+      this.options.minConfidence || 0.15,
+    );
+
+    return {
+      ...(evaluated || {
+        ...candidate,
+        frequencySet,
+        rawSymbols,
+        confidences,
+        likelihoods: rawLikelihoods.map((likelihood) =>
+          ToneLikelihood.permute(likelihood, candidate.mapping),
+        ),
+      }),
+      toneScale: tracker.getTones()[0] / nominal[0],
+    };
+  }
+
+  /**
+   * Timing recovery for a candidate
+   * Symbols are detected again with a timing loop that re-centres each
+   * window on the tone transitions, so a clock mismatch does not build up
+   * over a long frame. The candidate's symbol duration becomes the tracked
+   * period.
+   */
+  recoverTiming(
+    audioData: Float32Array,
+    sampleRate: number,
+    candidate: SymbolExtractionCandidate,
+  ): SymbolExtractionCandidate {
+    const symbolDuration = candidate.symbolDuration;
+    const symbolSamples = Math.floor(symbolDuration * sampleRate);
+    const windowSamples = Math.max(
+      Math.floor(symbolSamples * (this.options.windowFraction || 0.6)),
+      Math.floor(sampleRate * 0.04),
+    );
+    const tones = candidate.frequencySet.tones;
+    const loop = new SymbolTimingLoop(
+      candidate.startTime * sampleRate,
+      symbolDuration * sampleRate,
+    );
+
+    const rawSymbols: number[] = [];
+    const confidences: number[] = [];
+    const rawLikelihoods: ToneLikelihoods[] = [];
+    const detectAtLoop = () =>
+      this.detectSingleSymbol(
+        audioData,
+        sampleRate,
+        loop.getSymbolCenter() / sampleRate,
+        windowSamples,
+        tones,
+      );
+
+    for (let i = 0; i < candidate.rawSymbols.length; i++) {
+      let detection = detectAtLoop();
+      const previous = rawSymbols[i - 1];
+      if (
+        i > 0 &&
+        detection.symbol >= 0 &&
+        previous >= 0 &&
+        detection.symbol !== previous &&
+        detection.confidence >= 0.5 &&
+        confidences[i - 1] >= 0.5
+      ) {
+        const error = SymbolTimingLoop.transitionError(
+          audioData,
+          sampleRate,
+          loop.getSymbolStart(),
+          loop.getPeriod() / 2,
+          tones[previous],
+          tones[detection.symbol],
+        );
+        if (error !== null) {
+          loop.update(error);
+          detection = detectAtLoop();
+        }
+      }
+
+      rawSymbols.push(detection.symbol);
+      confidences.push(detection.confidence);
+      rawLikelihoods.push(detection.likelihoods);
+      loop.advance();
+    }
+
+    const trackedDuration = loop.getPeriod() / sampleRate;
+    const evaluated = this.evaluateCandidate(
+      rawSymbols,
+      confidences,
+      rawLikelihoods,
+      candidate.frequencySet,
+      trackedDuration,
+      candidate.startTime,
+      this.options.minConfidence || 0.15,
+    );
+
+    return {
+      ...(evaluated || {
+        ...candidate,
+        symbolDuration: trackedDuration,
+        rawSymbols,
+        confidences,
+        likelihoods: rawLikelihoods.map((likelihood) =>
+          ToneLikelihood.permute(likelihood, candidate.mapping),
+        ),
+      }),
+      clockRatio: loop.getClockRatio(),
+    };
+  }
+
+  /**
+   * Ratio between the strongest frequency near a nominal tone and the tone
+   * itself, refined with parabolic interpolation over a ±1.5% sweep
+   */
+  private estimateToneRatio(
+    audioData: Float32Array,
+    sampleRate: number,
+    centerTime: number,
+    windowSamples: number,
+    tone: number,
+  ): number {
+    const centerSample = Math.floor(centerTime * sampleRate);
+    const windowStart = centerSample - Math.floor(windowSamples / 2);
+    if (windowStart < 0 || windowStart + windowSamples >= audioData.length) {
+      return 1;
+    }
+
+    const segment = audioData.slice(windowStart, windowStart + windowSamples);
+    const step = 0.001;
+    const ratios: number[] = [];
+    const strengths: number[] = [];
+    for (let ratio = 0.985; ratio <= 1.015 + 1e-9; ratio += step) {
+      ratios.push(ratio);
+      strengths.push(
+        Goertzel.getFrequencyStrengthParametric(
+          segment,
+          tone * ratio,
+          sampleRate,
+        ),
+      );
+    }
+
+    const peak = strengths.indexOf(Math.max(...strengths));
+    if (peak <= 0 || peak >= strengths.length - 1) {
+      return ratios[peak];
+    }
+
+    const [left, center, right] = strengths.slice(peak - 1, peak + 2);
+    const denominator = left - 2 * center + right;
+    const shift = denominator !== 0 ? (0.5 * (left - right)) / denominator : 0;
+    return ratios[peak] + shift * step;
+  }
+
   private detectSingleSymbol(
     audioData: Float32Array,
     sampleRate: number,
     centerTime: number,
     windowSamples: number,
-    tones: [number, number, number],
-  ): { symbol: number; confidence: number } {
+    tones: number[],
+  ): { symbol: number; confidence: number; likelihoods: ToneLikelihoods } {
     const centerSample = Math.floor(centerTime * sampleRate);
     const halfWindow = Math.floor(windowSamples / 2);
     const windowStart = centerSample - halfWindow;
     const windowEnd = windowStart + windowSamples;
 
     if (windowStart < 0 || windowEnd >= audioData.length) {
-      return { symbol: -1, confidence: 0 };
+      return {
+        symbol: -1,
+        confidence: 0,
+        likelihoods: ToneLikelihood.uniform(tones.length),
+      };
     }
 
     const segment = audioData.slice(windowStart, windowEnd);
@@ -434,13 +984,30 @@ export class SymbolExtractor {
     const total = strengths.reduce((sum, value) => sum + value, 0);
 
     if (total <= 0) {
-      return { symbol: -1, confidence: 0 };
+      return {
+        symbol: -1,
+        confidence: 0,
+        likelihoods: ToneLikelihood.uniform(tones.length),
+      };
     }
 
     const maxStrength = Math.max(...strengths);
     const symbol = strengths.indexOf(maxStrength);
     const confidence = maxStrength / total;
 
-    return { symbol, confidence };
+    return {
+      symbol,
+      confidence,
+      likelihoods: ToneLikelihood.fromStrengths(strengths),
+    };
+  }
+
+  // Candidate likelihoods back in detector tone order
+  private getRawLikelihoods(
+    candidate: SymbolExtractionCandidate,
+  ): ToneLikelihoods[] {
+    return candidate.likelihoods.map((likelihood) =>
+      candidate.mapping.map((symbol) => likelihood[symbol]),
+    );
   }
 }
@@ -0,0 +1,132 @@
+import { Goertzel } from "../utils/goertzel";
+
+export interface SymbolTimingLoopOptions {
+  proportionalGain?: number; // share of each timing error applied to the symbol start
+  integralGain?: number; // share of each timing error folded into the period
+  maxPeriodError?: number; // furthest the period may move from nominal, as a fraction
+}
+
+/**
+ * Second-order symbol timing recovery loop
+ *
+ * Symbol starts are predicted one period apart. Each tone transition gives a
+ * timing error (see transitionError); the loop moves the current symbol start
+ * by part of it and folds part into the period, so a clock mismatch between
+ * transmitter and receiver is followed through a long frame instead of
+ * building up. Times are in whatever unit the caller uses (seconds or
+ * samples), as long as it is the same throughout.
+ */
+export class SymbolTimingLoop {
+  private symbolStart: number;
+  private period: number;
+  private readonly nominalPeriod: number;
+  private readonly proportionalGain: number;
+  private readonly integralGain: number;
+  private readonly maxPeriodError: number;
+
+  constructor(
+    firstSymbolStart: number,
+    nominalPeriod: number,
+    options: SymbolTimingLoopOptions = {},
+  ) {
+    this.symbolStart = firstSymbolStart;
+    this.period = nominalPeriod;
+    this.nominalPeriod = nominalPeriod;
+    this.proportionalGain = options.proportionalGain ?? 0.4;
+    this.integralGain = options.integralGain ?? 0.04;
+    this.maxPeriodError = options.maxPeriodError ?? 0.1;
+  }
+
+  getSymbolStart(): number {
+    return this.symbolStart;
+  }
+
+  getSymbolCenter(): number {
+    return this.symbolStart + this.period / 2;
+  }
+
+  getPeriod(): number {
+    return this.period;
+  }
+
+  /**
+   * Nominal over tracked period: above 1 when the transmitter's clock runs
+   * fast, as with ChannelImpairments.clockRatio
+   */
+  getClockRatio(): number {
+    return this.nominalPeriod / this.period;
+  }
+
+  /**
+   * @param error - How much later the current symbol actually starts than predicted
+   */
+  update(error: number): void {
+    if (!Number.isFinite(error)) {
+      return;
+    }
+    this.symbolStart += this.proportionalGain * error;
+    const maxDeviation = this.nominalPeriod * this.maxPeriodError;
+    this.period = Math.max(
+      this.nominalPeriod - maxDeviation,
+      Math.min(
+        this.nominalPeriod + maxDeviation,
+        this.period + this.integralGain * error,
+      ),
+    );
+  }
+
+  // Move on to the next symbol
+  advance(): void {
+    this.symbolStart += this.period;
+  }
+
+  /**
+   * Early/late gate on a tone transition
+   * A window centred on the predicted boundary holds equal energy of both
+   * tones when the prediction is right; the imbalance tells how far the
+   * actual boundary lies from it.
+   *
+   * @param boundarySample - Predicted first sample of the symbol after the transition
+   * @param windowSamples - Window length; at most half a symbol so it sees only this transition
+   * @param toneBefore - Frequency of the symbol before the transition (in Hz)
+   * @param toneAfter - Frequency of the symbol after the transition (in Hz)
+   * @returns Samples by which the actual boundary is later than predicted,
+   * or null when the window leaves the audio or holds neither tone
+   */
+  static transitionError(
+    audioData: Float32Array,
+    sampleRate: number,
+    boundarySample: number,
+    windowSamples: number,
+    toneBefore: number,
+    toneAfter: number,
+  ): number | null {
+    const halfWindow = Math.floor(windowSamples / 2);
+    const start = Math.round(boundarySample) - halfWindow;
+    if (
+      halfWindow <= 0 ||
+      start < 0 ||
+      start + 2 * halfWindow > audioData.length
+    ) {
+      return null;
+    }
+
+    const segment = audioData.subarray(start, start + 2 * halfWindow);
+    const before = Goertzel.getFrequencyStrengthParametric(
+      segment,
+      toneBefore,
+      sampleRate,
+    );
+    const after = Goertzel.getFrequencyStrengthParametric(
+      segment,
+      toneAfter,
+      sampleRate,
+    );
+    if (!(before + after > 0)) {
+      return null;
+    }
+
+    // Each tone's strength grows with its share of the window
+    return (halfWindow * (before - after)) / (before + after);
+  }
+}
@@ -0,0 +1,158 @@
+import { FeskConfig, DEFAULT_CONFIG } from "../config";
+import { AudioSample } from "../types";
+import { ChirpSync } from "./chirpSync";
+
+export interface ToneSynthesizerOptions {
+  sampleRate?: number; // defaults to config.sampleRate
+  amplitude?: number; // peak amplitude, 0-1
+  rampDuration?: number; // raised-cosine edge ramp in seconds
+  leadingSilence?: number; // seconds of silence before the first symbol
+  trailingSilence?: number; // seconds of silence after the last symbol
+  phaseContinuous?: boolean; // keep oscillator phase across symbol switches
+}
+
+/**
+ * Render FESK symbol sequences to PCM audio
+ */
+export class ToneSynthesizer {
+  private config: FeskConfig;
+  private sampleRate: number;
+  private amplitude: number;
+  private rampDuration: number;
+  private leadingSilence: number;
+  private trailingSilence: number;
+  private phaseContinuous: boolean;
+
+  constructor(
+    config: FeskConfig = DEFAULT_CONFIG,
+    options: ToneSynthesizerOptions = {},
+  ) {
+    this.config = config;
+    this.sampleRate = options.sampleRate ?? config.sampleRate;
+    this.amplitude = options.amplitude ?? 0.8;
+    this.rampDuration = options.rampDuration ?? 0.005;
+    this.leadingSilence = options.leadingSilence ?? 0;
+    this.trailingSilence = options.trailingSilence ?? 0;
+    this.phaseContinuous = options.phaseContinuous ?? true;
+
+    if (!(this.sampleRate > 0)) {
+      throw new Error(`Invalid sample rate: ${this.sampleRate}`);
+    }
+  }
+
+  /**
+   * Render a symbol sequence to samples
+   * With config.chirpSync the symbols are one frame from FeskEncoder, and the
+   * chirp is rendered after its preamble or first when it replaces it
+   * @param symbols Tone indices (0 to M-1)
+   * @returns Mono PCM samples in the range [-1, 1]
+   */
+  synthesize(symbols: number[]): Float32Array {
+    const sampleRate = this.sampleRate;
+    const symbolDuration = this.config.symbolDuration;
+    const leadingSamples = Math.round(this.leadingSilence * sampleRate);
+    const trailingSamples = Math.round(this.trailingSilence * sampleRate);
+    // Symbol boundaries are computed from the absolute index to avoid drift
+    const toneSamples = Math.round(
+      symbols.length * symbolDuration * sampleRate,
+    );
+
+    const chirpSync = this.config.chirpSync;
+    const chirp = chirpSync
+      ? new ChirpSync(chirpSync).render(sampleRate, this.rampDuration)
+      : new Float32Array(0);
+    const chirpIndex =
+      chirpSync?.placement === "afterPreamble"
+        ? Math.min(symbols.length, this.config.preambleBits.length)
+        : 0;
+
+    const output = new Float32Array(
+      leadingSamples + toneSamples + chirp.length + trailingSamples,
+    );
+    const chirpStart =
+      leadingSamples + Math.round(chirpIndex * symbolDuration * sampleRate);
+    for (let n = 0; n < chirp.length; n++) {
+      output[chirpStart + n] = this.amplitude * chirp[n];
+    }
+
+    const rampSamples = Math.max(0, Math.round(this.rampDuration * sampleRate));
+    let phase = 0;
+
+    for (let i = 0; i < symbols.length; i++) {
+      const symbol = symbols[i];
+      const frequency = this.config.toneFrequencies[symbol];
+      if (frequency === undefined) {
+        throw new Error(`Invalid symbol value: ${symbol}`);
+      }
+
+      const start = Math.round(i * symbolDuration * sampleRate);
+      const end = Math.round((i + 1) * symbolDuration * sampleRate);
+      const length = end - start;
+      const phaseStep = (2 * Math.PI * frequency) / sampleRate;
+
+      if (!this.phaseContinuous) {
+        phase = 0;
+      }
+
+      // With phase-continuous switching only the burst edges are ramped;
+      // the chirp interrupts the burst
+      const afterChirp = chirp.length > 0 && i >= chirpIndex;
+      const offset = leadingSamples + (afterChirp ? chirp.length : 0);
+      const rampIn =
+        !this.phaseContinuous || i === 0 || (afterChirp && i === chirpIndex);
+      const rampOut =
+        !this.phaseContinuous ||
+        i === symbols.length - 1 ||
+        (chirp.length > 0 && i === chirpIndex - 1);
+      const ramp = Math.min(rampSamples, Math.floor(length / 2));
+
+      for (let n = 0; n < length; n++) {
+        let gain = this.amplitude;
+        if (rampIn && n < ramp) {
+          gain *= this.raisedCosine(n, ramp);
+        } else if (rampOut && n >= length - ramp) {
+          gain *= this.raisedCosine(length - 1 - n, ramp);
+        }
+
+        output[offset + start + n] = gain * Math.sin(phase);
+        phase += phaseStep;
+      }
+
+      phase %= 2 * Math.PI;
+    }
+
+    return output;
+  }
+
+  /**
+   * Render a symbol sequence into an AudioSample
+   */
+  synthesizeSample(symbols: number[], timestamp: number = 0): AudioSample {
+    const data = this.synthesize(symbols);
+
+    let peak = 0;
+    let sumSquares = 0;
+    for (let i = 0; i < data.length; i++) {
+      const abs = Math.abs(data[i]);
+      if (abs > peak) peak = abs;
+      sumSquares += data[i] * data[i];
+    }
+    const rms = data.length > 0 ? Math.sqrt(sumSquares / data.length) : 0;
+
+    return {
+      data,
+      sampleRate: this.sampleRate,
+      timestamp,
+      peakLevel: peak,
+      rmsLevel: rms,
+    };
+  }
+
+  getSampleRate(): number {
+    return this.sampleRate;
+  }
+
+  private raisedCosine(position: number, rampLength: number): number {
+    return 0.5 * (1 - Math.cos((Math.PI * (position + 0.5)) / rampLength));
+  }
+}
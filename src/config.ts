@@ -1,11 +1,27 @@
+/**
+ * Linear chirp sent with each frame for sample-accurate synchronization
+ * The chirp sweeps up, down and up again; the two directions tell timing
+ * apart from frequency shift, and the two up-sweeps measure the clock ratio.
+ */
+export interface ChirpSyncConfig {
+  placement: "afterPreamble" | "replacePreamble"; // the sync word follows the chirp either way
+  startFrequency: number; // Hz, where the up-sweeps start
+  endFrequency: number; // Hz, where the up-sweeps end
+  sweepDuration: number; // seconds per sweep
+}
+
 export interface FeskConfig {
   sampleRate: number;
   symbolDuration: number; // in seconds
-  toneFrequencies: [number, number, number]; // f0, f1, f2
+  toneFrequencies: number[]; // f0..f(M-1); one of TONE_PROFILES, HT3 by default
   preambleBits: number[];
   barker13: number[];
   pilotSequence: [number, number];
   pilotInterval: number; // trits
+  pilotsEnabled?: boolean; // TX inserts pilots; RX detects them either way
+  fecParityBytes?: number; // Reed-Solomon parity bytes per block, 0 disables FEC
+  chirpSync?: ChirpSyncConfig; // off by default; legacy receivers cannot decode chirped frames
+  versionedHeader?: boolean; // TX opens frames with the version and flags byte; RX detects it either way
 
   // Adaptive timing parameters for WAV file processing
   adaptiveTiming?: {
@@ -15,14 +31,43 @@ export interface FeskConfig {
   };
 }
 
+/**
+ * Tone sets by tone count M. Payload symbols carry base-M digits, so more
+ * tones mean fewer symbols per frame but closer spacing between them.
+ * Preamble, sync and pilots use f0 and f2 only, so every profile starts a
+ * frame the same way.
+ */
+export const TONE_PROFILES: Readonly<
+  Record<3 | 4 | 8 | 16, readonly number[]>
+> = {
+  3: [2793.83, 3520.0, 4698.63], // HT3: F7, A7, D8 harmonic triad
+  4: [2793.83, 3520.0, 4186.01, 4698.63], // F7, A7, C8, D8
+  8: [2800, 3100, 3400, 3700, 4000, 4300, 4600, 4900], // 300 Hz apart
+  16: Array.from({ length: 16 }, (_, i) => 2800 + i * 150), // up to 5050 Hz
+};
+
+// Spans the HT3 and M-ary profiles' tones
+export const DEFAULT_CHIRP_SYNC: ChirpSyncConfig = {
+  placement: "afterPreamble",
+  startFrequency: 2500,
+  endFrequency: 5000,
+  sweepDuration: 0.05,
+};
+
+// Triad of the hardware transmitters, decoded as an alternative tone set
+export const HARDWARE_TONE_FREQUENCIES: readonly number[] = [1200, 1600, 2000];
+
 export const DEFAULT_CONFIG: FeskConfig = {
   sampleRate: 44100, // Updated to match actual audio files
   symbolDuration: 0.1, // 100ms - discovered from fesk1.wav analysis
-  toneFrequencies: [2793.83, 3520.0, 4698.63], // F7, A7, D8 - harmonically safe frequencies
+  toneFrequencies: [...TONE_PROFILES[3]], // F7, A7, D8 - harmonically safe frequencies
   preambleBits: [1, 0, 1, 0, 1, 0, 1, 0, 1, 0, 1, 0], // 12 bit alternating pattern
   barker13: [1, 1, 1, 1, 1, 0, 0, 1, 1, 0, 1, 0, 1], // Barker-13 sequence
   pilotSequence: [0, 2], // [f0, f2]
   pilotInterval: 64, // insert pilot every 64 trits
+  pilotsEnabled: false, // legacy TX firmware sends no pilots
+  fecParityBytes: 0, // legacy frames carry no FEC; RX follows the frame header
+  versionedHeader: false, // legacy TX firmware sends the bare length header
 
   // Adaptive timing configuration for robust WAV file processing
   adaptiveTiming: {
@@ -0,0 +1,132 @@
+/**
+ * Base class of the typed decode failures
+ * Each subclass carries a `kind` discriminant and structured fields, so
+ * failures can be grouped by cause without parsing messages.
+ */
+export abstract class FeskDecodeError extends Error {
+  abstract readonly kind: string;
+}
+
+/**
+ * No sustained signal energy anywhere in the audio
+ */
+export class NoCarrier extends FeskDecodeError {
+  readonly kind = "noCarrier";
+
+  constructor() {
+    super("No carrier found in the audio");
+    this.name = "NoCarrier";
+  }
+}
+
+/**
+ * Signal present, but no symbol sequence starts with the preamble
+ */
+export class PreambleNotFound extends FeskDecodeError {
+  readonly kind = "preambleNotFound";
+
+  constructor() {
+    super("Preamble not found");
+    this.name = "PreambleNotFound";
+  }
+}
+
+/**
+ * Preamble matched, Barker sync did not
+ */
+export class SyncMismatch extends FeskDecodeError {
+  readonly kind = "syncMismatch";
+
+  constructor(readonly bitErrors: number) {
+    super(`Sync mismatch: ${bitErrors} bit errors`);
+    this.name = "SyncMismatch";
+  }
+}
+
+/**
+ * Header payload length outside 1-256 bytes
+ */
+export class LengthOutOfRange extends FeskDecodeError {
+  readonly kind = "lengthOutOfRange";
+
+  constructor(readonly length: number) {
+    super(`Payload length out of range: ${length}`);
+    this.name = "LengthOutOfRange";
+  }
+}
+
+/**
+ * Fewer frame bytes received than the header and CRC need
+ */
+export class Truncated extends FeskDecodeError {
+  readonly kind = "truncated";
+
+  constructor(
+    readonly haveBytes: number,
+    readonly needBytes: number,
+  ) {
+    super(`Frame truncated: have ${haveBytes} bytes, need ${needBytes}`);
+    this.name = "Truncated";
+  }
+}
+
+/**
+ * Frame parsed, but the received CRC does not match the payload
+ */
+export class CrcMismatch extends FeskDecodeError {
+  readonly kind = "crcMismatch";
+
+  constructor(
+    readonly received: number,
+    readonly calculated: number,
+  ) {
+    super(
+      `CRC mismatch: received 0x${received.toString(16).padStart(4, "0")}, calculated 0x${calculated.toString(16).padStart(4, "0")}`,
+    );
+    this.name = "CrcMismatch";
+  }
+}
+
+/**
+ * Audio that cannot be decoded at all: empty, non-finite samples or an
+ * invalid sample rate
+ */
+export class InvalidAudio extends FeskDecodeError {
+  readonly kind = "invalidAudio";
+
+  constructor(readonly reason: string) {
+    super(`Invalid audio: ${reason}`);
+    this.name = "InvalidAudio";
+  }
+}
+
+export type DecodeError =
+  | NoCarrier
+  | PreambleNotFound
+  | SyncMismatch
+  | LengthOutOfRange
+  | Truncated
+  | CrcMismatch
+  | InvalidAudio;
+
+export type DecodeErrorKind = DecodeError["kind"];
+
+/**
+ * A decode cancelled through its AbortSignal
+ * Not a decode failure, so it is thrown rather than reported in results.
+ */
+export class AbortError extends Error {
+  constructor(readonly reason?: unknown) {
+    super("Decode aborted");
+    this.name = "AbortError";
+  }
+}
+
+/**
+ * @throws AbortError when the signal has aborted
+ */
+export function throwIfAborted(signal: AbortSignal | null | undefined): void {
+  if (signal?.aborted) {
+    throw new AbortError(signal.reason);
+  }
+}
@@ -0,0 +1,430 @@
+import { FeskDecoder, SymbolExtractorDecodeOptions } from "./feskDecoder";
+import { FeskConfig, DEFAULT_CONFIG } from "./config";
+import { DecodeFailureReason, DecodeResult, DecodeRunOptions } from "./types";
+import {
+  DecodeError,
+  NoCarrier,
+  PreambleNotFound,
+  throwIfAborted,
+} from "./decodeErrors";
+
+/**
+ * Audio and settings handed to each strategy of a pipeline run
+ */
+export interface DecodeContext {
+  decoder: FeskDecoder; // shared by all strategies of a run, reset before each
+  audioData: Float32Array;
+  sampleRate: number;
+  chunkSizeOrSizes: number | number[] | null; // chunk sizes of the chunked strategies
+  extractorOptions: SymbolExtractorDecodeOptions;
+  runOptions: DecodeRunOptions; // the run's deadline, signal and progress callback
+}
+
+/**
+ * One way of decoding a whole audio buffer
+ * The result's startTime counts from the start of context.audioData.
+ */
+export interface DecodeStrategy {
+  readonly name: string;
+  decode(context: DecodeContext): Promise<DecodeResult>;
+}
+
+export interface DecodePipelineOptions {
+  strategies?: Array<string | DecodeStrategy>; // names are looked up in the registry
+  registry?: DecodeStrategyRegistry; // default: the built-in strategies
+  budgetMs?: number; // shared by all strategies; none starts once it is spent
+  config?: FeskConfig;
+  chunkSizeOrSizes?: number | number[] | null; // default null, all chunk sizes
+  extractorOptions?: SymbolExtractorDecodeOptions;
+}
+
+export interface DecodePipelineRunOptions
+  extends Pick<DecodeRunOptions, "signal" | "onProgress" | "deadline"> {
+  decoder?: FeskDecoder; // default: a new decoder with the pipeline's config
+}
+
+export interface DecodePipelineAttempt {
+  strategy: string;
+  failureReason: DecodeFailureReason | null;
+  elapsedMs: number;
+}
+
+export interface DecodePipelineResult extends DecodeResult {
+  pipelineStrategy: string | null; // strategy that produced the valid frame
+  attempts: DecodePipelineAttempt[]; // in run order
+}
+
+/**
+ * Named decode strategies a pipeline can be assembled from
+ */
+export class DecodeStrategyRegistry {
+  private strategies = new Map<string, DecodeStrategy>();
+
+  /**
+   * @throws Error when a strategy of the same name is already registered
+   */
+  register(strategy: DecodeStrategy): this {
+    if (this.strategies.has(strategy.name)) {
+      throw new Error(`Decode strategy already registered: ${strategy.name}`);
+    }
+    this.strategies.set(strategy.name, strategy);
+    return this;
+  }
+
+  unregister(name: string): boolean {
+    return this.strategies.delete(name);
+  }
+
+  has(name: string): boolean {
+    return this.strategies.has(name);
+  }
+
+  /**
+   * @throws Error for names that are not registered
+   */
+  get(name: string): DecodeStrategy {
+    const strategy = this.strategies.get(name);
+    if (!strategy) {
+      throw new Error(`Unknown decode strategy: ${name}`);
+    }
+    return strategy;
+  }
+
+  names(): string[] {
+    return [...this.strategies.keys()];
+  }
+}
+
+// Onset-anchored strategies start this far past the onset at high sample
+// rates (browser captures)
+const HIGH_RATE_ONSET_SKIP_MS = 300;
+const HIGH_SAMPLE_RATE = 47000;
+
+const chirpSyncStrategy: DecodeStrategy = {
+  name: "chirpSync",
+  decode: ({ decoder, audioData, sampleRate, runOptions }) =>
+    decoder.decodeChirpSynced(audioData, sampleRate, runOptions),
+};
+
+const chunkedStrategy: DecodeStrategy = {
+  name: "chunked",
+  decode: ({ decoder, audioData, sampleRate, chunkSizeOrSizes, runOptions }) =>
+    decoder.decodeChunked(audioData, sampleRate, chunkSizeOrSizes, runOptions),
+};
+
+const timingSyncStrategy: DecodeStrategy = {
+  name: "timingSync",
+  decode: ({ decoder, audioData, sampleRate, chunkSizeOrSizes, runOptions }) =>
+    decoder.decodeTimingSynced(
+      audioData,
+      sampleRate,
+      chunkSizeOrSizes,
+      runOptions,
+    ),
+};
+
+const preambleCandidatesStrategy: DecodeStrategy = {
+  name: "preambleCandidates",
+  decode: ({ decoder, audioData, sampleRate, chunkSizeOrSizes, runOptions }) =>
+    decoder.decodePreambleCandidates(
+      audioData,
+      sampleRate,
+      chunkSizeOrSizes,
+      runOptions,
+    ),
+};
+
+// The strategies of completeDecodeStrategies, run in a nested pipeline
+const completeStrategy: DecodeStrategy = {
+  name: "complete",
+  decode: ({ decoder, audioData, sampleRate, chunkSizeOrSizes, runOptions }) =>
+    decoder.processAudioComplete(
+      audioData,
+      sampleRate,
+      chunkSizeOrSizes,
+      true,
+      runOptions,
+    ),
+};
+
+// Symbol extractor with its own start time search around the onset
+const symbolExtractorNearOnsetStrategy: DecodeStrategy = {
+  name: "symbolExtractorNearOnset",
+  decode: ({ decoder, audioData, sampleRate, extractorOptions, runOptions }) =>
+    decoder.decodeAudioDataWithSymbolExtractor(audioData, sampleRate, {
+      ...extractorOptions,
+      ...runOptions,
+    }),
+};
+
+// Symbol extractor search; without a configured range, start times are
+// searched over the first three quarters of the audio
+const symbolExtractorStrategy: DecodeStrategy = {
+  name: "symbolExtractor",
+  decode: ({
+    decoder,
+    audioData,
+    sampleRate,
+    extractorOptions,
+    runOptions,
+  }) => {
+    const duration = audioData.length / sampleRate;
+    return decoder.decodeAudioDataWithSymbolExtractor(audioData, sampleRate, {
+      startTimeRange: {
+        start: 0,
+        end: Math.max(0.05, Math.min(duration, Math.max(0.5, duration * 0.75))),
+        step: 0.02,
+      },
+      ...extractorOptions,
+      ...runOptions,
+    });
+  },
+};
+
+/**
+ * Run a strategy on the audio from the detected transmission onset
+ * Without an onset the strategy sees the whole audio when wholeWithoutOnset
+ * is set, and fails with NoCarrier otherwise.
+ */
+function fromOnset(
+  name: string,
+  strategy: DecodeStrategy,
+  wholeWithoutOnset: boolean,
+): DecodeStrategy {
+  return {
+    name,
+    decode: async (context) => {
+      const { decoder, audioData, sampleRate } = context;
+      const onsetMs = decoder.findTransmissionStart(audioData, sampleRate);
+      if (onsetMs === null) {
+        return wholeWithoutOnset
+          ? strategy.decode(context)
+          : failedResult(new NoCarrier());
+      }
+
+      const skipMs =
+        sampleRate >= HIGH_SAMPLE_RATE ? HIGH_RATE_ONSET_SKIP_MS : 0;
+      const offset = Math.floor(((onsetMs + skipMs) / 1000) * sampleRate);
+      const result = await strategy.decode({
+        ...context,
+        audioData: audioData.subarray(offset),
+      });
+      return {
+        ...result,
+        startTime:
+          result.startTime === null
+            ? null
+            : result.startTime + offset / sampleRate,
+      };
+    },
+  };
+}
+
+function failedResult(error: DecodeError): DecodeResult {
+  return {
+    frame: null,
+    error,
+    failureReason: error.kind,
+    strategy: null,
+    frequencySet: null,
+    toneFrequencies: null,
+    symbolDuration: null,
+    startTime: null,
+    snrDb: null,
+    symbolConfidences: [],
+    preambleBitErrors: null,
+    syncBitErrors: null,
+    corrections: [],
+    clockRatio: null,
+    partial: false,
+  };
+}
+
+// Result of a run whose deadline passed before any strategy started
+function unstartedResult({
+  decoder,
+  audioData,
+  sampleRate,
+}: DecodeContext): DecodeResult {
+  return failedResult(
+    decoder.findTransmissionStart(audioData, sampleRate) === null
+      ? new NoCarrier()
+      : new PreambleNotFound(),
+  );
+}
+
+/**
+ * Registry with the built-in strategies:
+ * - chirpSync: the frame following a configured chirp
+ * - chunked: the state machine fed the audio in chunks
+ * - timingSync: symbols extracted at a range of start offsets
+ * - preambleCandidates: chunked and symbol decodes from preamble candidates
+ * - symbolExtractorNearOnset: the symbol extractor searching near the onset
+ * - complete: the strategies of completeDecodeStrategies in turn
+ * - symbolExtractor: the symbol extractor search on the whole audio
+ * - onsetComplete: processAudioComplete from the transmission onset
+ * - onsetSymbolExtractor: the symbol extractor from the transmission onset
+ */
+export function createDecodeStrategyRegistry(): DecodeStrategyRegistry {
+  return new DecodeStrategyRegistry()
+    .register(chirpSyncStrategy)
+    .register(chunkedStrategy)
+    .register(timingSyncStrategy)
+    .register(preambleCandidatesStrategy)
+    .register(symbolExtractorNearOnsetStrategy)
+    .register(completeStrategy)
+    .register(symbolExtractorStrategy)
+    .register(fromOnset("onsetComplete", completeStrategy, true))
+    .register(
+      fromOnset("onsetSymbolExtractor", symbolExtractorStrategy, false),
+    );
+}
+
+/**
+ * Strategy order of processAudioComplete, the "complete" strategy
+ */
+export function completeDecodeStrategies(
+  enableTimingSync: boolean = true,
+): string[] {
+  return [
+    "chirpSync",
+    "chunked",
+    ...(enableTimingSync ? ["timingSync"] : []),
+    "preambleCandidates",
+    "symbolExtractorNearOnset",
+  ];
+}
+
+/**
+ * Default strategy order; high-rate audio (browser captures) decodes best
+ * with the symbol extractor, so it goes first there
+ */
+export function defaultDecodeStrategies(
+  sampleRate: number,
+  preferExtractor: boolean = sampleRate >= HIGH_SAMPLE_RATE,
+): string[] {
+  return preferExtractor
+    ? ["symbolExtractor", "onsetComplete", "onsetSymbolExtractor"]
+    : ["onsetComplete", "onsetSymbolExtractor", "symbolExtractor"];
+}
+
+/**
+ * Runs decode strategies in order until one yields a valid frame
+ *
+ * Without a valid frame the result is the first one carrying a frame that
+ * failed its CRC, or else the last strategy's result. It is partial when
+ * the budget cut a strategy short or left strategies unrun; when it is
+ * spent before the first strategy, the result only tells whether the audio
+ * carries a signal. The run ends at the earlier of the budget and a
+ * deadline option. An aborted signal rejects the run with AbortError.
+ */
+export class DecodePipeline {
+  private readonly registry: DecodeStrategyRegistry;
+  private readonly strategies?: Array<string | DecodeStrategy>;
+  private readonly budgetMs: number;
+  private readonly config: FeskConfig;
+  private readonly chunkSizeOrSizes: number | number[] | null;
+  private readonly extractorOptions: SymbolExtractorDecodeOptions;
+
+  constructor(options: DecodePipelineOptions = {}) {
+    this.registry = options.registry ?? createDecodeStrategyRegistry();
+    this.strategies = options.strategies;
+    this.budgetMs = options.budgetMs ?? Infinity;
+    this.config = options.config ?? DEFAULT_CONFIG;
+    this.chunkSizeOrSizes = options.chunkSizeOrSizes ?? null;
+    this.extractorOptions = options.extractorOptions ?? {};
+
+    if (this.strategies?.length === 0) {
+      throw new Error("A decode pipeline needs at least one strategy");
+    }
+    // Resolve names up front so a misspelt strategy fails at construction
+    this.strategies?.forEach((strategy) => this.resolve(strategy));
+  }
+
+  async decode(
+    audioData: Float32Array,
+    sampleRate: number,
+    options: DecodePipelineRunOptions = {},
+  ): Promise<DecodePipelineResult> {
+    const strategies = (
+      this.strategies ?? defaultDecodeStrategies(sampleRate)
+    ).map((strategy) => this.resolve(strategy));
+    const decoder = options.decoder ?? new FeskDecoder(this.config);
+    const runOptions: DecodeRunOptions = {
+      signal: options.signal,
+      onProgress: options.onProgress,
+      deadline: options.deadline,
+    };
+    if (Number.isFinite(this.budgetMs)) {
+      runOptions.deadline = Math.min(
+        runOptions.deadline ?? Infinity,
+        Date.now() + this.budgetMs,
+      );
+    }
+
+    // Strategies decoding the same audio search it for a chirp only once
+    return decoder.shareChirpDetection(() =>
+      this.runStrategies(strategies, {
+        decoder,
+        audioData,
+        sampleRate,
+        chunkSizeOrSizes: this.chunkSizeOrSizes,
+        extractorOptions: this.extractorOptions,
+        runOptions,
+      }),
+    );
+  }
+
+  private async runStrategies(
+    strategies: DecodeStrategy[],
+    context: DecodeContext,
+  ): Promise<DecodePipelineResult> {
+    const { decoder, runOptions } = context;
+    const attempts: DecodePipelineAttempt[] = [];
+    let fallback: DecodeResult | null = null;
+    let last: DecodeResult | null = null;
+    let skipped = false;
+
+    for (const strategy of strategies) {
+      throwIfAborted(runOptions.signal);
+      if (
+        runOptions.deadline !== undefined &&
+        Date.now() >= runOptions.deadline
+      ) {
+        skipped = true;
+        break;
+      }
+
+      const strategyStart = Date.now();
+      decoder.reset();
+      const result = await strategy.decode(context);
+      attempts.push({
+        strategy: strategy.name,
+        failureReason: result.failureReason,
+        elapsedMs: Date.now() - strategyStart,
+      });
+
+      if (result.frame && result.frame.isValid) {
+        return { ...result, pipelineStrategy: strategy.name, attempts };
+      }
+      if (result.frame && !fallback) {
+        fallback = result;
+      }
+      last = result;
+    }
+
+    const result = fallback ?? last ?? unstartedResult(context);
+    return {
+      ...result,
+      partial: result.partial || skipped,
+      pipelineStrategy: null,
+      attempts,
+    };
+  }
+
+  private resolve(strategy: string | DecodeStrategy): DecodeStrategy {
+    return typeof strategy === "string"
+      ? this.registry.get(strategy)
+      : strategy;
+  }
+}
@@ -0,0 +1,202 @@
+import { Transform, TransformCallback } from "stream";
+import { FeskConfig, DEFAULT_CONFIG } from "./config";
+import {
+  FeskStreamDecoder,
+  FeskStreamDecoderOptions,
+  FeskStreamEvents,
+} from "./feskStreamDecoder";
+
+export type PcmSampleFormat = "s16le" | "f32le";
+
+export interface FeskDecodeStreamOptions extends FeskStreamDecoderOptions {
+  config?: FeskConfig;
+  format?: PcmSampleFormat; // default s16le
+  sampleRate?: number; // input rate, defaults to config.sampleRate
+  channels?: number; // interleaved channels, averaged to mono
+  output?: "object" | "ndjson"; // frame objects or one JSON line per frame
+  messages?: boolean; // push reassembled fragmented messages instead of frames
+}
+
+/**
+ * One decoded frame as written in NDJSON mode
+ */
+export interface FeskFrameRecord {
+  startSample: number;
+  endSample: number;
+  startTime: number; // seconds
+  endTime: number;
+  payloadLength: number;
+  payload: string; // base64
+  text: string | null; // payload as UTF-8, null when it is not valid UTF-8
+  crc: number;
+}
+
+/**
+ * One reassembled message as written in NDJSON mode with messages enabled
+ */
+export interface FeskMessageRecord {
+  endSample: number; // sample after the frame completing the message
+  endTime: number; // seconds
+  messageId: number;
+  fragmentCount: number;
+  data: string; // base64
+  text: string | null; // data as UTF-8, null when it is not valid UTF-8
+}
+
+const BYTES_PER_SAMPLE: Record<PcmSampleFormat, number> = {
+  s16le: 2,
+  f32le: 4,
+};
+
+/**
+ * Transform stream from raw PCM bytes to decoded FESK frames
+ *
+ * Input is interleaved little-endian PCM in any chunking (sample frames may
+ * be split across chunks). In object mode each valid frame is pushed as the
+ * FeskStreamDecoder "frame" event; in NDJSON mode as a FeskFrameRecord line.
+ * With messages enabled, reassembled messages are pushed in their place, as
+ * "message" events or FeskMessageRecord lines.
+ * Audio is decoded as it arrives, so memory stays bounded regardless of the
+ * stream length; the final flush gives a frame in progress a last decode
+ * attempt. Other decoder events are available through getDecoder().
+ */
+export class FeskDecodeStream extends Transform {
+  private decoder: FeskStreamDecoder;
+  private format: PcmSampleFormat;
+  private sampleRate: number;
+  private channels: number;
+  private ndjson: boolean;
+  private remainder: Buffer = Buffer.alloc(0);
+  private decoded: (FeskStreamEvents["frame"] | FeskStreamEvents["message"])[] =
+    [];
+
+  constructor(options: FeskDecodeStreamOptions = {}) {
+    const ndjson = options.output === "ndjson";
+    super({ readableObjectMode: !ndjson });
+
+    const config = options.config ?? DEFAULT_CONFIG;
+    this.format = options.format ?? "s16le";
+    this.sampleRate = options.sampleRate ?? config.sampleRate;
+    this.channels = options.channels ?? 1;
+    this.ndjson = ndjson;
+
+    if (!(this.format in BYTES_PER_SAMPLE)) {
+      throw new Error(`Unsupported sample format: ${this.format}`);
+    }
+    if (!Number.isInteger(this.channels) || this.channels < 1) {
+      throw new Error(`Invalid channel count: ${this.channels}`);
+    }
+    if (!(this.sampleRate > 0)) {
+      throw new Error(`Invalid sample rate: ${this.sampleRate}`);
+    }
+
+    this.decoder = new FeskStreamDecoder(
+      { ...config, sampleRate: this.sampleRate },
+      options,
+    );
+    if (options.messages) {
+      this.decoder.on("message", (event) => this.decoded.push(event));
+    } else {
+      this.decoder.on("frame", (event) => this.decoded.push(event));
+    }
+  }
+
+  getDecoder(): FeskStreamDecoder {
+    return this.decoder;
+  }
+
+  _transform(
+    chunk: Buffer,
+    _encoding: BufferEncoding,
+    callback: TransformCallback,
+  ): void {
+    try {
+      this.decoder.write(this.toMono(chunk));
+      this.pushDecoded();
+      callback();
+    } catch (error) {
+      callback(error as Error);
+    }
+  }
+
+  _flush(callback: TransformCallback): void {
+    try {
+      // An incomplete trailing sample frame cannot be decoded and is dropped
+      this.remainder = Buffer.alloc(0);
+      this.decoder.flush();
+      this.pushDecoded();
+      callback();
+    } catch (error) {
+      callback(error as Error);
+    }
+  }
+
+  private pushDecoded(): void {
+    for (const event of this.decoded) {
+      this.push(
+        this.ndjson ? JSON.stringify(this.toRecord(event)) + "\n" : event,
+      );
+    }
+    this.decoded = [];
+  }
+
+  // Interleaved PCM bytes -> mono float samples, keeping any split sample frame
+  private toMono(chunk: Buffer): Float32Array {
+    const bytes =
+      this.remainder.length > 0
+        ? Buffer.concat([this.remainder, chunk])
+        : chunk;
+    const frameBytes = BYTES_PER_SAMPLE[this.format] * this.channels;
+    const frames = Math.floor(bytes.length / frameBytes);
+    this.remainder = Buffer.from(bytes.subarray(frames * frameBytes));
+
+    const samples = new Float32Array(frames);
+    for (let i = 0; i < frames; i++) {
+      let sum = 0;
+      for (let channel = 0; channel < this.channels; channel++) {
+        const offset = i * frameBytes + channel * BYTES_PER_SAMPLE[this.format];
+        sum +=
+          this.format === "s16le"
+            ? bytes.readInt16LE(offset) / 32768
+            : bytes.readFloatLE(offset);
+      }
+      samples[i] = sum / this.channels;
+    }
+
+    return samples;
+  }
+
+  private toRecord(
+    event: FeskStreamEvents["frame"] | FeskStreamEvents["message"],
+  ): FeskFrameRecord | FeskMessageRecord {
+    if (!("frame" in event)) {
+      return {
+        endSample: event.endSample,
+        endTime: event.endSample / this.sampleRate,
+        messageId: event.messageId,
+        fragmentCount: event.fragmentCount,
+        data: Buffer.from(event.data).toString("base64"),
+        text: decodeUtf8(event.data),
+      };
+    }
+
+    return {
+      startSample: event.startSample,
+      endSample: event.endSample,
+      startTime: event.startSample / this.sampleRate,
+      endTime: event.endSample / this.sampleRate,
+      payloadLength: event.frame.header.payloadLength,
+      payload: Buffer.from(event.frame.payload).toString("base64"),
+      text: decodeUtf8(event.frame.payload),
+      crc: event.frame.crc,
+    };
+  }
+}
+
+function decodeUtf8(bytes: Uint8Array): string | null {
+  try {
+    return new TextDecoder("utf-8", { fatal: true }).decode(bytes);
+  } catch {
+    return null;
+  }
+}
@@ -1,26 +1,71 @@
 import { ToneDetector } from "./toneDetector";
 import { PreambleDetector } from "./preambleDetector";
 import { SyncDetector } from "./syncDetector";
-import { AudioSample, Frame, SymbolDetection, ToneDetection } from "./types";
-import { FeskConfig, DEFAULT_CONFIG } from "./config";
+import { MessageReassembler } from "./messageReassembler";
+import { DecodePipeline, completeDecodeStrategies } from "./decodePipeline";
+import {
+  AudioSample,
+  DecodeCorrection,
+  DecodeFailureReason,
+  DecodeProgress,
+  DecodeProgressPhase,
+  DecodeResult,
+  DecodeRunOptions,
+  DecodeStrategyName,
+  Frame,
+  LocatedFrame,
+  LocatedMessage,
+  SymbolDetection,
+  ToneDetection,
+} from "./types";
+import {
+  FeskConfig,
+  DEFAULT_CONFIG,
+  HARDWARE_TONE_FREQUENCIES,
+} from "./config";
+import {
+  AbortError,
+  CrcMismatch,
+  DecodeError,
+  InvalidAudio,
+  LengthOutOfRange,
+  NoCarrier,
+  PreambleNotFound,
+  SyncMismatch,
+  Truncated,
+  throwIfAborted,
+} from "./decodeErrors";
 import { CanonicalTritDecoder } from "./utils/canonicalTritDecoder";
 import { LFSRDescrambler } from "./utils/lfsrDescrambler";
 import { CRC16 } from "./utils/crc16";
 import { Goertzel } from "./utils/goertzel";
+import { PilotSequence, PilotRemovalResult } from "./utils/pilotSequence";
+import { CanonicalTritEncoder } from "./utils/canonicalTritEncoder";
+import { ReedSolomon } from "./utils/reedSolomon";
+import { FrameHeaderCodec, FrameHeaderFields } from "./utils/frameHeader";
+import { ToneLikelihood, ToneLikelihoods } from "./utils/toneLikelihood";
+import { ListDecoder } from "./utils/listDecoder";
+import { FrequencyTracker } from "./utils/frequencyEstimator";
+import { SymbolTimingLoop } from "./audio/symbolTiming";
+import { ChirpDetection, ChirpSync } from "./audio/chirpSync";
 import {
+  CandidateSearchProgress,
   SymbolExtractor,
   ToneFrequencySet,
   StartTimeRange,
   SymbolExtractionCandidate,
 } from "./audio/symbolExtractor";
 
-const HARDWARE_TONE_FREQUENCIES: [number, number, number] = [1200, 1600, 2000];
+const ALIASED_TONE_FREQUENCIES: number[] = [4630, 9560, 14060];
 
-const ALIASED_TONE_FREQUENCIES: [number, number, number] = [4630, 9560, 14060];
+const HIGH_ALIASED_TONES: number[] = [5525, 9188, 14062];
 
-const HIGH_ALIASED_TONES: [number, number, number] = [5525, 9188, 14062];
+// Payload tone tracking: detection windows overlap heavily, so each one
+// moves the tones only slightly
+const WINDOW_TRACKING_GAIN = 0.01;
+const TRACKING_MIN_CONFIDENCE = 0.6;
 
-export interface SymbolExtractorDecodeOptions {
+export interface SymbolExtractorDecodeOptions extends DecodeRunOptions {
   frequencySets?: ToneFrequencySet[];
   symbolDurations?: number[];
   startTimeRange?: StartTimeRange;
@@ -30,13 +75,15 @@ export interface SymbolExtractorDecodeOptions {
   candidateOffsets?: number[];
   debugCollector?: (info: SymbolExtractorDebugInfo) => void;
   debugIncludeSequence?: boolean;
+  listSize?: number; // sequences the list decoder checks per candidate
+  minPosterior?: number; // minimum posterior for list-decoded frames
 }
 
 export interface DecoderState {
   phase: "searching" | "sync" | "payload";
   tritBuffer: number[];
   estimatedSymbolDuration: number;
-  estimatedFrequencies: [number, number, number];
+  estimatedFrequencies: number[];
   frameStartTime: number;
   tritCount: number;
 }
@@ -55,14 +102,68 @@ interface PreambleCandidate {
   score: number;
 }
 
+interface DecodeWinner {
+  strategy: DecodeStrategyName;
+  frequencySet: ToneFrequencySet;
+  symbolDuration: number;
+  startSample: number; // preamble start within the audio the strategy was given
+  preambleBitErrors: number | null;
+  syncBitErrors: number | null;
+  patternCorrections: number; // preamble/sync symbols repaired before decoding
+  clockRatio: number | null; // set when timing recovery tracked the symbol period
+  chirpEndSample?: number; // where the sync word starts, when a chirp precedes it
+}
+
+type AttemptError = Exclude<DecodeError, NoCarrier | InvalidAudio>;
+
+// Furthest a failed symbol sequence got towards a valid frame
+interface DecodeAttempt {
+  error: AttemptError;
+  preambleBitErrors: number;
+  syncBitErrors: number;
+}
+
+// Chunked decode of the audio from an offset at one symbol duration
+interface ChunkedAttempt {
+  data: Float32Array;
+  offsetSamples: number;
+  symbolDuration: number;
+}
+
+// Where the incremental state machine locked onto its last frame
+interface FrameLock {
+  startTime: number; // ms, on the chunk timeline
+  symbolDuration: number;
+  preambleBitErrors: number;
+  syncBitErrors: number | null;
+}
+
+const ATTEMPT_RANK: Record<AttemptError["kind"], number> = {
+  preambleNotFound: 0,
+  syncMismatch: 1,
+  lengthOutOfRange: 2,
+  truncated: 2,
+  crcMismatch: 3,
+};
+
+// A frame needs at least its header, one payload byte and the CRC
+const MIN_FRAME_BYTES = 5;
+
+// Strategies run by the symbol extractor pipeline
+const SYMBOL_EXTRACTOR_STRATEGIES: DecodeStrategyName[] = [
+  "symbolExtractor",
+  "listDecoding",
+  "chirpSync",
+];
+
 interface SymbolExtractorTelemetry {
   frequencySet: string;
   symbolDuration: number;
-  startTime: number;
+  startTime: number; // seconds
 }
 
 export interface SymbolExtractorDebugInfo {
-  stage: "raw" | "corrected" | "mutated";
+  stage: "raw" | "corrected" | "listDecoded";
   frequencySet: string;
   symbolDuration: number;
   startTime: number;
@@ -72,7 +173,9 @@ export interface SymbolExtractorDebugInfo {
   syncValid: boolean;
   frameValid: boolean;
   payloadLength: number;
-  errors: string[];
+  errors: DecodeError[];
+  failureReason: DecodeFailureReason | null;
+  notes?: string[]; // list decoding origin, corrections and posterior
   score?: number;
   sequence?: number[];
 }
@@ -90,13 +193,32 @@ export class FeskDecoder {
   private lastCommittedSymbolTime: number = 0;
   private timingOptimized: boolean = false;
   private activeSymbolDuration!: number;
-  private baseToneFrequencies: [number, number, number];
-  private lastSymbolExtractorInfo: SymbolExtractorTelemetry | null = null;
+  private baseToneFrequencies: number[];
+  private activeFrequencySet: ToneFrequencySet;
+  private decodeWinner: DecodeWinner | null = null;
+  private bestAttempt: DecodeAttempt | null = null;
+  private lastDecodeResult: DecodeResult | null = null; // backs getLastSymbolExtractorInfo
+  private payloadError: LengthOutOfRange | Truncated | null = null;
+  private deadline: number | null = null; // Date.now() time the search stops at
+  private signal: AbortSignal | null = null;
+  private onProgress: ((progress: DecodeProgress) => void) | null = null;
+  private candidatesTried = 0; // this run's, for progress reports
+  private bestScore: number | null = null;
+  private budgetExhausted = false;
+  private frameLock: FrameLock | null = null;
+  private frequencyTracker: FrequencyTracker | null = null; // from the preamble estimate
+  private frameTritCounts: Set<number> | null = null;
+  // Chirps found in each audio buffer while shareChirpDetection runs
+  private chirpDetections: Map<Float32Array, ChirpDetection | null> | null =
+    null;
+  private readonly toneCount: number; // M, the radix of payload symbols
+  private readonly preambleSymbols: number[]; // preamble bits as raw symbols
+  private readonly syncSymbols: number[];
 
   constructor(config: FeskConfig = DEFAULT_CONFIG) {
     this.config = {
       ...config,
-      toneFrequencies: [...config.toneFrequencies] as [number, number, number],
+      toneFrequencies: [...config.toneFrequencies],
       preambleBits: [...config.preambleBits],
       barker13: [...config.barker13],
       pilotSequence: [...config.pilotSequence] as [number, number],
@@ -113,26 +235,28 @@ export class FeskDecoder {
         : undefined,
     };
 
+    this.toneCount = this.config.toneFrequencies.length;
+    this.preambleSymbols = this.config.preambleBits.map((bit) =>
+      bit === 1 ? 2 : 0,
+    );
+    this.syncSymbols = this.config.barker13.map((bit) => (bit === 1 ? 2 : 0));
+
     this.toneDetector = new ToneDetector(this.config);
     this.preambleDetector = new PreambleDetector(this.config);
     this.syncDetector = new SyncDetector(this.config);
 
-    this.baseToneFrequencies = [...this.config.toneFrequencies] as [
-      number,
-      number,
-      number,
-    ];
+    this.baseToneFrequencies = [...this.config.toneFrequencies];
+    this.activeFrequencySet = {
+      name: "default",
+      tones: [...this.baseToneFrequencies],
+    };
     this.setSymbolDuration(this.config.symbolDuration);
 
     this.state = {
       phase: "searching",
       tritBuffer: [],
       estimatedSymbolDuration: this.activeSymbolDuration,
-      estimatedFrequencies: [...this.config.toneFrequencies] as [
-        number,
-        number,
-        number,
-      ],
+      estimatedFrequencies: [...this.config.toneFrequencies],
       frameStartTime: 0,
       tritCount: 0,
     };
@@ -144,18 +268,32 @@ export class FeskDecoder {
     this.preambleDetector.setSymbolDuration(symbolDuration);
   }
 
-  private setToneFrequencies(frequencies: [number, number, number]): void {
-    const updated = [...frequencies] as [number, number, number];
+  private setToneFrequencies(frequencySet: ToneFrequencySet): void {
+    const updated = [...frequencySet.tones];
+    this.activeFrequencySet = { name: frequencySet.name, tones: updated };
     this.config.toneFrequencies = updated;
     this.state.estimatedFrequencies = updated;
   }
 
+  private restoreBaseToneFrequencies(): void {
+    this.setToneFrequencies({
+      name: "default",
+      tones: this.baseToneFrequencies,
+    });
+  }
+
   private getSymbolExtractorFrequencySets(): ToneFrequencySet[] {
-    const frequencySets: ToneFrequencySet[] = [
-      {
-        name: "default",
-        tones: [...this.baseToneFrequencies] as [number, number, number],
-      },
+    const defaultSet = {
+      name: "default",
+      tones: [...this.baseToneFrequencies],
+    };
+    // The hardware and aliased tone sets are HT3 triads
+    if (this.toneCount !== 3) {
+      return [defaultSet];
+    }
+
+    return [
+      defaultSet,
       {
         name: "hardware",
         tones: [...HARDWARE_TONE_FREQUENCIES],
@@ -165,19 +303,6 @@ export class FeskDecoder {
         tones: [...HIGH_ALIASED_TONES],
       },
     ];
-
-    const scaleFactors = [0.985, 0.99, 0.995, 1.005, 1.01, 1.015];
-    for (const factor of scaleFactors) {
-      const scaled = this.baseToneFrequencies.map((freq) =>
-        Number((freq * factor).toFixed(2)),
-      ) as [number, number, number];
-      frequencySets.push({
-        name: `scaled_${factor.toFixed(3)}`,
-        tones: scaled,
-      });
-    }
-
-    return frequencySets;
   }
 
   /**
@@ -217,6 +342,17 @@ export class FeskDecoder {
     audioData: Float32Array,
     sampleRate: number,
     chunkSizeMs: number = 100,
+    options: DecodeRunOptions = {},
+  ): Promise<Frame | null> {
+    return this.run(options, () =>
+      this.processAudioBasic(audioData, sampleRate, chunkSizeMs),
+    );
+  }
+
+  private async processAudioBasic(
+    audioData: Float32Array,
+    sampleRate: number,
+    chunkSizeMs: number,
   ): Promise<Frame | null> {
     // First try the standard incremental approach
     const standardResult = await this.tryProcessAudioWithOffset(
@@ -264,8 +400,11 @@ export class FeskDecoder {
       // For each symbol duration, try different timing offsets
 
       for (const offsetMs of offsetsToTest) {
+        await this.yieldForAbort();
+        if (this.stopSearching()) break;
         const offsetSamples = Math.floor((offsetMs / 1000) * sampleRate);
         const extractedSymbols = [];
+        let firstSymbolIndex = 0;
         const maxSymbols = 350; // Process enough symbols for extremely long messages
 
         let leadingSilenceSymbols = 0;
@@ -294,8 +433,11 @@ export class FeskDecoder {
             );
 
             // Map frequency to symbol
-            const symbol = this.toneToSymbol(bestDetection.frequency);
+            const symbol = this.toneToSymbol(bestDetection);
             if (symbol !== null) {
+              if (extractedSymbols.length === 0) {
+                firstSymbolIndex = i;
+              }
               extractedSymbols.push(symbol);
             }
             leadingSilenceSymbols = 0;
@@ -313,18 +455,22 @@ export class FeskDecoder {
         }
 
         // If we got enough symbols, try to decode them
-        if (extractedSymbols.length >= 25) {
+        if (extractedSymbols.length >= this.headerSymbolCount()) {
           const decodeResult =
             this.decodeCompleteTransmission(extractedSymbols);
 
           if (decodeResult.frame && decodeResult.frame.isValid) {
+            this.recordWinner("fixedGrid", {
+              startSample: offsetSamples + firstSymbolIndex * symbolSamples,
+              symbolDuration: symbolDurationMs / 1000,
+              ...this.patternBitErrors(extractedSymbols),
+            });
             return decodeResult.frame;
           }
         }
       }
     }
 
-    this.lastSymbolExtractorInfo = null;
     return null;
   }
 
@@ -360,6 +506,7 @@ export class FeskDecoder {
       const frame = this.processAudio(audioSample);
 
       if (frame && frame.isValid) {
+        this.recordFrameLock(offsetSamples, sampleRate);
         return frame;
       }
 
@@ -372,6 +519,7 @@ export class FeskDecoder {
       // Yield to event loop every 10 chunks to keep UI responsive
       if (chunkCount % 10 === 0) {
         await new Promise((resolve) => setTimeout(resolve, 0));
+        if (this.stopSearching()) break;
       }
     }
 
@@ -379,6 +527,7 @@ export class FeskDecoder {
     if (this.state.tritBuffer && this.state.tritBuffer.length >= 20) {
       const frame = this.attemptDecode();
       if (frame && frame.isValid) {
+        this.recordFrameLock(offsetSamples, sampleRate);
         return frame;
       }
     }
@@ -391,26 +540,35 @@ export class FeskDecoder {
    * @param wavPath Path to WAV file
    * @param offsetSec Audio offset in seconds (default: 0)
    * @param chunkSizeMs Processing chunk size in milliseconds (default: 100ms)
-   * @returns Promise that resolves with decoded frame or null
+   * @returns Promise that resolves with the decode result; its start time
+   * counts from the start of the file
    */
   async processWavFile(
     wavPath: string,
     offsetSec: number = 0,
     chunkSizeMs: number = 100,
-  ): Promise<Frame | null> {
+    options: DecodeRunOptions = {},
+  ): Promise<DecodeResult> {
     const { WavReader } = await import("./utils/wavReader");
     const audioData = await WavReader.readWavFileWithOffset(wavPath, offsetSec);
-    return this.processAudioComplete(
+    const result = await this.processAudioComplete(
       audioData.data,
       audioData.sampleRate,
       chunkSizeMs,
+      true,
+      options,
     );
+    return {
+      ...result,
+      startTime:
+        result.startTime === null ? null : result.startTime + offsetSec,
+    };
   }
 
   async decodeWavFileWithSymbolExtractor(
     wavPath: string,
     options: SymbolExtractorDecodeOptions = {},
-  ): Promise<Frame | null> {
+  ): Promise<DecodeResult> {
     const { WavReader } = await import("./utils/wavReader");
     const audio = await WavReader.readWavFile(wavPath);
     return this.decodeWithSymbolExtractor(
@@ -428,14 +586,33 @@ export class FeskDecoder {
     audioData: Float32Array,
     sampleRate: number,
     options: SymbolExtractorDecodeOptions = {},
-  ): Promise<Frame | null> {
+  ): Promise<DecodeResult> {
     return this.decodeWithSymbolExtractor(audioData, sampleRate, options);
   }
 
+  /**
+   * Tone set, symbol duration and preamble start of the last frame the
+   * symbol extractor decoded
+   * @deprecated Read frequencySet, symbolDuration and startTime from the
+   * DecodeResult the decode call returns
+   */
   getLastSymbolExtractorInfo(): SymbolExtractorTelemetry | null {
-    return this.lastSymbolExtractorInfo
-      ? { ...this.lastSymbolExtractorInfo }
-      : null;
+    const result = this.lastDecodeResult;
+    if (
+      !result?.frame?.isValid ||
+      !result.strategy ||
+      !SYMBOL_EXTRACTOR_STRATEGIES.includes(result.strategy) ||
+      result.frequencySet === null ||
+      result.symbolDuration === null ||
+      result.startTime === null
+    ) {
+      return null;
+    }
+    return {
+      frequencySet: result.frequencySet,
+      symbolDuration: result.symbolDuration,
+      startTime: result.startTime,
+    };
   }
 
   /**
@@ -512,6 +689,32 @@ export class FeskDecoder {
     return null;
   }
 
+  /**
+   * Find where the energy burst containing a sample ends
+   * @returns First sample after the burst, or the audio length
+   */
+  private findTransmissionEnd(
+    audioData: Float32Array,
+    sampleRate: number,
+    fromSample: number,
+    energyThreshold: number = 0.01,
+  ): number {
+    const windowSize = Math.floor(sampleRate * 0.025);
+    const stepSize = Math.floor(sampleRate * 0.005);
+    const requiredQuietWindows = Math.ceil((0.08 * sampleRate) / stepSize);
+
+    let consecutiveQuiet = 0;
+    for (let i = fromSample; i < audioData.length - windowSize; i += stepSize) {
+      if (this.calculateRms(audioData, i, windowSize) > energyThreshold) {
+        consecutiveQuiet = 0;
+      } else if (++consecutiveQuiet >= requiredQuietWindows) {
+        return i - (consecutiveQuiet - 1) * stepSize;
+      }
+    }
+
+    return audioData.length;
+  }
+
   /**
    * Find the start of transmission in a WAV file
    * @param wavPath Path to WAV file
@@ -648,7 +851,17 @@ export class FeskDecoder {
       this.state.estimatedSymbolDuration =
         preambleResult.estimatedSymbolDuration;
       this.state.estimatedFrequencies = preambleResult.estimatedFrequencies;
+      this.frequencyTracker = new FrequencyTracker(
+        preambleResult.estimatedFrequencies,
+        WINDOW_TRACKING_GAIN,
+      );
       this.state.frameStartTime = preambleResult.startTime;
+      this.frameLock = {
+        startTime: preambleResult.startTime,
+        symbolDuration: preambleResult.estimatedSymbolDuration,
+        preambleBitErrors: preambleResult.bitErrors,
+        syncBitErrors: null,
+      };
       this.syncDetector.reset();
     }
 
@@ -666,16 +879,26 @@ export class FeskDecoder {
           current.confidence > best.confidence ? current : best,
       );
 
-      const symbol = this.toneToSymbol(bestDetection.frequency);
+      const symbol = this.toneToSymbol(bestDetection);
       if (symbol !== null) {
         const symbolDetection: SymbolDetection = {
           symbol,
           confidence: bestDetection.confidence,
           timestamp,
+          likelihoods:
+            bestDetection.likelihoods ??
+            ToneLikelihood.fromHardDecision(
+              symbol,
+              bestDetection.confidence,
+              this.toneCount,
+            ),
         };
 
         const syncResult = this.syncDetector.addSymbol(symbolDetection);
         if (syncResult?.detected) {
+          if (this.frameLock) {
+            this.frameLock.syncBitErrors = syncResult.bitErrors;
+          }
           this.state.phase = "payload";
           this.state.tritBuffer = [];
           this.state.tritCount = 0;
@@ -697,8 +920,16 @@ export class FeskDecoder {
     const candidates: SymbolCandidate[] = [];
 
     for (const detection of toneDetections) {
-      const symbol = this.toneToSymbol(detection.frequency);
+      const symbol = this.toneToSymbol(detection);
       if (symbol !== null) {
+        if (
+          this.frequencyTracker &&
+          detection.measuredFrequency !== undefined &&
+          detection.confidence >= TRACKING_MIN_CONFIDENCE
+        ) {
+          this.frequencyTracker.update(symbol, detection.measuredFrequency);
+          this.state.estimatedFrequencies = this.frequencyTracker.getTones();
+        }
         candidates.push({
           symbol,
           confidence: detection.confidence,
@@ -716,8 +947,8 @@ export class FeskDecoder {
       (candidate) => timestamp - candidate.timestamp < windowTimeMs,
     );
 
-    // Commit symbol every 100ms (symbol period)
-    const symbolPeriodMs = 100;
+    // Commit one symbol per symbol period, however the audio is chunked
+    const symbolPeriodMs = this.activeSymbolDuration * 1000;
     if (timestamp - this.lastCommittedSymbolTime >= symbolPeriodMs) {
       const committedSymbol = this.performMajorityVoting(timestamp);
 
@@ -750,7 +981,7 @@ export class FeskDecoder {
               current.confidence > best.confidence ? current : best,
           );
 
-          const symbol = this.toneToSymbol(bestDetection.frequency);
+          const symbol = this.toneToSymbol(bestDetection);
           if (symbol !== null) {
             this.state.tritBuffer.push(symbol);
             this.state.tritCount++;
@@ -825,72 +1056,126 @@ export class FeskDecoder {
   }
 
   private attemptDecode(): Frame | null {
-    try {
-      // Apply differential decoding to the trit buffer before converting to bytes
-      const decodedTrits = this.differentialDecode(this.state.tritBuffer);
+    return this.decodePayloadSymbols(this.state.tritBuffer);
+  }
 
-      // Convert trits to bytes using canonical MS-first algorithm
-      const decoder = new CanonicalTritDecoder();
-      for (const trit of decodedTrits) {
-        decoder.addTrit(trit);
+  /**
+   * Decode received payload symbols (everything after preamble and sync)
+   * Pilots are stripped before differential decoding when they are present;
+   * detection is automatic so frames from pilot-less transmitters still decode.
+   * A versioned header settles the question: a reading whose pilots flag
+   * disagrees with how it was read is dropped, one that agrees is final.
+   */
+  private decodePayloadSymbols(payloadSymbols: number[]): Frame | null {
+    const pilots = new PilotSequence(
+      this.config.pilotSequence,
+      this.config.pilotInterval,
+    );
+    const removal = pilots.remove(payloadSymbols);
+
+    // Pilots go first when expected or when the first slot holds one, and
+    // last otherwise, for versioned frames flagging them
+    const interpretations: Array<PilotRemovalResult | null> = [null];
+    if (removal.slotIndices.length > 0) {
+      if (this.config.pilotsEnabled || removal.slotMismatches[0] === 0) {
+        interpretations.unshift(removal);
+      } else {
+        interpretations.push(removal);
       }
+    }
 
-      const allBytes = decoder.getBytes();
-      if (allBytes.length < 4) {
-        // Need at least header + minimal payload + CRC
-        return null;
-      }
+    let fallbackFrame: Frame | null = null;
+    this.payloadError = null;
 
-      // Parse header to get payload length
-      const descrambler = new LFSRDescrambler();
-      const headerHi = descrambler.descrambleByte(allBytes[0]);
-      const headerLo = descrambler.descrambleByte(allBytes[1]);
-      const payloadLength = (headerHi << 8) | headerLo;
+    for (const interpretation of interpretations) {
+      const trits = interpretation ? interpretation.trits : payloadSymbols;
+      const frame = this.decodeTritsInternal(this.differentialDecode(trits));
+      if (!frame) continue;
 
-      // Validate payload length and total size (match TX library limit of 256 bytes)
-      if (
-        payloadLength <= 0 ||
-        payloadLength > 256 ||
-        allBytes.length < 2 + payloadLength + 2
-      ) {
-        return null; // Not enough data yet or invalid
+      const flags = frame.header.flags;
+      if (flags && flags.pilots !== (interpretation !== null)) continue;
+
+      if (interpretation) {
+        const report = pilots.report(
+          interpretation,
+          this.frameDataTrits(frame),
+        );
+        if (report.pilotCount > 0) {
+          frame.pilots = report;
+        }
       }
 
-      // Descramble payload
-      const payloadScrambled = allBytes.slice(2, 2 + payloadLength);
-      const payload = new Uint8Array(payloadLength);
-      for (let i = 0; i < payloadLength; i++) {
-        payload[i] = descrambler.descrambleByte(payloadScrambled[i]);
+      if (frame.isValid || flags) {
+        return frame;
+      }
+      if (!fallbackFrame) {
+        fallbackFrame = frame;
       }
+    }
+
+    return fallbackFrame;
+  }
 
-      // Extract CRC (unscrambled in new format)
-      const crcBytes = allBytes.slice(2 + payloadLength, 2 + payloadLength + 2);
-      const receivedCrc = (crcBytes[0] << 8) | crcBytes[1];
-      const calculatedCrc = CRC16.calculate(payload);
+  // Payload trits carrying the frame bytes, without pilots
+  private frameDataTrits(frame: Frame): number {
+    const frameLength =
+      FrameHeaderCodec.lengthOf(frame.header) + frame.header.payloadLength + 2;
+    return frame.fec
+      ? CanonicalTritEncoder.tritCountForBlockwise(
+          new ReedSolomon(frame.fec.parityBytes).encodedLength(frameLength),
+          CanonicalTritEncoder.FEC_BLOCK_BYTES,
+          this.toneCount,
+        )
+      : CanonicalTritEncoder.tritCountForBytes(frameLength, this.toneCount);
+  }
 
-      return {
-        header: { payloadLength },
-        payload,
-        crc: receivedCrc,
-        isValid: receivedCrc === calculatedCrc,
-      };
-    } catch {
-      // Decoding failed, need more data
-      return null;
+  // Preamble plus sync, the symbols before the payload
+  private headerSymbolCount(): number {
+    return this.preambleSymbols.length + this.syncSymbols.length;
+  }
+
+  // Symbols the whole transmission of a frame spans, preamble to last pilot
+  private frameSymbolCount(frame: Frame): number {
+    return (
+      this.headerSymbolCount() +
+      this.frameDataTrits(frame) +
+      (frame.pilots?.pilotCount ?? 0) * this.config.pilotSequence.length
+    );
+  }
+
+  // Samples from a frame's first symbol or chirp to its last symbol
+  private frameSampleCount(
+    frame: Frame,
+    symbolDuration: number,
+    sampleRate: number,
+  ): number {
+    const chirpSync = this.config.chirpSync;
+    let symbols = this.frameSymbolCount(frame);
+    let chirpSamples = 0;
+    if (chirpSync) {
+      if (chirpSync.placement === "replacePreamble") {
+        symbols -= this.preambleSymbols.length;
+      }
+      // The chirp stretches with the symbols under a clock mismatch
+      chirpSamples =
+        (new ChirpSync(chirpSync).sampleCount(sampleRate) * symbolDuration) /
+        this.config.symbolDuration;
     }
+    return symbols * symbolDuration * sampleRate + chirpSamples;
   }
 
   /**
    * Apply differential decoding to a sequence of trits
-   * Reverses the differential encoding: decoded = (encoded - last_encoded + 3) % 3
+   * Reverses the differential encoding: decoded = (encoded - last_encoded + M) % M
    */
   private differentialDecode(encodedTrits: number[]): number[] {
+    const radix = this.toneCount;
     const decodedTrits: number[] = [];
     let lastEncoded = 0; // Initialize to 0 as per TX implementation
 
     for (const encodedTrit of encodedTrits) {
-      // Reverse differential encoding: decoded = (encoded - last_encoded + 3) % 3
-      const decodedTrit = (encodedTrit - lastEncoded + 3) % 3;
+      // Reverse differential encoding: decoded = (encoded - last_encoded + M) % M
+      const decodedTrit = (encodedTrit - lastEncoded + radix) % radix;
       decodedTrits.push(decodedTrit);
       lastEncoded = encodedTrit;
     }
@@ -898,15 +1183,30 @@ export class FeskDecoder {
     return decodedTrits;
   }
 
-  private toneToSymbol(frequency: number): number | null {
-    const [f0, f1, f2] = this.state.estimatedFrequencies;
-    const tolerance = 50; // Hz tolerance
+  /**
+   * Nearest estimated tone to a detection's measured frequency; further
+   * than half the closest tone spacing from every tone maps to null
+   */
+  private toneToSymbol(detection: ToneDetection): number | null {
+    const frequency = detection.measuredFrequency ?? detection.frequency;
+    const tones = this.state.estimatedFrequencies;
 
-    if (Math.abs(frequency - f0) < tolerance) return 0;
-    if (Math.abs(frequency - f1) < tolerance) return 1;
-    if (Math.abs(frequency - f2) < tolerance) return 2;
+    let nearest = 0;
+    for (let i = 1; i < tones.length; i++) {
+      if (
+        Math.abs(frequency - tones[i]) < Math.abs(frequency - tones[nearest])
+      ) {
+        nearest = i;
+      }
+    }
+    let spacing = Infinity;
+    for (let i = 0; i < tones.length; i++) {
+      for (let j = i + 1; j < tones.length; j++) {
+        spacing = Math.min(spacing, Math.abs(tones[j] - tones[i]));
+      }
+    }
 
-    return null;
+    return Math.abs(frequency - tones[nearest]) < spacing / 2 ? nearest : null;
   }
 
   getState(): DecoderState {
@@ -994,68 +1294,207 @@ export class FeskDecoder {
   }
 
   private decodeTritsInternal(trits: number[]): Frame | null {
+    const frame = this.decodeCanonicalTrits(trits);
+    const fec = frame?.header.flags?.fec;
+    if (frame && (frame.isValid || fec === false)) {
+      return frame;
+    }
+
+    // FEC frames are packed blockwise, so they are only tried when the
+    // whole-frame interpretation does not yield a valid frame, nor a
+    // versioned header saying the frame has no FEC
+    return this.decodeFecTrits(trits) || (fec ? null : frame);
+  }
+
+  private decodeCanonicalTrits(trits: number[]): Frame | null {
     try {
       // Convert trits to bytes using canonical MS-first algorithm
       // Use chunked approach for long sequences to avoid mathematical precision issues
       const allBytes =
         trits.length > 50
-          ? CanonicalTritDecoder.decodeLongSequence(trits)
+          ? CanonicalTritDecoder.decodeLongSequence(trits, this.toneCount)
           : (() => {
-              const decoder = new CanonicalTritDecoder();
+              const decoder = new CanonicalTritDecoder(this.toneCount);
               for (const trit of trits) {
                 decoder.addTrit(trit);
               }
               return decoder.getBytes();
             })();
-      if (allBytes.length < 4) {
+      if (allBytes.length < 2) {
+        throw new Truncated(allBytes.length, MIN_FRAME_BYTES);
+      }
+
+      return this.parseDetectedFrame(allBytes);
+    } catch (error) {
+      this.recordPayloadError(error);
+      return null;
+    }
+  }
+
+  /**
+   * Correct a Reed-Solomon protected frame before parsing it
+   * The header's length word signals the parity length; the configured
+   * parity length covers headers that arrive corrupted. The frame must span
+   * exactly the received trits, since the parity position follows from the
+   * byte count, and a versioned header must flag FEC.
+   */
+  private decodeFecTrits(trits: number[]): Frame | null {
+    try {
+      const encoded = CanonicalTritDecoder.decodeBlockwise(
+        trits,
+        CanonicalTritEncoder.FEC_BLOCK_BYTES,
+        this.toneCount,
+      );
+      if (!encoded || encoded.length < 4) {
         return null;
       }
 
-      // Descramble header+payload continuously (as per TX algorithm)
-      // The TX scrambler is continuous, so RX must descramble in one pass
-      const descrambler = new LFSRDescrambler();
+      // The length word sits at byte 0 of a legacy header, byte 1 of a
+      // versioned one
+      const plainHeader = this.descrambleHeader(encoded);
+      const headerParities = [0, 1].map(
+        (offset) => ((plainHeader[offset] << 8) | plainHeader[offset + 1]) >> 9,
+      );
 
-      // Get payload length first to know how much to descramble
-      const tempDescrambler = new LFSRDescrambler();
-      const headerHi = tempDescrambler.descrambleByte(allBytes[0]);
-      const headerLo = tempDescrambler.descrambleByte(allBytes[1]);
-      const payloadLength = (headerHi << 8) | headerLo;
+      const parityCandidates = Array.from(
+        new Set([...headerParities, this.config.fecParityBytes ?? 0]),
+      ).filter((parity) => parity > 0);
 
-      // Validate payload length and total size (match TX library limit of 256 bytes)
-      if (
-        payloadLength <= 0 ||
-        payloadLength > 256 ||
-        allBytes.length < 2 + payloadLength + 2
-      ) {
-        return null;
+      for (const parityBytes of parityCandidates) {
+        const result = new ReedSolomon(parityBytes).decodeBlocks(encoded);
+        if (!result || result.data.length < 4) continue;
+
+        // The corrected header must agree with the layout it was decoded with
+        let frame: Frame | null;
+        try {
+          frame = this.parseDetectedFrame(
+            result.data,
+            (fields) =>
+              fields.header.flags?.fec !== false &&
+              fields.parityBytes === parityBytes &&
+              fields.length + fields.header.payloadLength + 2 ===
+                result.data.length,
+          );
+        } catch (error) {
+          this.recordPayloadError(error);
+          continue;
+        }
+        if (!frame) continue;
+        frame.fec = { parityBytes, correctedBytes: result.correctedBytes };
+        return frame;
       }
 
-      // Descramble header+payload continuously
-      const headerAndPayloadScrambled = allBytes.slice(0, 2 + payloadLength);
-      const headerAndPayload = new Uint8Array(2 + payloadLength);
-      for (let i = 0; i < headerAndPayload.length; i++) {
-        headerAndPayload[i] = descrambler.descrambleByte(
-          headerAndPayloadScrambled[i],
-        );
+      return null;
+    } catch (error) {
+      this.recordPayloadError(error);
+      return null;
+    }
+  }
+
+  // Keeps the first frame-level error of a payload decode; anything else
+  // thrown while unpacking trits just means they do not form a frame
+  private recordPayloadError(error: unknown): void {
+    if (
+      (error instanceof LengthOutOfRange || error instanceof Truncated) &&
+      !this.payloadError
+    ) {
+      this.payloadError = error;
+    }
+  }
+
+  /**
+   * Parse frame bytes under each reading of their header, preferring one
+   * whose CRC checks: the detected layout first, then the legacy one, since
+   * a legacy header can pass for a versioned one by chance
+   * @param accept Filters the header readings tried
+   * @throws The first parse error when no reading yields a frame
+   */
+  private parseDetectedFrame(
+    allBytes: Uint8Array,
+    accept: (fields: FrameHeaderFields) => boolean = () => true,
+  ): Frame | null {
+    const plainHeader = this.descrambleHeader(allBytes);
+    const tritDecoder = new CanonicalTritDecoder(this.toneCount);
+    const readings = [tritDecoder.readHeader(plainHeader)];
+    if (!tritDecoder.isLegacyMode()) {
+      readings.push(FrameHeaderCodec.parseLegacy(plainHeader));
+    }
+
+    let fallbackFrame: Frame | null = null;
+    let firstError: unknown = null;
+    for (const fields of readings.filter(accept)) {
+      try {
+        const frame = this.parseFrameBytes(allBytes, fields);
+        if (frame.isValid) {
+          return frame;
+        }
+        fallbackFrame ??= frame;
+      } catch (error) {
+        firstError ??= error;
       }
+    }
+    if (!fallbackFrame && firstError) {
+      throw firstError;
+    }
+    return fallbackFrame;
+  }
 
-      // Extract payload (skip header)
-      const payload = headerAndPayload.slice(2);
+  // Plain bytes of the longest header the frame bytes can start with
+  private descrambleHeader(allBytes: Uint8Array): Uint8Array {
+    const descrambler = new LFSRDescrambler();
+    return allBytes
+      .slice(0, FrameHeaderCodec.VERSIONED_LENGTH)
+      .map((byte) => descrambler.descrambleByte(byte));
+  }
 
-      // Extract CRC (unscrambled in new format)
-      const crcBytes = allBytes.slice(2 + payloadLength, 2 + payloadLength + 2);
-      const receivedCrc = (crcBytes[0] << 8) | crcBytes[1];
-      const calculatedCrc = CRC16.calculate(payload);
+  /**
+   * Descramble header and payload and check the CRC
+   * @param allBytes Frame bytes starting with the scrambled header
+   * @throws LengthOutOfRange or Truncated when the bytes cannot hold the frame
+   */
+  private parseFrameBytes(
+    allBytes: Uint8Array,
+    { header, length: headerLength }: FrameHeaderFields,
+  ): Frame {
+    const payloadLength = header.payloadLength;
+    const frameLength = headerLength + payloadLength + 2;
 
-      return {
-        header: { payloadLength },
-        payload,
-        crc: receivedCrc,
-        isValid: receivedCrc === calculatedCrc,
-      };
-    } catch {
-      return null;
+    // Validate payload length and total size (match TX library limit of 256 bytes)
+    if (payloadLength <= 0 || payloadLength > 256) {
+      throw new LengthOutOfRange(payloadLength);
+    }
+    if (allBytes.length < frameLength) {
+      throw new Truncated(allBytes.length, frameLength);
     }
+
+    // Descramble header+payload continuously (as per TX algorithm)
+    // The TX scrambler is continuous, so RX must descramble in one pass
+    const descrambler = new LFSRDescrambler();
+    const headerAndPayloadScrambled = allBytes.slice(
+      0,
+      headerLength + payloadLength,
+    );
+    const headerAndPayload = new Uint8Array(headerLength + payloadLength);
+    for (let i = 0; i < headerAndPayload.length; i++) {
+      headerAndPayload[i] = descrambler.descrambleByte(
+        headerAndPayloadScrambled[i],
+      );
+    }
+
+    // Extract payload (skip header)
+    const payload = headerAndPayload.slice(headerLength);
+
+    // Extract CRC (unscrambled in new format)
+    const crcBytes = allBytes.slice(frameLength - 2, frameLength);
+    const receivedCrc = (crcBytes[0] << 8) | crcBytes[1];
+    const calculatedCrc = CRC16.calculate(payload);
+
+    return {
+      header,
+      payload,
+      crc: receivedCrc,
+      isValid: receivedCrc === calculatedCrc,
+    };
   }
 
   reset(): void {
@@ -1063,11 +1502,7 @@ export class FeskDecoder {
       phase: "searching",
       tritBuffer: [],
       estimatedSymbolDuration: this.activeSymbolDuration,
-      estimatedFrequencies: [...this.config.toneFrequencies] as [
-        number,
-        number,
-        number,
-      ],
+      estimatedFrequencies: [...this.config.toneFrequencies],
       frameStartTime: 0,
       tritCount: 0,
     };
@@ -1075,6 +1510,7 @@ export class FeskDecoder {
     this.symbolCandidates = [];
     this.lastCommittedSymbolTime = 0;
     this.timingOptimized = false;
+    this.frequencyTracker = null;
     this.preambleDetector.reset();
     this.syncDetector.reset();
   }
@@ -1082,67 +1518,88 @@ export class FeskDecoder {
   /**
    * Decode a complete FESK transmission including preamble, sync, and payload validation
    * This is the primary method for decoding complete symbol sequences
+   * Each failed check adds a typed error; errors collect across all checks,
+   * so a valid frame still reports the preamble or sync mismatches it passed
    */
   decodeCompleteTransmission(symbols: number[]): {
     frame: Frame | null;
     preambleValid: boolean;
     syncValid: boolean;
-    errors: string[];
+    errors: DecodeError[];
   } {
-    const errors: string[] = [];
+    return this.decodeTransmission(symbols);
+  }
 
-    if (symbols.length < 25) {
-      errors.push(
-        `Insufficient symbols: expected at least 25, got ${symbols.length}`,
-      );
+  /**
+   * decodeCompleteTransmission for a sequence whose preamble and sync may
+   * have been repaired; diagnostics judge the symbols actually received
+   */
+  private decodeTransmission(
+    symbols: number[],
+    received: number[] = symbols,
+  ): {
+    frame: Frame | null;
+    preambleValid: boolean;
+    syncValid: boolean;
+    errors: DecodeError[];
+  } {
+    const errors: DecodeError[] = [];
+
+    const preambleLength = this.preambleSymbols.length;
+    const headerLength = this.headerSymbolCount();
+    if (symbols.length < headerLength) {
+      errors.push(new Truncated(0, MIN_FRAME_BYTES));
       return { frame: null, preambleValid: false, syncValid: false, errors };
     }
 
-    // Validate preamble (first 12 symbols)
-    const preambleBits = symbols.slice(0, 12).map((s) => (s === 2 ? 1 : 0));
-    const expectedPreamble = [1, 0, 1, 0, 1, 0, 1, 0, 1, 0, 1, 0];
+    // Validate preamble
+    const preambleBits = symbols
+      .slice(0, preambleLength)
+      .map((s) => (s === 2 ? 1 : 0));
+    const expectedPreamble = this.config.preambleBits;
     const preambleValid =
       JSON.stringify(preambleBits) === JSON.stringify(expectedPreamble);
 
     if (!preambleValid) {
-      errors.push(
-        `Invalid preamble: expected ${expectedPreamble}, got ${preambleBits}`,
-      );
+      errors.push(new PreambleNotFound());
     }
 
-    // Validate sync pattern (symbols 12-24, 13 symbols total)
-    const syncBits = symbols.slice(12, 25).map((s) => (s === 2 ? 1 : 0));
-    const expectedSync = [1, 1, 1, 1, 1, 0, 0, 1, 1, 0, 1, 0, 1];
+    // Validate sync pattern (the symbols right after the preamble)
+    const syncBits = symbols
+      .slice(preambleLength, headerLength)
+      .map((s) => (s === 2 ? 1 : 0));
+    const expectedSync = this.config.barker13;
     const syncValid = JSON.stringify(syncBits) === JSON.stringify(expectedSync);
 
     if (!syncValid) {
-      errors.push(`Invalid sync: expected ${expectedSync}, got ${syncBits}`);
+      errors.push(
+        new SyncMismatch(
+          syncBits.filter((bit, i) => bit !== expectedSync[i]).length,
+        ),
+      );
     }
 
     // Extract payload trits (everything after preamble + sync)
-    const payloadTrits = symbols.slice(25);
+    const payloadTrits = symbols.slice(headerLength);
 
     if (payloadTrits.length === 0) {
-      errors.push("No payload symbols found after preamble and sync");
+      const error = new Truncated(0, MIN_FRAME_BYTES);
+      errors.push(error);
+      this.recordAttempt(received, null, error);
       return { frame: null, preambleValid, syncValid, errors };
     }
 
-    // Apply differential decoding to payload trits
-    const decodedTrits = this.differentialDecode(payloadTrits);
-
-    // Decode payload trits to frame
-    let frame: Frame | null = null;
-    try {
-      frame = this.decodeTritsInternal(decodedTrits);
-      if (!frame) {
-        errors.push("Failed to decode payload trits to frame");
-      }
-    } catch (error) {
-      errors.push(
-        `Payload decoding error: ${error instanceof Error ? error.message : String(error)}`,
-      );
+    // Strip pilots, apply differential decoding and decode payload trits to frame
+    const frame = this.decodePayloadSymbols(payloadTrits);
+    let payloadFailure: LengthOutOfRange | Truncated | null = null;
+    if (!frame) {
+      payloadFailure = this.payloadError ?? new Truncated(0, MIN_FRAME_BYTES);
+      errors.push(payloadFailure);
+    } else if (!frame.isValid) {
+      errors.push(new CrcMismatch(frame.crc, CRC16.calculate(frame.payload)));
     }
 
+    this.recordAttempt(received, frame, payloadFailure);
     return { frame, preambleValid, syncValid, errors };
   }
 
@@ -1156,8 +1613,8 @@ export class FeskDecoder {
     symbols: number[],
     searchWindow: number = 10,
   ): { offset: number; confidence: number; syncedSymbols: number[] } {
-    const expectedPreamblePattern = [2, 0, 2, 0, 2, 0, 2, 0, 2, 0, 2, 0]; // Raw symbols
-    const expectedSyncPattern = [2, 2, 2, 2, 2, 0, 0, 2, 2, 0, 2, 0, 2]; // Raw symbols after preamble
+    const preambleLength = this.preambleSymbols.length;
+    const headerLength = this.headerSymbolCount();
 
     let bestOffset = 0;
     let bestConfidence = 0;
@@ -1167,18 +1624,18 @@ export class FeskDecoder {
     for (let offset = -searchWindow; offset <= searchWindow; offset++) {
       const adjustedSymbols = this.applyTimingOffset(symbols, offset);
 
-      if (adjustedSymbols.length < 25) continue; // Need at least preamble + sync
+      if (adjustedSymbols.length < headerLength) continue; // Need at least preamble + sync
 
       // Check preamble match
       const preambleMatch = this.calculatePatternMatch(
-        adjustedSymbols.slice(0, 12),
-        expectedPreamblePattern,
+        adjustedSymbols.slice(0, preambleLength),
+        this.preambleSymbols,
       );
 
       // Check sync match
       const syncMatch = this.calculatePatternMatch(
-        adjustedSymbols.slice(12, 25),
-        expectedSyncPattern,
+        adjustedSymbols.slice(preambleLength, headerLength),
+        this.syncSymbols,
       );
 
       const confidence = (preambleMatch + syncMatch) / 2;
@@ -1228,133 +1685,329 @@ export class FeskDecoder {
 
   /**
    * Process audio with automatic chunk size optimization
-   * Tries different chunk sizes to find the best decoding result
-   * Chunk sizes are based on symbol duration for better alignment
+   * Runs the decode strategies of completeDecodeStrategies in a
+   * DecodePipeline on this decoder: chirp sync, chunked decoding over chunk
+   * sizes based on the symbol duration, timing sync, the preamble
+   * candidates and finally the symbol extractor.
+   * @returns Decode result naming the strategy that produced the frame, or
+   * why nothing decoded
    */
   async processAudioComplete(
     audioData: Float32Array,
     sampleRate: number,
     chunkSizeOrSizes: number | number[] | null = null,
     enableTimingSync: boolean = true,
-  ): Promise<Frame | null> {
-    const frequencySets = this.collectCandidateFrequencySets();
-    const originalSymbolDuration = this.activeSymbolDuration;
-
-    let bestFrame: Frame | null = null;
-
-    for (const frequencies of frequencySets) {
-      this.setToneFrequencies(frequencies);
-      const frame = await this.processAudioCompleteForCurrentConfig(
-        audioData,
-        sampleRate,
-        chunkSizeOrSizes,
-        enableTimingSync,
-      );
-
-      if (frame) {
-        if (frame.isValid) {
-          this.setToneFrequencies(this.baseToneFrequencies);
-          if (this.activeSymbolDuration !== originalSymbolDuration) {
-            this.setSymbolDuration(originalSymbolDuration);
-          }
-          return frame;
-        }
-        if (!bestFrame) {
-          bestFrame = frame;
-        }
-      }
-    }
-
-    this.setToneFrequencies(this.baseToneFrequencies);
-    if (this.activeSymbolDuration !== originalSymbolDuration) {
-      this.setSymbolDuration(originalSymbolDuration);
-    }
-
-    if (!bestFrame) {
-      const extractorFrame = await this.decodeWithSymbolExtractor(
-        audioData,
-        sampleRate,
-      );
-      if (extractorFrame) {
-        return extractorFrame;
-      }
-    }
-
-    return bestFrame;
+    options: DecodeRunOptions = {},
+  ): Promise<DecodeResult> {
+    return new DecodePipeline({
+      strategies: completeDecodeStrategies(enableTimingSync),
+      budgetMs: options.timeBudgetMs,
+      config: this.config,
+      chunkSizeOrSizes,
+    }).decode(audioData, sampleRate, { ...options, decoder: this });
   }
 
-  private async processAudioCompleteForCurrentConfig(
+  /**
+   * Decode the audio in chunks with the state machine, for each candidate
+   * tone set and each chunk size
+   * @param chunkSizeOrSizes Chunk sizes in milliseconds; null for sizes based
+   * on the symbol duration
+   */
+  async decodeChunked(
     audioData: Float32Array,
     sampleRate: number,
-    chunkSizeOrSizes: number | number[] | null,
-    enableTimingSync: boolean,
-  ): Promise<Frame | null> {
-    const attempts: Array<{
-      data: Float32Array;
-      offsetSamples: number;
-      symbolDuration: number;
-    }> = [
-      {
-        data: audioData,
-        offsetSamples: 0,
-        symbolDuration: this.activeSymbolDuration,
-      },
-    ];
-
-    const candidateDurations = this.collectCandidateSymbolDurations();
-    const preambleCandidates = this.findPreambleCandidates(
-      audioData,
-      sampleRate,
-      candidateDurations,
+    chunkSizeOrSizes: number | number[] | null = null,
+    options: DecodeRunOptions = {},
+  ): Promise<DecodeResult> {
+    return this.decodeStage(audioData, sampleRate, options, () =>
+      this.acrossFrequencySets(() =>
+        this.decodeChunkSizes(audioData, sampleRate, chunkSizeOrSizes),
+      ),
     );
+  }
 
-    const seenKeys = new Set<string>([
-      `0-${this.activeSymbolDuration.toFixed(6)}`,
-    ]);
-    const maxAdditionalAttempts = 8;
+  /**
+   * Decode symbols extracted from a range of start offsets, aligned on the
+   * preamble, for each candidate tone set
+   */
+  async decodeTimingSynced(
+    audioData: Float32Array,
+    sampleRate: number,
+    chunkSizeOrSizes: number | number[] | null = null,
+    options: DecodeRunOptions = {},
+  ): Promise<DecodeResult> {
+    return this.decodeStage(audioData, sampleRate, options, () =>
+      this.acrossFrequencySets(async () => {
+        try {
+          return await this.processAudioWithTimingSync(
+            audioData,
+            sampleRate,
+            this.chunkSizes(chunkSizeOrSizes),
+          );
+        } catch (error) {
+          if (error instanceof AbortError) throw error;
+          console.warn("Timing sync processing failed:", error);
+          return null;
+        }
+      }),
+    );
+  }
 
-    for (const candidate of preambleCandidates) {
-      const symbolSamples = Math.max(
-        1,
-        Math.floor(candidate.symbolDuration * sampleRate),
-      );
-      const preBufferSamples = Math.min(
-        symbolSamples * 2,
-        candidate.startSample,
-      );
-      const offsetSamples = Math.max(
-        candidate.startSample - preBufferSamples,
-        0,
+  /**
+   * Decode from the best preamble candidates, for each candidate tone set:
+   * chunked decodes from just before them, then symbols read at each
+   * candidate's timing
+   */
+  async decodePreambleCandidates(
+    audioData: Float32Array,
+    sampleRate: number,
+    chunkSizeOrSizes: number | number[] | null = null,
+    options: DecodeRunOptions = {},
+  ): Promise<DecodeResult> {
+    return this.decodeStage(audioData, sampleRate, options, () =>
+      this.acrossFrequencySets((onAttempt) =>
+        this.decodeFromPreambleCandidates(
+          audioData,
+          sampleRate,
+          chunkSizeOrSizes,
+          onAttempt,
+        ),
+      ),
+    );
+  }
+
+  /**
+   * Decode the frame following a chirp; fails without a configured chirp
+   */
+  async decodeChirpSynced(
+    audioData: Float32Array,
+    sampleRate: number,
+    options: DecodeRunOptions = {},
+  ): Promise<DecodeResult> {
+    return this.decodeStage(audioData, sampleRate, options, async () =>
+      this.decodeWithChirpSync(
+        audioData,
+        sampleRate,
+        this.detectChirp(audioData, sampleRate),
+      ),
+    );
+  }
+
+  /**
+   * Run decode calls that share their chirp searches: each audio buffer is
+   * searched for the chirp once, however many calls decode it. The audio
+   * must not change until the returned promise settles.
+   */
+  async shareChirpDetection<T>(decode: () => Promise<T>): Promise<T> {
+    if (this.chirpDetections) {
+      return decode();
+    }
+    this.chirpDetections = new Map();
+    try {
+      return await decode();
+    } finally {
+      this.chirpDetections = null;
+    }
+  }
+
+  // One decode call of a single strategy
+  private async decodeStage(
+    audioData: Float32Array,
+    sampleRate: number,
+    options: DecodeRunOptions,
+    decode: () => Promise<Frame | null>,
+  ): Promise<DecodeResult> {
+    return this.run(options, async () => {
+      const invalid = this.validateAudio(audioData, sampleRate);
+      if (invalid) {
+        return this.failedDecodeResult(null, invalid);
+      }
+      const frame = await decode();
+      return this.buildDecodeResult(audioData, sampleRate, frame);
+    });
+  }
+
+  /**
+   * Run a decode for each candidate tone set until one yields a valid frame
+   * The base tones and symbol duration are put back afterwards.
+   * @returns The valid frame, or else the first frame that failed its CRC
+   */
+  private async acrossFrequencySets(
+    decodeSet: (onAttempt: (fraction: number) => void) => Promise<Frame | null>,
+  ): Promise<Frame | null> {
+    const frequencySets = this.collectCandidateFrequencySets();
+    const originalSymbolDuration = this.activeSymbolDuration;
+
+    let bestFrame: Frame | null = null;
+
+    for (let setIndex = 0; setIndex < frequencySets.length; setIndex++) {
+      await this.yieldForAbort();
+      if (this.stopSearching()) break;
+      this.setToneFrequencies(frequencySets[setIndex]);
+      const onAttempt = (fraction: number) =>
+        this.reportProgress(
+          "frequencySets",
+          (setIndex + fraction) / frequencySets.length,
+        );
+      this.candidatesTried++;
+      onAttempt(0);
+      const frame = await decodeSet(onAttempt);
+
+      if (frame) {
+        if (frame.isValid) {
+          bestFrame = frame;
+          break;
+        }
+        if (!bestFrame) {
+          bestFrame = frame;
+        }
+      }
+    }
+
+    this.restoreBaseToneFrequencies();
+    if (this.activeSymbolDuration !== originalSymbolDuration) {
+      this.setSymbolDuration(originalSymbolDuration);
+    }
+
+    return bestFrame;
+  }
+
+  /**
+   * Decode every frame in a long recording
+   * Each transmission is located by its energy onset and decoded with the
+   * symbol extractor pipeline; scanning resumes after the frame's last
+   * symbol, or after the energy burst when nothing decodes there. A frame
+   * starting inside the previous one is the same transmission found again
+   * and is skipped.
+   * @param options Symbol extractor options; startTimeRange is chosen per transmission
+   */
+  async *frames(
+    audioData: Float32Array,
+    sampleRate: number,
+    options: SymbolExtractorDecodeOptions = {},
+  ): AsyncGenerator<LocatedFrame> {
+    const invalid = this.validateAudio(audioData, sampleRate);
+    if (invalid) {
+      throw invalid;
+    }
+
+    const symbolsToExtract = options.symbolsToExtract || 90;
+    const leadSamples = Math.round(0.6 * sampleRate);
+    // Onset search range of the extractor plus the longest extracted span
+    const segmentSamples = Math.round(
+      (4.6 + symbolsToExtract * 0.12) * sampleRate,
+    );
+
+    let position = 0;
+    let previousEnd = 0;
+
+    while (position < audioData.length) {
+      throwIfAborted(options.signal);
+      const onsetMs = this.findTransmissionStart(
+        audioData.subarray(position),
+        sampleRate,
       );
-      const key = `${offsetSamples}-${candidate.symbolDuration.toFixed(6)}`;
+      if (onsetMs === null) {
+        return;
+      }
 
-      if (seenKeys.has(key)) continue;
-      seenKeys.add(key);
+      const onset = position + Math.round((onsetMs / 1000) * sampleRate);
+      const segmentStart = Math.max(position, onset - leadSamples);
+      const { frame, startTime, symbolDuration } =
+        await this.decodeWithSymbolExtractor(
+          audioData.subarray(segmentStart, segmentStart + segmentSamples),
+          sampleRate,
+          { ...options, startTimeRange: undefined },
+        );
 
-      attempts.push({
-        data: audioData.slice(offsetSamples),
-        offsetSamples,
-        symbolDuration: candidate.symbolDuration,
-      });
+      if (
+        !frame ||
+        !frame.isValid ||
+        startTime === null ||
+        symbolDuration === null
+      ) {
+        position = Math.max(
+          onset + 1,
+          this.findTransmissionEnd(audioData, sampleRate, onset),
+        );
+        continue;
+      }
 
-      if (attempts.length - 1 >= maxAdditionalAttempts) {
-        break;
+      const symbolSamples = symbolDuration * sampleRate;
+      const startSample = segmentStart + Math.round(startTime * sampleRate);
+      const endSample =
+        startSample +
+        Math.round(this.frameSampleCount(frame, symbolDuration, sampleRate));
+      position = Math.max(onset + 1, endSample);
+
+      if (startSample < previousEnd - symbolSamples / 2) {
+        continue;
       }
+      previousEnd = endSample;
+
+      yield { frame, startSample, endSample };
     }
+  }
+
+  /**
+   * Reassemble the fragmented messages of a long recording
+   * Frames are found as by frames(); a message is yielded once the frame
+   * carrying its last missing fragment is decoded.
+   */
+  async *messages(
+    audioData: Float32Array,
+    sampleRate: number,
+    options: SymbolExtractorDecodeOptions = {},
+    reassembler: MessageReassembler = new MessageReassembler(),
+  ): AsyncGenerator<LocatedMessage> {
+    for await (const { frame, endSample } of this.frames(
+      audioData,
+      sampleRate,
+      options,
+    )) {
+      const message = reassembler.addFrame(frame);
+      if (message) {
+        yield { ...message, endSample };
+      }
+    }
+  }
+
+  private async decodeFromPreambleCandidates(
+    audioData: Float32Array,
+    sampleRate: number,
+    chunkSizeOrSizes: number | number[] | null,
+    onAttempt: (fraction: number) => void,
+  ): Promise<Frame | null> {
+    const preambleCandidates = this.findPreambleCandidates(
+      audioData,
+      sampleRate,
+      this.collectCandidateSymbolDurations(),
+    );
+    if (preambleCandidates.length === 0) {
+      return null;
+    }
+    const attempts = this.preambleCandidateAttempts(
+      audioData,
+      sampleRate,
+      preambleCandidates,
+    );
 
     let bestFrame: Frame | null = null;
 
-    for (const attempt of attempts) {
+    for (let i = 0; i < attempts.length; i++) {
+      if (this.stopSearching()) break;
+      this.candidatesTried++;
+      onAttempt((i + 1) / (attempts.length + 1));
+      const attempt = attempts[i];
       const previousDuration = this.activeSymbolDuration;
       if (attempt.symbolDuration !== previousDuration) {
         this.setSymbolDuration(attempt.symbolDuration);
       }
 
-      const frame = await this.runProcessAudioComplete(
+      const frame = await this.decodeChunkSizes(
         attempt.data,
         sampleRate,
         chunkSizeOrSizes,
-        enableTimingSync,
       );
 
       if (attempt.symbolDuration !== previousDuration) {
@@ -1363,6 +2016,9 @@ export class FeskDecoder {
 
       if (frame) {
         if (frame.isValid) {
+          if (this.decodeWinner) {
+            this.decodeWinner.startSample += attempt.offsetSamples;
+          }
           return frame;
         }
         if (!bestFrame) {
@@ -1371,7 +2027,7 @@ export class FeskDecoder {
       }
     }
 
-    if (preambleCandidates.length > 0) {
+    if (!this.stopSearching()) {
       const fallbackFrame = await this.decodeWithPreambleCandidates(
         audioData,
         sampleRate,
@@ -1391,39 +2047,82 @@ export class FeskDecoder {
     return bestFrame;
   }
 
-  private async runProcessAudioComplete(
+  // Chunked decodes of the audio from just before the best preamble candidates
+  private preambleCandidateAttempts(
     audioData: Float32Array,
     sampleRate: number,
-    chunkSizeOrSizes: number | number[] | null,
-    enableTimingSync: boolean,
-  ): Promise<Frame | null> {
-    if (typeof chunkSizeOrSizes === "number") {
-      return await this.processAudioCompleteBasic(
-        audioData,
-        sampleRate,
-        chunkSizeOrSizes,
+    preambleCandidates: PreambleCandidate[],
+  ): ChunkedAttempt[] {
+    const attempts: ChunkedAttempt[] = [];
+    const seenKeys = new Set<string>([
+      `0-${this.activeSymbolDuration.toFixed(6)}`,
+    ]);
+    const maxAdditionalAttempts = 8;
+
+    for (const candidate of preambleCandidates) {
+      const symbolSamples = Math.max(
+        1,
+        Math.floor(candidate.symbolDuration * sampleRate),
+      );
+      const preBufferSamples = Math.min(
+        symbolSamples * 2,
+        candidate.startSample,
+      );
+      const offsetSamples = Math.max(
+        candidate.startSample - preBufferSamples,
+        0,
       );
+      const key = `${offsetSamples}-${candidate.symbolDuration.toFixed(6)}`;
+
+      if (seenKeys.has(key)) continue;
+      seenKeys.add(key);
+
+      attempts.push({
+        data: audioData.slice(offsetSamples),
+        offsetSamples,
+        symbolDuration: candidate.symbolDuration,
+      });
+
+      if (attempts.length >= maxAdditionalAttempts) {
+        break;
+      }
+    }
+
+    return attempts;
+  }
+
+  // Chunk sizes in milliseconds; by default based on the symbol duration
+  private chunkSizes(chunkSizeOrSizes: number | number[] | null): number[] {
+    if (typeof chunkSizeOrSizes === "number") {
+      return [chunkSizeOrSizes];
+    }
+    if (chunkSizeOrSizes !== null) {
+      return chunkSizeOrSizes;
     }
 
     const symbolDurationMs = this.activeSymbolDuration * 1000;
-    const defaultChunkSizes = [
+    return [
       symbolDurationMs * 0.5,
       symbolDurationMs * 0.75,
       symbolDurationMs,
       symbolDurationMs * 1.5,
       symbolDurationMs * 2,
     ];
+  }
 
-    const chunkSizes: number[] =
-      chunkSizeOrSizes === null ? defaultChunkSizes : chunkSizeOrSizes;
-
+  private async decodeChunkSizes(
+    audioData: Float32Array,
+    sampleRate: number,
+    chunkSizeOrSizes: number | number[] | null,
+  ): Promise<Frame | null> {
     let fallbackFrame: Frame | null = null;
 
-    for (const chunkSize of chunkSizes) {
+    for (const chunkSize of this.chunkSizes(chunkSizeOrSizes)) {
+      if (this.stopSearching()) break;
       this.reset();
 
       try {
-        const frame = await this.processAudioCompleteBasic(
+        const frame = await this.processAudioBasic(
           audioData,
           sampleRate,
           chunkSize,
@@ -1437,22 +2136,11 @@ export class FeskDecoder {
           fallbackFrame = frame;
         }
       } catch (error) {
+        if (error instanceof AbortError) throw error;
         console.warn(`Chunk size ${chunkSize}ms failed:`, error);
       }
     }
 
-    if (enableTimingSync && !fallbackFrame) {
-      try {
-        return await this.processAudioWithTimingSync(
-          audioData,
-          sampleRate,
-          chunkSizes,
-        );
-      } catch (error) {
-        console.warn("Timing sync processing failed:", error);
-      }
-    }
-
     return fallbackFrame;
   }
 
@@ -1473,20 +2161,25 @@ export class FeskDecoder {
     return Array.from(durations).sort((a, b) => a - b);
   }
 
-  private collectCandidateFrequencySets(): [number, number, number][] {
-    const sets = new Map<string, [number, number, number]>();
+  private collectCandidateFrequencySets(): ToneFrequencySet[] {
+    const sets = new Map<string, ToneFrequencySet>();
 
-    const addSet = (frequencies: [number, number, number]) => {
+    const addSet = (name: string, frequencies: readonly number[]) => {
       const key = frequencies.map((freq) => freq.toFixed(2)).join("-");
       if (!sets.has(key)) {
-        sets.set(key, [...frequencies] as [number, number, number]);
+        sets.set(key, {
+          name,
+          tones: [...frequencies],
+        });
       }
     };
 
-    addSet(this.baseToneFrequencies);
-    addSet(HARDWARE_TONE_FREQUENCIES);
-    addSet(ALIASED_TONE_FREQUENCIES);
-    addSet(HIGH_ALIASED_TONES);
+    addSet("default", this.baseToneFrequencies);
+    if (this.toneCount === 3) {
+      addSet("hardware", HARDWARE_TONE_FREQUENCIES);
+      addSet("alias", ALIASED_TONE_FREQUENCIES);
+      addSet("alias_high", HIGH_ALIASED_TONES);
+    }
 
     return Array.from(sets.values());
   }
@@ -1496,9 +2189,7 @@ export class FeskDecoder {
     sampleRate: number,
     symbolDurations: number[],
   ): PreambleCandidate[] {
-    const expectedSymbols = this.config.preambleBits.map((bit) =>
-      bit === 1 ? 2 : 0,
-    );
+    const expectedSymbols = this.preambleSymbols;
 
     if (expectedSymbols.length === 0) {
       return [];
@@ -1527,6 +2218,7 @@ export class FeskDecoder {
         startSample + preambleSpan < audioData.length;
         startSample += stepSamples
       ) {
+        if (this.stopSearching()) break;
         const rms = this.calculateRms(audioData, startSample, preambleSpan);
         if (rms < 0.01) continue;
 
@@ -1701,6 +2393,8 @@ export class FeskDecoder {
     const maxCandidates = Math.min(candidates.length, 60);
 
     for (let i = 0; i < maxCandidates; i++) {
+      await this.yieldForAbort();
+      if (this.stopSearching()) break;
       const candidate = candidates[i];
       const symbolDuration = candidate.symbolDuration;
       const symbolSamples = Math.max(
@@ -1719,39 +2413,62 @@ export class FeskDecoder {
       ];
 
       for (const adjustment of adjustmentSteps) {
-        const startSample = Math.max(candidate.startSample + adjustment, 0);
-        const symbols = this.extractSymbolsParametric(
-          audioData,
-          sampleRate,
-          startSample,
-          symbolDuration,
-        );
+        const gridStart = Math.max(candidate.startSample + adjustment, 0);
+        const { symbols, leadingMisses, clockRatio } =
+          this.extractSymbolsParametric(
+            audioData,
+            sampleRate,
+            gridStart,
+            symbolDuration,
+          );
+        const startSample = gridStart + leadingMisses * symbolSamples;
 
-        if (symbols.length < 25) {
+        if (symbols.length < this.headerSymbolCount()) {
           continue;
         }
 
+        const recordCandidate = (
+          sequence: number[],
+          index: number,
+          corrected: number[] | null = null,
+        ) =>
+          this.recordWinner("preambleCandidates", {
+            startSample: startSample + index * symbolSamples,
+            symbolDuration,
+            clockRatio:
+              (this.config.symbolDuration / symbolDuration) * clockRatio,
+            ...this.patternBitErrors(sequence.slice(index)),
+            patternCorrections: corrected
+              ? this.countSymbolChanges(sequence, corrected)
+              : 0,
+          });
+
         const decodeResult = this.decodeCompleteTransmission(symbols);
         if (decodeResult.frame && decodeResult.frame.isValid) {
+          recordCandidate(symbols, 0);
           return decodeResult.frame;
         }
 
         const corrected = this.attemptPatternCorrection(symbols);
         if (corrected) {
-          const correctedResult = this.decodeCompleteTransmission(corrected);
+          const correctedResult = this.decodeTransmission(corrected, symbols);
           if (correctedResult.frame && correctedResult.frame.isValid) {
+            recordCandidate(symbols, 0, corrected);
             return correctedResult.frame;
           }
 
           const correctedPreambleIndex = this.findPreambleInSymbols(corrected);
           if (correctedPreambleIndex >= 0) {
             const trimmedCorrected = corrected.slice(correctedPreambleIndex);
-            const trimmedCorrectedResult =
-              this.decodeCompleteTransmission(trimmedCorrected);
+            const trimmedCorrectedResult = this.decodeTransmission(
+              trimmedCorrected,
+              symbols.slice(correctedPreambleIndex),
+            );
             if (
               trimmedCorrectedResult.frame &&
               trimmedCorrectedResult.frame.isValid
             ) {
+              recordCandidate(symbols, correctedPreambleIndex, corrected);
               return trimmedCorrectedResult.frame;
             }
           }
@@ -1762,6 +2479,7 @@ export class FeskDecoder {
           const trimmedSymbols = symbols.slice(preambleIndex);
           const trimmedResult = this.decodeCompleteTransmission(trimmedSymbols);
           if (trimmedResult.frame && trimmedResult.frame.isValid) {
+            recordCandidate(symbols, preambleIndex);
             return trimmedResult.frame;
           }
         }
@@ -1777,7 +2495,7 @@ export class FeskDecoder {
     startSample: number,
     symbolDuration: number,
     maxSymbols: number = 200,
-  ): number[] {
+  ): { symbols: number[]; leadingMisses: number; clockRatio: number } {
     const symbols: number[] = [];
     const symbolSamples = Math.max(1, Math.floor(symbolDuration * sampleRate));
     const windowSamples = Math.max(
@@ -1792,9 +2510,13 @@ export class FeskDecoder {
     let trailingMisses = 0;
     const maxTrailingMisses = 6;
 
-    for (let i = 0; i < maxSymbols; i++) {
-      const symbolCenter =
-        startSample + i * symbolSamples + Math.floor(symbolSamples / 2);
+    // Tone transitions re-centre the grid, so clock mismatch does not add up
+    // over a long frame
+    const timing = new SymbolTimingLoop(startSample, symbolSamples);
+    let previousSymbol: number | null = null;
+
+    for (let i = 0; i < maxSymbols; i++, timing.advance()) {
+      const symbolCenter = Math.floor(timing.getSymbolCenter());
 
       if (symbolCenter + Math.floor(windowSamples / 2) >= audioData.length) {
         break;
@@ -1826,6 +2548,7 @@ export class FeskDecoder {
       }
 
       if (bestSymbol === null || bestConfidence < 0.25) {
+        previousSymbol = null;
         if (symbols.length === 0) {
           leadingMisses++;
           if (leadingMisses > maxLeadingMisses) {
@@ -1841,11 +2564,26 @@ export class FeskDecoder {
         continue;
       }
 
+      if (previousSymbol !== null && previousSymbol !== bestSymbol) {
+        const error = SymbolTimingLoop.transitionError(
+          audioData,
+          sampleRate,
+          timing.getSymbolStart(),
+          timing.getPeriod() / 2,
+          this.config.toneFrequencies[previousSymbol],
+          this.config.toneFrequencies[bestSymbol],
+        );
+        if (error !== null) {
+          timing.update(error);
+        }
+      }
+
+      previousSymbol = bestSymbol;
       trailingMisses = 0;
       symbols.push(bestSymbol);
     }
 
-    return symbols;
+    return { symbols, leadingMisses, clockRatio: timing.getClockRatio() };
   }
 
   /**
@@ -1854,7 +2592,10 @@ export class FeskDecoder {
    * @returns Index of preamble start, or -1 if not found
    */
   findPreambleInSymbols(symbols: number[]): number {
-    const expectedPreamblePattern = [2, 0, 2, 0, 2, 0, 2, 0, 2, 0, 2, 0];
+    const expectedPreamblePattern = this.preambleSymbols;
+    if (expectedPreamblePattern.length === 0) {
+      return -1;
+    }
 
     for (let i = 0; i <= symbols.length - expectedPreamblePattern.length; i++) {
       const match = this.calculatePatternMatch(
@@ -1863,23 +2604,21 @@ export class FeskDecoder {
       );
 
       if (match >= 0.75) {
-        // 75% match threshold (9/12 symbols correct)
+        // 75% match threshold (9/12 symbols correct for the default preamble)
         return i;
       }
     }
 
-    // If exact pattern not found, look for alternating 2,0 pattern at the start
-    if (symbols.length >= 8) {
-      const alternatingMatches = [];
-      for (let i = 0; i < Math.min(12, symbols.length); i += 2) {
-        const hasCorrectPair =
-          i + 1 < symbols.length && symbols[i] === 2 && symbols[i + 1] === 0;
-        alternatingMatches.push(hasCorrectPair);
-      }
+    // If exact pattern not found, look for the preamble's symbol pairs at the start
+    const pairCount = Math.floor(expectedPreamblePattern.length / 2);
+    if (pairCount > 0 && symbols.length >= (pairCount * 4) / 3) {
+      const correctPairs = this.countPreamblePairs(symbols);
 
-      // If at least 4 out of 6 pairs are correct (67% match)
-      const correctPairs = alternatingMatches.filter(Boolean).length;
-      if (correctPairs >= 4 && symbols[0] === 2) {
+      // If at least two thirds of the pairs are correct (4 out of 6 by default)
+      if (
+        correctPairs >= Math.ceil((pairCount * 2) / 3) &&
+        symbols[0] === expectedPreamblePattern[0]
+      ) {
         return 0;
       }
     }
@@ -1887,32 +2626,49 @@ export class FeskDecoder {
     return -1;
   }
 
+  /**
+   * Count the leading symbol pairs that match the preamble's pairs
+   */
+  private countPreamblePairs(symbols: number[]): number {
+    let correctPairs = 0;
+    for (
+      let i = 0;
+      i + 1 < Math.min(this.preambleSymbols.length, symbols.length);
+      i += 2
+    ) {
+      if (
+        symbols[i] === this.preambleSymbols[i] &&
+        symbols[i + 1] === this.preambleSymbols[i + 1]
+      ) {
+        correctPairs++;
+      }
+    }
+    return correctPairs;
+  }
+
   /**
    * Attempt to correct common symbol errors in preamble and sync
    * @param symbols Raw symbols to correct
    * @returns Corrected symbols if pattern is recognizable, otherwise null
    */
   attemptPatternCorrection(symbols: number[]): number[] | null {
-    if (symbols.length < 25) return null;
+    const preambleLength = this.preambleSymbols.length;
+    const headerLength = this.headerSymbolCount();
+    if (symbols.length < headerLength) return null;
 
-    const expectedPreamble = [2, 0, 2, 0, 2, 0, 2, 0, 2, 0, 2, 0];
-    const expectedSync = [2, 2, 2, 2, 2, 0, 0, 2, 2, 0, 2, 0, 2];
+    const expectedPreamble = this.preambleSymbols;
+    const expectedSync = this.syncSymbols;
 
     const corrected = [...symbols];
     let correctionsMade = 0;
 
-    // Check if this looks like a preamble (alternating pattern with some errors)
-    let alternatingScore = 0;
-    for (let i = 0; i < Math.min(12, symbols.length); i += 2) {
-      if (i + 1 < symbols.length && symbols[i] === 2 && symbols[i + 1] === 0) {
-        alternatingScore++;
-      }
-    }
+    // Check if this looks like a preamble (its symbol pairs with some errors)
+    const pairScore = this.countPreamblePairs(symbols);
 
-    // If we have at least 4 out of 6 alternating pairs, attempt correction
-    if (alternatingScore >= 2) {
+    // If we have at least a third of the preamble pairs, attempt correction
+    if (pairScore >= Math.floor(preambleLength / 2) / 3) {
       // Correct preamble
-      for (let i = 0; i < 12 && i < symbols.length; i++) {
+      for (let i = 0; i < preambleLength; i++) {
         if (symbols[i] !== expectedPreamble[i]) {
           corrected[i] = expectedPreamble[i];
           correctionsMade++;
@@ -1920,26 +2676,24 @@ export class FeskDecoder {
       }
 
       // Check sync pattern similarity
-      if (symbols.length >= 25) {
-        const syncSlice = symbols.slice(12, 25);
-        const syncMatches = syncSlice.filter(
-          (sym, i) => sym === expectedSync[i],
-        ).length;
-
-        // If sync is at least 60% similar, correct it (lowered threshold)
-        if (syncMatches >= 8) {
-          for (let i = 0; i < 13; i++) {
-            if (corrected[12 + i] !== expectedSync[i]) {
-              corrected[12 + i] = expectedSync[i];
-              correctionsMade++;
-            }
+      const syncSlice = symbols.slice(preambleLength, headerLength);
+      const syncMatches = syncSlice.filter(
+        (sym, i) => sym === expectedSync[i],
+      ).length;
+
+      // If sync is at least 60% similar, correct it (lowered threshold)
+      if (syncMatches >= Math.ceil(expectedSync.length * 0.6)) {
+        for (let i = 0; i < expectedSync.length; i++) {
+          if (corrected[preambleLength + i] !== expectedSync[i]) {
+            corrected[preambleLength + i] = expectedSync[i];
+            correctionsMade++;
           }
         }
       }
     }
 
     // Return corrected symbols if we made corrections and they seem reasonable
-    if (correctionsMade > 0 && correctionsMade <= 20) {
+    if (correctionsMade > 0 && correctionsMade <= headerLength * 0.8) {
       return corrected;
     }
 
@@ -1966,6 +2720,8 @@ export class FeskDecoder {
       startOffset < windowSizeSeconds;
       startOffset += stepSeconds
     ) {
+      await this.yieldForAbort();
+      if (this.stopSearching()) break;
       try {
         const audioSample = {
           data: audioData,
@@ -1980,6 +2736,24 @@ export class FeskDecoder {
 
         if (rawSymbols.length < 50) continue; // Need more symbols for robust detection
 
+        const symbolSamples = Math.floor(
+          this.activeSymbolDuration * sampleRate,
+        );
+        const recordTimingSync = (
+          sequence: number[],
+          startIndex: number,
+          corrected: number[] | null = null,
+        ) =>
+          this.recordWinner("timingSync", {
+            startSample:
+              Math.floor(startOffset * sampleRate) + startIndex * symbolSamples,
+            symbolDuration: this.activeSymbolDuration,
+            ...this.patternBitErrors(sequence),
+            patternCorrections: corrected
+              ? this.countSymbolChanges(sequence, corrected)
+              : 0,
+          });
+
         // First try to find preamble in the stream
         const preambleIndex = this.findPreambleInSymbols(rawSymbols);
 
@@ -1987,12 +2761,13 @@ export class FeskDecoder {
           // Extract transmission starting from preamble
           const transmissionSymbols = rawSymbols.slice(preambleIndex);
 
-          if (transmissionSymbols.length >= 25) {
+          if (transmissionSymbols.length >= this.headerSymbolCount()) {
             // Try to decode directly
             const decodeResult =
               this.decodeCompleteTransmission(transmissionSymbols);
 
             if (decodeResult.frame && decodeResult.frame.isValid) {
+              recordTimingSync(transmissionSymbols, preambleIndex);
               return decodeResult.frame;
             }
 
@@ -2000,9 +2775,16 @@ export class FeskDecoder {
             const correctedSymbols =
               this.attemptPatternCorrection(transmissionSymbols);
             if (correctedSymbols) {
-              const correctedResult =
-                this.decodeCompleteTransmission(correctedSymbols);
+              const correctedResult = this.decodeTransmission(
+                correctedSymbols,
+                transmissionSymbols,
+              );
               if (correctedResult.frame && correctedResult.frame.isValid) {
+                recordTimingSync(
+                  transmissionSymbols,
+                  preambleIndex,
+                  correctedSymbols,
+                );
                 return correctedResult.frame;
               }
             }
@@ -2017,6 +2799,10 @@ export class FeskDecoder {
               );
 
               if (timingSyncResult.frame && timingSyncResult.frame.isValid) {
+                recordTimingSync(
+                  timingResult.syncedSymbols,
+                  preambleIndex + timingResult.offset,
+                );
                 return timingSyncResult.frame;
               }
 
@@ -2025,10 +2811,16 @@ export class FeskDecoder {
                 timingResult.syncedSymbols,
               );
               if (correctedTimingSymbols) {
-                const finalResult = this.decodeCompleteTransmission(
+                const finalResult = this.decodeTransmission(
                   correctedTimingSymbols,
+                  timingResult.syncedSymbols,
                 );
                 if (finalResult.frame && finalResult.frame.isValid) {
+                  recordTimingSync(
+                    timingResult.syncedSymbols,
+                    preambleIndex + timingResult.offset,
+                    correctedTimingSymbols,
+                  );
                   return finalResult.frame;
                 }
               }
@@ -2045,6 +2837,7 @@ export class FeskDecoder {
             );
 
             if (decodeResult.frame && decodeResult.frame.isValid) {
+              recordTimingSync(timingResult.syncedSymbols, timingResult.offset);
               return decodeResult.frame;
             }
           }
@@ -2062,8 +2855,27 @@ export class FeskDecoder {
     audioData: Float32Array,
     sampleRate: number,
     options: SymbolExtractorDecodeOptions = {},
+  ): Promise<DecodeResult> {
+    return this.decodeStage(audioData, sampleRate, options, () =>
+      this.runSymbolExtractor(audioData, sampleRate, options),
+    );
+  }
+
+  private async runSymbolExtractor(
+    audioData: Float32Array,
+    sampleRate: number,
+    options: SymbolExtractorDecodeOptions = {},
   ): Promise<Frame | null> {
-    this.lastSymbolExtractorInfo = null;
+    // A chirp pins the start, so the start time grid is not searched
+    const chirpFrame = this.decodeWithChirpSync(
+      audioData,
+      sampleRate,
+      this.detectChirp(audioData, sampleRate),
+    );
+    if (chirpFrame?.isValid) {
+      return chirpFrame;
+    }
+
     const baseFrequencySets = this.getSymbolExtractorFrequencySets();
     const isLowerSampleRate = sampleRate <= 46000;
     const debugCollector = options.debugCollector;
@@ -2071,7 +2883,7 @@ export class FeskDecoder {
 
     const frequencySets =
       options.frequencySets ||
-      (isLowerSampleRate
+      (isLowerSampleRate && this.toneCount === 3
         ? [
             { name: "hardware", tones: [...HARDWARE_TONE_FREQUENCIES] },
             { name: "default", tones: [...this.baseToneFrequencies] },
@@ -2102,8 +2914,12 @@ export class FeskDecoder {
       step: 0.02,
     };
 
+    // The energy onset is where the preamble most likely starts
+    const detectedStart = this.findTransmissionStart(audioData, sampleRate);
+    const startTimeHint =
+      detectedStart === null ? undefined : detectedStart / 1000;
+
     if (!options.startTimeRange) {
-      const detectedStart = this.findTransmissionStart(audioData, sampleRate);
       if (detectedStart !== null) {
         const detectedSeconds = detectedStart / 1000;
         startTimeRange = {
@@ -2119,6 +2935,12 @@ export class FeskDecoder {
 
     const windowFraction = options.windowFraction ?? 0.6;
 
+    const listDecoder = new ListDecoder({
+      listSize: options.listSize,
+      minPosterior: options.minPosterior,
+    });
+
+    const deadline = this.deadline ?? undefined;
     const extractor = new SymbolExtractor({
       frequencySets,
       symbolDurations,
@@ -2126,6 +2948,11 @@ export class FeskDecoder {
       symbolsToExtract: options.symbolsToExtract || 90,
       windowFraction,
       minConfidence,
+      startTimeHint,
+      deadline,
+      onProgress: this.searchProgress(0, frequencySets.length + 1),
+      preambleBits: this.config.preambleBits,
+      barker13: this.config.barker13,
     });
 
     const topCandidates: SymbolExtractionCandidate[] = [];
@@ -2134,15 +2961,25 @@ export class FeskDecoder {
     if (overallCandidate) {
       topCandidates.push(overallCandidate);
     }
+    if (!extractor.isSearchComplete()) {
+      this.budgetExhausted = true;
+    }
 
-    for (const frequencySet of frequencySets) {
+    for (let setIndex = 0; setIndex < frequencySets.length; setIndex++) {
+      await this.yieldForAbort();
+      if (this.stopSearching()) break;
       const setExtractor = new SymbolExtractor({
-        frequencySets: [frequencySet],
+        frequencySets: [frequencySets[setIndex]],
         symbolDurations,
         startTimeRange,
         symbolsToExtract: options.symbolsToExtract || 90,
         windowFraction: options.windowFraction || 0.6,
         minConfidence,
+        startTimeHint,
+        deadline,
+        onProgress: this.searchProgress(setIndex + 1, frequencySets.length + 1),
+        preambleBits: this.config.preambleBits,
+        barker13: this.config.barker13,
       });
       const candidateForSet = setExtractor.findBestCandidate(
         audioData,
@@ -2154,18 +2991,30 @@ export class FeskDecoder {
     }
 
     if (topCandidates.length === 0) {
-      this.lastSymbolExtractorInfo = null;
       return null;
     }
 
+    // Returned only when the budget runs out before a valid frame turns up
+    let partialFrame: Frame | null = null;
+    let evaluatedCandidates = 0;
+
     const candidateOffsets =
       options.candidateOffsets ||
       (isLowerSampleRate
         ? [0, -0.02, 0.02, -0.015, 0.015, -0.01, 0.01, -0.005, 0.005]
         : [0, -0.015, 0.015, -0.01, 0.01, -0.005, 0.005]);
 
-    for (const candidate of topCandidates) {
+    for (
+      let candidateIndex = 0;
+      candidateIndex < topCandidates.length;
+      candidateIndex++
+    ) {
+      const candidate = topCandidates[candidateIndex];
       if (!candidate) continue;
+      await this.yieldForAbort();
+      if (evaluatedCandidates > 0 && this.stopSearching()) {
+        return partialFrame;
+      }
 
       const startRefinedCandidate = extractor.refineStartTime(
         audioData,
@@ -2173,8 +3022,15 @@ export class FeskDecoder {
         candidate,
       );
 
+      const frequencyControlled = extractor.applyFrequencyControl(
+        audioData,
+        sampleRate,
+        startRefinedCandidate,
+      );
       const candidatesToEvaluate: SymbolExtractionCandidate[] = [
         startRefinedCandidate,
+        frequencyControlled,
+        extractor.recoverTiming(audioData, sampleRate, frequencyControlled),
       ];
 
       for (const offset of candidateOffsets) {
@@ -2207,8 +3063,50 @@ export class FeskDecoder {
         candidatesToEvaluate.push(refinedVariant);
       }
 
-      for (const refinedCandidate of candidatesToEvaluate) {
+      // Pilot slots give periodic re-lock points for timing and tone drift
+      const payloadOffset = this.headerSymbolCount();
+      const pilots = new PilotSequence(
+        this.config.pilotSequence,
+        this.config.pilotInterval,
+      );
+      const pilotRemoval = pilots.remove(
+        startRefinedCandidate.mappedSymbols.slice(payloadOffset),
+      );
+      if (
+        pilotRemoval.slotMismatches.length > 0 &&
+        (this.config.pilotsEnabled || pilotRemoval.slotMismatches[0] === 0)
+      ) {
+        candidatesToEvaluate.push(
+          extractor.relockWithPilots(
+            audioData,
+            sampleRate,
+            startRefinedCandidate,
+            pilots.getSequence(),
+            pilots.getInterval(),
+            payloadOffset,
+          ),
+        );
+      }
+
+      for (let i = 0; i < candidatesToEvaluate.length; i++) {
+        const refinedCandidate = candidatesToEvaluate[i];
         if (!refinedCandidate) continue;
+        await this.yieldForAbort();
+        // The best candidate so far is always evaluated
+        if (evaluatedCandidates > 0 && this.stopSearching()) {
+          return partialFrame;
+        }
+        evaluatedCandidates++;
+        this.candidatesTried++;
+        this.bestScore = Math.max(
+          this.bestScore ?? refinedCandidate.score,
+          refinedCandidate.score,
+        );
+        this.reportProgress(
+          "candidates",
+          (candidateIndex + i / candidatesToEvaluate.length) /
+            topCandidates.length,
+        );
 
         const previousDuration = this.activeSymbolDuration;
         this.setSymbolDuration(refinedCandidate.symbolDuration);
@@ -2235,11 +3133,41 @@ export class FeskDecoder {
               candidateSequence = candidateSequence.slice(preambleIndex);
             }
 
-            const candidateConfidences = refinedCandidate.confidences.slice(
-              0,
+            const preambleOffset = Math.max(0, preambleIndex);
+            const candidateLikelihoods = refinedCandidate.likelihoods.slice(
+              preambleOffset,
               end,
             );
+            const recordCandidate = (
+              strategy: DecodeStrategyName,
+              trimmed: number,
+              corrected: number[] | null = null,
+            ) =>
+              this.recordWinner(
+                strategy,
+                {
+                  startSample: Math.round(
+                    (refinedCandidate.startTime +
+                      (preambleOffset + trimmed) *
+                        refinedCandidate.symbolDuration) *
+                      sampleRate,
+                  ),
+                  symbolDuration: refinedCandidate.symbolDuration,
+                  ...this.patternBitErrors(candidateSequence.slice(trimmed)),
+                  patternCorrections: corrected
+                    ? this.countSymbolChanges(candidateSequence, corrected)
+                    : 0,
+                  clockRatio:
+                    refinedCandidate.clockRatio === undefined
+                      ? null
+                      : this.config.symbolDuration /
+                        refinedCandidate.symbolDuration,
+                },
+                refinedCandidate.frequencySet,
+              );
+
             let result = this.decodeSymbolsStandalone(candidateSequence);
+            partialFrame ??= result.frame;
             debugCollector?.({
               stage: "raw",
               frequencySet: refinedCandidate.frequencySet.name,
@@ -2252,33 +3180,30 @@ export class FeskDecoder {
               frameValid: Boolean(result.frame && result.frame.isValid),
               payloadLength: result.frame?.payload.length ?? 0,
               errors: [...result.errors],
+              failureReason: this.decisiveError(result)?.kind ?? null,
               score: refinedCandidate.score,
               sequence: includeSequence ? [...candidateSequence] : undefined,
             });
             if (result.frame && result.frame.isValid) {
-              this.lastSymbolExtractorInfo = {
-                frequencySet: refinedCandidate.frequencySet.name,
-                symbolDuration: refinedCandidate.symbolDuration,
-                startTime: refinedCandidate.startTime,
-              };
+              recordCandidate("symbolExtractor", 0);
               return result.frame;
             }
 
-            const mutationFromRaw = this.trySymbolMutations(
+            const listFromRaw = this.tryListDecoding(
               candidateSequence,
-              candidateConfidences,
+              candidateLikelihoods,
               refinedCandidate,
-              audioData,
-              sampleRate,
-              windowFraction,
+              result.frame !== null,
+              listDecoder,
               debugCollector,
               includeSequence,
               end,
               "raw",
               result.errors,
             );
-            if (mutationFromRaw) {
-              return mutationFromRaw;
+            if (listFromRaw) {
+              recordCandidate("listDecoding", 0);
+              return listFromRaw;
             }
 
             const corrected = this.attemptPatternCorrection(candidateSequence);
@@ -2288,8 +3213,10 @@ export class FeskDecoder {
                 correctedIndex > 0
                   ? corrected.slice(correctedIndex)
                   : corrected;
-              const correctedConfidences = candidateConfidences;
-              result = this.decodeSymbolsStandalone(correctedSequence);
+              result = this.decodeSymbolsStandalone(
+                correctedSequence,
+                candidateSequence.slice(Math.max(0, correctedIndex)),
+              );
               debugCollector?.({
                 stage: "corrected",
                 frequencySet: refinedCandidate.frequencySet.name,
@@ -2302,33 +3229,32 @@ export class FeskDecoder {
                 frameValid: Boolean(result.frame && result.frame.isValid),
                 payloadLength: result.frame?.payload.length ?? 0,
                 errors: [...result.errors],
+                failureReason: this.decisiveError(result)?.kind ?? null,
                 score: refinedCandidate.score,
                 sequence: includeSequence ? [...correctedSequence] : undefined,
               });
+              const correctedTrim = Math.max(0, correctedIndex);
               if (result.frame && result.frame.isValid) {
-                this.lastSymbolExtractorInfo = {
-                  frequencySet: refinedCandidate.frequencySet.name,
-                  symbolDuration: refinedCandidate.symbolDuration,
-                  startTime: refinedCandidate.startTime,
-                };
+                recordCandidate("symbolExtractor", correctedTrim, corrected);
                 return result.frame;
               }
 
-              const mutationFromCorrected = this.trySymbolMutations(
+              const listFromCorrected = this.tryListDecoding(
                 correctedSequence,
-                correctedConfidences,
+                candidateLikelihoods,
                 refinedCandidate,
-                audioData,
-                sampleRate,
-                windowFraction,
+                result.frame !== null,
+                listDecoder,
                 debugCollector,
                 includeSequence,
                 end,
                 "corrected",
                 result.errors,
+                candidateSequence.slice(correctedTrim),
               );
-              if (mutationFromCorrected) {
-                return mutationFromCorrected;
+              if (listFromCorrected) {
+                recordCandidate("listDecoding", correctedTrim, corrected);
+                return listFromCorrected;
               }
             }
           }
@@ -2338,232 +3264,608 @@ export class FeskDecoder {
       }
     }
 
-    return null;
+    return this.budgetExhausted ? partialFrame : null;
   }
 
-  private decodeSymbolsStandalone(symbols: number[]) {
-    const tempDecoder = new FeskDecoder();
-    return tempDecoder.decodeCompleteTransmission(symbols);
+  /**
+   * Matched filter search for the configured chirp; while
+   * shareChirpDetection runs, each audio buffer is searched once
+   * @returns null when chirp sync is off or no chirp is found
+   */
+  private detectChirp(
+    audioData: Float32Array,
+    sampleRate: number,
+  ): ChirpDetection | null {
+    if (!this.config.chirpSync) {
+      return null;
+    }
+    if (this.chirpDetections?.has(audioData)) {
+      return this.chirpDetections.get(audioData)!;
+    }
+    const chirp = new ChirpSync(this.config.chirpSync).detect(
+      audioData,
+      sampleRate,
+    );
+    this.chirpDetections?.set(audioData, chirp);
+    return chirp;
   }
 
-  private trySymbolMutations(
-    baseSequence: number[],
-    confidences: number[],
-    candidate: SymbolExtractionCandidate,
+  /**
+   * Read the frame at the position, symbol duration and tones a chirp gives
+   * The preamble is read before the chirp when it was sent, and taken as
+   * received when the chirp replaced it
+   * @param chirp The chirp detectChirp found in the audio
+   * @returns null when chirp sync is off or no chirp is found
+   */
+  private decodeWithChirpSync(
     audioData: Float32Array,
     sampleRate: number,
-    windowFraction: number,
+    chirp: ChirpDetection | null,
+  ): Frame | null {
+    const chirpSync = this.config.chirpSync;
+    if (!chirpSync || !chirp) {
+      return null;
+    }
+
+    const symbolDuration = this.config.symbolDuration / chirp.clockRatio;
+    const symbolSamples = symbolDuration * sampleRate;
+    const frequencySet: ToneFrequencySet = {
+      name: "chirp",
+      tones: this.baseToneFrequencies.map(
+        (tone) => tone * chirp.clockRatio + chirp.frequencyOffset,
+      ),
+    };
+    const halfWindow = Math.floor(
+      Math.max(symbolSamples * 0.6, sampleRate * 0.04) / 2,
+    );
+    const readSymbol = (start: number): number | null => {
+      const center = Math.round(start + symbolSamples / 2);
+      if (center - halfWindow < 0 || center + halfWindow > audioData.length) {
+        return null;
+      }
+      const strengths = Goertzel.getFrequencyStrengthsParametric(
+        audioData.subarray(center - halfWindow, center + halfWindow),
+        frequencySet.tones,
+        sampleRate,
+      );
+      return strengths.indexOf(Math.max(...strengths));
+    };
+
+    const preambleSent = chirpSync.placement === "afterPreamble";
+    const preambleLength = this.preambleSymbols.length;
+    const startSample = preambleSent
+      ? chirp.startSample - preambleLength * symbolSamples
+      : chirp.startSample;
+    const preamble = preambleSent
+      ? this.preambleSymbols.map(
+          (_, i) => readSymbol(startSample + i * symbolSamples) ?? -1,
+        )
+      : [...this.preambleSymbols];
+
+    const maxSymbols =
+      this.syncSymbols.length + Math.max(...this.getFrameTritCounts());
+    const symbols: number[] = [];
+    for (let i = 0; i < maxSymbols; i++) {
+      const symbol = readSymbol(chirp.endSample + i * symbolSamples);
+      if (symbol === null) break;
+      symbols.push(symbol);
+    }
+
+    // The symbols run on into whatever follows the frame, so each length a
+    // frame can have is tried
+    const lengths = [...this.getFrameTritCounts()].sort((a, b) => a - b);
+    let firstFrame: Frame | null = null;
+    for (const length of lengths) {
+      if (this.syncSymbols.length + length > symbols.length) break;
+      const sequence = [
+        ...preamble,
+        ...symbols.slice(0, this.syncSymbols.length + length),
+      ];
+      const result = this.decodeSymbolsStandalone(sequence);
+      this.candidatesTried++;
+      firstFrame ??= result.frame;
+      if (result.frame?.isValid) {
+        this.recordWinner(
+          "chirpSync",
+          {
+            startSample: Math.round(startSample),
+            symbolDuration,
+            ...this.patternBitErrors(sequence),
+            clockRatio: chirp.clockRatio,
+            chirpEndSample: chirp.endSample,
+          },
+          frequencySet,
+        );
+        return result.frame;
+      }
+    }
+    return firstFrame;
+  }
+
+  private decodeSymbolsStandalone(
+    symbols: number[],
+    received: number[] = symbols,
+  ) {
+    const tempDecoder = new FeskDecoder(this.config);
+    const result = tempDecoder.decodeTransmission(symbols, received);
+    if (tempDecoder.bestAttempt) {
+      this.keepBestAttempt(tempDecoder.bestAttempt);
+    }
+    return result;
+  }
+
+  /**
+   * CRC-guided list decoding of a candidate sequence
+   * Only runs where a frame can end: either the header parsed with a
+   * consistent length, or the payload has exactly a frame's trit count,
+   * and not once the time budget is spent
+   */
+  private tryListDecoding(
+    baseSequence: number[],
+    likelihoods: ToneLikelihoods[],
+    candidate: SymbolExtractionCandidate,
+    headerParsed: boolean,
+    listDecoder: ListDecoder,
     debugCollector?: (info: SymbolExtractorDebugInfo) => void,
     includeSequence: boolean = false,
     candidateEnd: number = baseSequence.length,
     origin: "raw" | "corrected" = "raw",
-    previousErrors: string[] = [],
+    previousErrors: DecodeError[] = [],
+    received: number[] = baseSequence,
   ): Frame | null {
-    const sequenceLength = baseSequence.length;
-    if (sequenceLength === 0) {
+    const payloadStart = this.headerSymbolCount();
+    const payloadSymbols = baseSequence.length - payloadStart;
+    if (payloadSymbols <= 0) {
       return null;
     }
 
-    const preambleLength = this.config.preambleBits.length;
-    const syncLength = this.config.barker13.length;
-
-    const mutationThreshold = 0.72;
-    const maxPositions = 8;
-    const maxChanges = 6;
-    const maxAlternativesPerIndex = 3;
+    if (!headerParsed && !this.isFrameTritCount(payloadSymbols)) {
+      return null;
+    }
 
-    const candidateIndices: { index: number; confidence: number }[] = [];
-    for (let i = preambleLength + syncLength; i < sequenceLength; i++) {
-      const confidence = confidences[i] ?? 0;
-      if (confidence < mutationThreshold) {
-        candidateIndices.push({ index: i, confidence });
-      }
+    if (this.stopSearching()) {
+      return null;
     }
 
-    if (candidateIndices.length === 0) {
+    const listResult = listDecoder.decode(
+      baseSequence,
+      likelihoods,
+      payloadStart,
+      (sequence) => this.decodeTransmission(sequence, received).frame,
+    );
+    if (!listResult) {
       return null;
     }
 
-    candidateIndices.sort((a, b) => a.confidence - b.confidence);
-    const selectedIndices = candidateIndices.slice(0, maxPositions);
+    const correctionSummary =
+      listResult.modifications.length > 0
+        ? listResult.modifications
+            .map(({ index, from, to }) => `${index}:${from}\u2192${to}`)
+            .join(", ")
+        : "no symbol changes";
 
-    const symbolSamples = Math.max(
-      1,
-      Math.floor(candidate.symbolDuration * sampleRate),
-    );
-    const windowSamples = Math.max(
-      Math.floor(symbolSamples * windowFraction),
-      Math.floor(sampleRate * 0.04),
-    );
-    const halfWindow = Math.floor(windowSamples / 2);
+    debugCollector?.({
+      stage: "listDecoded",
+      frequencySet: candidate.frequencySet.name,
+      symbolDuration: candidate.symbolDuration,
+      startTime: candidate.startTime,
+      candidateEnd,
+      sequenceLength: listResult.sequence.length,
+      preambleValid: true,
+      syncValid: true,
+      frameValid: listResult.frame.isValid,
+      payloadLength: listResult.frame.payload.length,
+      errors: [...previousErrors],
+      failureReason: listResult.frame.isValid ? null : "crcMismatch",
+      notes: [
+        `list decoding origin: ${origin}`,
+        `corrections: ${correctionSummary}`,
+        `posterior: ${listResult.report.posterior.toFixed(6)}`,
+      ],
+      score: undefined,
+      sequence: includeSequence ? [...listResult.sequence] : undefined,
+    });
 
-    interface MutationOption {
-      symbol: number;
-      confidence: number;
-    }
+    return listResult.frame;
+  }
 
-    interface MutationEntry {
-      index: number;
-      options: MutationOption[];
+  private resetDiagnostics(): void {
+    this.decodeWinner = null;
+    this.bestAttempt = null;
+    this.budgetExhausted = false;
+  }
+
+  /**
+   * One decode call; its diagnostics, deadline and signal last until it
+   * settles. An aborted call puts back the tone set, symbol duration and
+   * state machine it was searching with, so the decoder stays usable.
+   */
+  private async run<T>(
+    options: DecodeRunOptions,
+    decode: () => Promise<T>,
+  ): Promise<T> {
+    this.resetDiagnostics();
+    const deadlines = [
+      options.deadline,
+      options.timeBudgetMs === undefined
+        ? undefined
+        : Date.now() + options.timeBudgetMs,
+    ].filter((deadline): deadline is number => deadline !== undefined);
+    this.deadline = deadlines.length > 0 ? Math.min(...deadlines) : null;
+    this.signal = options.signal ?? null;
+    this.onProgress = options.onProgress ?? null;
+    this.candidatesTried = 0;
+    this.bestScore = null;
+    const symbolDuration = this.activeSymbolDuration;
+
+    try {
+      throwIfAborted(this.signal);
+      return await decode();
+    } catch (error) {
+      if (error instanceof AbortError) {
+        this.restoreBaseToneFrequencies();
+        this.setSymbolDuration(symbolDuration);
+        this.reset();
+      }
+      throw error;
+    } finally {
+      this.deadline = null;
+      this.signal = null;
+      this.onProgress = null;
     }
+  }
 
-    const mutationEntries: MutationEntry[] = [];
+  /**
+   * Checked between candidates: true once the run's time budget is spent,
+   * which makes the result partial
+   * @throws AbortError once the run's signal has aborted
+   */
+  private stopSearching(): boolean {
+    throwIfAborted(this.signal);
+    if (this.deadline !== null && Date.now() >= this.deadline) {
+      this.budgetExhausted = true;
+    }
+    return this.budgetExhausted;
+  }
 
-    for (const { index } of selectedIndices) {
-      const centerTime =
-        candidate.startTime +
-        index * candidate.symbolDuration +
-        candidate.symbolDuration / 2;
-      const centerSample = Math.floor(centerTime * sampleRate);
-      const windowStart = centerSample - halfWindow;
-      const windowEnd = windowStart + windowSamples;
+  private reportProgress(phase: DecodeProgressPhase, fraction: number): void {
+    this.onProgress?.({
+      phase,
+      fraction: Math.min(1, fraction),
+      candidatesTried: this.candidatesTried,
+      bestScoreSoFar: this.bestScore,
+    });
+  }
 
-      if (windowStart < 0 || windowEnd >= audioData.length) {
-        continue;
+  /**
+   * Progress callback for one of the symbol extractor's start time
+   * searches; undefined without an onProgress option, so the search skips
+   * the reports
+   */
+  private searchProgress(
+    searchIndex: number,
+    searchCount: number,
+  ): ((progress: CandidateSearchProgress) => void) | undefined {
+    if (!this.onProgress) {
+      return undefined;
+    }
+    const triedBefore = this.candidatesTried;
+    return ({ fraction, candidatesTried, bestScore }) => {
+      this.candidatesTried = triedBefore + candidatesTried;
+      if (bestScore !== null) {
+        this.bestScore = Math.max(this.bestScore ?? bestScore, bestScore);
       }
+      this.reportProgress("startTimes", (searchIndex + fraction) / searchCount);
+    };
+  }
 
-      const segment = audioData.slice(windowStart, windowEnd);
-      const strengths = candidate.frequencySet.tones.map((tone) =>
-        Goertzel.getFrequencyStrengthParametric(segment, tone, sampleRate),
-      );
-      const totalStrength = strengths.reduce((sum, value) => sum + value, 0);
-      if (!(totalStrength > 0)) {
-        continue;
-      }
+  // Lets an abort raised on the event loop reach a search between candidates
+  private async yieldForAbort(): Promise<void> {
+    if (this.signal) {
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      throwIfAborted(this.signal);
+    }
+  }
 
-      const dedup = new Map<number, number>();
-      for (let raw = 0; raw < strengths.length; raw++) {
-        const mappedSymbol = candidate.mapping[raw];
-        const confidence = strengths[raw] / totalStrength;
-        const existing = dedup.get(mappedSymbol);
-        if (existing === undefined || confidence > existing) {
-          dedup.set(mappedSymbol, confidence);
-        }
-      }
+  private recordWinner(
+    strategy: DecodeStrategyName,
+    details: Omit<
+      DecodeWinner,
+      "strategy" | "frequencySet" | "patternCorrections" | "clockRatio"
+    > & { patternCorrections?: number; clockRatio?: number | null },
+    frequencySet: ToneFrequencySet = this.activeFrequencySet,
+  ): void {
+    this.decodeWinner = {
+      strategy,
+      frequencySet: {
+        name: frequencySet.name,
+        tones: [...frequencySet.tones],
+      },
+      patternCorrections: 0,
+      clockRatio: null,
+      ...details,
+    };
+  }
 
-      let options = Array.from(dedup.entries())
-        .map(([symbol, confidence]) => ({ symbol, confidence }))
-        .sort((a, b) => b.confidence - a.confidence)
-        .slice(0, maxAlternativesPerIndex);
+  // The state machine's lock, once its frame is known to be valid
+  private recordFrameLock(offsetSamples: number, sampleRate: number): void {
+    if (!this.frameLock) {
+      return;
+    }
+    this.recordWinner("incremental", {
+      startSample:
+        offsetSamples +
+        Math.round((this.frameLock.startTime / 1000) * sampleRate),
+      symbolDuration: this.frameLock.symbolDuration,
+      preambleBitErrors: this.frameLock.preambleBitErrors,
+      syncBitErrors: this.frameLock.syncBitErrors,
+    });
+  }
 
-      const originalSymbol = baseSequence[index];
-      if (!options.some((option) => option.symbol === originalSymbol)) {
-        options = [
-          { symbol: originalSymbol, confidence: confidences[index] ?? 0 },
-          ...options,
-        ];
-      }
+  // Preamble and sync bit errors of a sequence that starts at the preamble
+  private patternBitErrors(symbols: number[]): {
+    preambleBitErrors: number;
+    syncBitErrors: number;
+  } {
+    const preambleLength = this.config.preambleBits.length;
+    const countErrors = (bits: number[], offset: number) =>
+      bits.filter((bit, i) => (symbols[offset + i] === 2 ? 1 : 0) !== bit)
+        .length;
 
-      options = options
-        .reduce<MutationOption[]>((acc, option) => {
-          if (!acc.some((item) => item.symbol === option.symbol)) {
-            acc.push(option);
-          }
-          return acc;
-        }, [])
-        .sort((a, b) => b.confidence - a.confidence)
-        .slice(0, maxAlternativesPerIndex);
+    return {
+      preambleBitErrors: countErrors(this.config.preambleBits, 0),
+      syncBitErrors: countErrors(this.config.barker13, preambleLength),
+    };
+  }
 
-      if (options.length > 1) {
-        mutationEntries.push({ index, options });
-      }
-    }
+  private countSymbolChanges(before: number[], after: number[]): number {
+    return after.filter((symbol, i) => symbol !== before[i]).length;
+  }
 
-    if (mutationEntries.length === 0) {
+  // The last failed check decides an attempt
+  private decisiveError(result: {
+    frame: Frame | null;
+    errors: DecodeError[];
+  }): DecodeError | null {
+    if (result.frame && result.frame.isValid) {
       return null;
     }
+    return result.errors[result.errors.length - 1] ?? null;
+  }
 
-    const workingSequence = [...baseSequence];
+  private recordAttempt(
+    received: number[],
+    frame: Frame | null,
+    payloadFailure: LengthOutOfRange | Truncated | null,
+  ): void {
+    if (frame && frame.isValid) {
+      return;
+    }
+
+    const bitErrors = this.patternBitErrors(received);
+    let error: AttemptError;
+    if (frame) {
+      error = new CrcMismatch(frame.crc, CRC16.calculate(frame.payload));
+    } else if (bitErrors.syncBitErrors === 0) {
+      error = payloadFailure ?? new Truncated(0, MIN_FRAME_BYTES);
+    } else if (bitErrors.preambleBitErrors === 0) {
+      error = new SyncMismatch(bitErrors.syncBitErrors);
+    } else {
+      error = new PreambleNotFound();
+    }
+    this.keepBestAttempt({ error, ...bitErrors });
+  }
 
-    const search = (
-      position: number,
-      appliedChanges: number,
-    ): {
-      frame: Frame;
-      sequence: number[];
-      errors: string[];
-      modifications: { index: number; from: number; to: number }[];
-    } | null => {
-      if (position >= mutationEntries.length) {
-        const decodeResult = this.decodeCompleteTransmission(workingSequence);
-        if (decodeResult.frame && decodeResult.frame.isValid) {
-          const finalSequence = [...workingSequence];
-          const modifications = mutationEntries
-            .map(({ index }) => index)
-            .filter((index) => baseSequence[index] !== finalSequence[index])
-            .map((index) => ({
-              index,
-              from: baseSequence[index],
-              to: finalSequence[index],
-            }));
-          return {
-            frame: decodeResult.frame,
-            sequence: finalSequence,
-            errors: decodeResult.errors,
-            modifications,
-          };
-        }
-        return null;
-      }
+  // Later stages win; within a stage, fewer preamble and sync bit errors
+  private keepBestAttempt(attempt: DecodeAttempt): void {
+    const best = this.bestAttempt;
+    const rank = ATTEMPT_RANK[attempt.error.kind];
+    const bestRank = best ? ATTEMPT_RANK[best.error.kind] : -1;
+    if (
+      !best ||
+      rank > bestRank ||
+      (rank === bestRank &&
+        attempt.preambleBitErrors + attempt.syncBitErrors <
+          best.preambleBitErrors + best.syncBitErrors)
+    ) {
+      this.bestAttempt = { ...attempt };
+    }
+  }
 
-      const entry = mutationEntries[position];
-      const originalSymbol = baseSequence[entry.index];
+  private buildDecodeResult(
+    audioData: Float32Array,
+    sampleRate: number,
+    frame: Frame | null,
+  ): DecodeResult {
+    const winner = frame && frame.isValid ? this.decodeWinner : null;
+
+    if (!frame || !frame.isValid || !winner) {
+      const carrier =
+        this.findTransmissionStart(audioData, sampleRate) !== null;
+      return this.failedDecodeResult(
+        frame,
+        frame && frame.isValid
+          ? null
+          : !carrier
+            ? new NoCarrier()
+            : (this.bestAttempt?.error ?? new PreambleNotFound()),
+      );
+    }
 
-      for (const option of entry.options) {
-        const additionalChanges = option.symbol === originalSymbol ? 0 : 1;
-        if (appliedChanges + additionalChanges > maxChanges) {
-          continue;
-        }
+    const { snrDb, confidences } = this.measureFrameSymbols(
+      audioData,
+      sampleRate,
+      winner,
+      this.frameSymbolCount(frame),
+    );
 
-        workingSequence[entry.index] = option.symbol;
-        const result = search(position + 1, appliedChanges + additionalChanges);
-        if (result) {
-          return result;
-        }
-      }
+    const corrections: DecodeCorrection[] = [];
+    if (winner.patternCorrections > 0) {
+      corrections.push({ kind: "pattern", count: winner.patternCorrections });
+    }
+    if (frame.listDecoding && frame.listDecoding.corrections > 0) {
+      corrections.push({ kind: "list", count: frame.listDecoding.corrections });
+    }
+    if (frame.fec && frame.fec.correctedBytes > 0) {
+      corrections.push({ kind: "fec", count: frame.fec.correctedBytes });
+    }
+
+    this.lastDecodeResult = {
+      frame,
+      error: null,
+      failureReason: null,
+      strategy: winner.strategy,
+      frequencySet: winner.frequencySet.name,
+      toneFrequencies: winner.frequencySet.tones,
+      symbolDuration: winner.symbolDuration,
+      startTime: winner.startSample / sampleRate,
+      snrDb,
+      symbolConfidences: confidences,
+      preambleBitErrors: winner.preambleBitErrors,
+      syncBitErrors: winner.syncBitErrors,
+      corrections,
+      clockRatio: winner.clockRatio,
+      partial: false,
+    };
+    return this.lastDecodeResult;
+  }
 
-      workingSequence[entry.index] = originalSymbol;
-      return null;
+  private failedDecodeResult(
+    frame: Frame | null,
+    error: DecodeError | null,
+  ): DecodeResult {
+    this.lastDecodeResult = {
+      frame,
+      error,
+      failureReason: error?.kind ?? null,
+      strategy: null,
+      frequencySet: null,
+      toneFrequencies: null,
+      symbolDuration: null,
+      startTime: null,
+      snrDb: null,
+      symbolConfidences: [],
+      preambleBitErrors: this.bestAttempt?.preambleBitErrors ?? null,
+      syncBitErrors: this.bestAttempt?.syncBitErrors ?? null,
+      corrections: [],
+      clockRatio: null,
+      partial: this.budgetExhausted,
     };
+    return this.lastDecodeResult;
+  }
 
-    const mutationResult = search(0, 0);
-    if (!mutationResult) {
-      return null;
+  // Audio no strategy can decode, or null when it is usable
+  private validateAudio(
+    audioData: Float32Array,
+    sampleRate: number,
+  ): InvalidAudio | null {
+    if (!Number.isFinite(sampleRate) || sampleRate <= 0) {
+      return new InvalidAudio(`sample rate ${sampleRate}`);
+    }
+    if (audioData.length === 0) {
+      return new InvalidAudio("no samples");
+    }
+    for (let i = 0; i < audioData.length; i++) {
+      if (!Number.isFinite(audioData[i])) {
+        return new InvalidAudio(`non-finite sample at index ${i}`);
+      }
     }
+    return null;
+  }
 
-    const mutationSummary =
-      mutationResult.modifications.length > 0
-        ? mutationResult.modifications
-            .map(({ index, from, to }) => `${index}:${from}\u2192${to}`)
-            .join(", ")
-        : "no symbol changes";
+  /**
+   * Re-measure the winning frame's symbols on its own grid
+   * Confidence is the strongest tone's share of all tone strengths; the
+   * weaker tones stand in for the noise, as in ToneLikelihood
+   */
+  private measureFrameSymbols(
+    audioData: Float32Array,
+    sampleRate: number,
+    winner: DecodeWinner,
+    symbolCount: number,
+  ): { snrDb: number | null; confidences: number[] } {
+    const symbolSamples = winner.symbolDuration * sampleRate;
+    const halfWindow = Math.floor(
+      Math.max(symbolSamples * 0.6, sampleRate * 0.04) / 2,
+    );
+    const confidences: number[] = [];
+    let signalEnergy = 0;
+    let noiseEnergy = 0;
+
+    // After a chirp, symbols from the sync word on follow the chirp; a
+    // replaced preamble has no symbols to measure
+    const preambleLength = this.preambleSymbols.length;
+    const chirpEnd = winner.chirpEndSample;
+    const preambleSent = this.config.chirpSync?.placement !== "replacePreamble";
+    const symbolCenter = (i: number) =>
+      chirpEnd === undefined || i < preambleLength
+        ? winner.startSample + (i + 0.5) * symbolSamples
+        : chirpEnd + (i - preambleLength + 0.5) * symbolSamples;
 
-    debugCollector?.({
-      stage: "mutated",
-      frequencySet: candidate.frequencySet.name,
-      symbolDuration: candidate.symbolDuration,
-      startTime: candidate.startTime,
-      candidateEnd,
-      sequenceLength: mutationResult.sequence.length,
-      preambleValid: true,
-      syncValid: true,
-      frameValid: mutationResult.frame.isValid,
-      payloadLength: mutationResult.frame.payload.length,
-      errors: [
-        ...previousErrors,
-        `mutation origin: ${origin}`,
-        `mutations: ${mutationSummary}`,
-      ],
-      score: undefined,
-      sequence: includeSequence ? [...mutationResult.sequence] : undefined,
-    });
+    for (
+      let i = chirpEnd === undefined || preambleSent ? 0 : preambleLength;
+      i < symbolCount;
+      i++
+    ) {
+      const center = Math.round(symbolCenter(i));
+      if (center - halfWindow < 0 || center + halfWindow > audioData.length) {
+        confidences.push(0);
+        continue;
+      }
 
-    this.lastSymbolExtractorInfo = {
-      frequencySet: candidate.frequencySet.name,
-      symbolDuration: candidate.symbolDuration,
-      startTime: candidate.startTime,
-    };
+      const strengths = Goertzel.getFrequencyStrengthsParametric(
+        audioData.subarray(center - halfWindow, center + halfWindow),
+        winner.frequencySet.tones,
+        sampleRate,
+      );
+      const total = strengths.reduce((sum, value) => sum + value, 0);
+      const energies = strengths.map((value) => value * value);
+      energies.sort((a, b) => a - b);
+
+      confidences.push(total > 0 ? Math.max(...strengths) / total : 0);
+      signalEnergy += energies[energies.length - 1];
+      noiseEnergy +=
+        energies.slice(0, -1).reduce((sum, energy) => sum + energy, 0) /
+        (energies.length - 1);
+    }
+
+    const snrDb =
+      signalEnergy > 0 && noiseEnergy > 0
+        ? 10 * Math.log10(signalEnergy / noiseEnergy)
+        : null;
+
+    return { snrDb, confidences };
+  }
+
+  // Whether a payload of this many symbols holds exactly one canonical frame,
+  // with or without pilots
+  private isFrameTritCount(payloadSymbols: number): boolean {
+    return this.getFrameTritCounts().has(payloadSymbols);
+  }
 
-    return mutationResult.frame;
+  private getFrameTritCounts(): Set<number> {
+    if (!this.frameTritCounts) {
+      const pilots = new PilotSequence(
+        this.config.pilotSequence,
+        this.config.pilotInterval,
+      );
+      this.frameTritCounts = new Set<number>();
+      for (
+        let bytes = FrameHeaderCodec.LEGACY_LENGTH + 1 + 2;
+        bytes <= FrameHeaderCodec.VERSIONED_LENGTH + 256 + 2;
+        bytes++
+      ) {
+        const trits = CanonicalTritEncoder.tritCountForBytes(
+          bytes,
+          this.toneCount,
+        );
+        this.frameTritCounts.add(trits);
+        this.frameTritCounts.add(
+          trits +
+            pilots.countForDataLength(trits) * pilots.getSequence().length,
+        );
+      }
+    }
+    return this.frameTritCounts;
   }
 }
@@ -0,0 +1,182 @@
+import { FeskConfig, DEFAULT_CONFIG } from "./config";
+import { CanonicalTritEncoder } from "./utils/canonicalTritEncoder";
+import { LFSRScrambler } from "./utils/lfsrScrambler";
+import { CRC16 } from "./utils/crc16";
+import { PilotSequence } from "./utils/pilotSequence";
+import { ReedSolomon } from "./utils/reedSolomon";
+import { FrameHeaderCodec } from "./utils/frameHeader";
+import { MessageFragmenter } from "./messageFragmenter";
+
+/**
+ * FESK transmitter producing the exact symbol stream expected by FeskDecoder
+ */
+export class FeskEncoder {
+  static readonly MAX_PAYLOAD_LENGTH = 256;
+  static readonly MAX_FEC_PARITY_BYTES = 64;
+  static readonly TONE_COUNTS: readonly number[] = [3, 4, 8, 16];
+
+  private config: FeskConfig;
+
+  constructor(config: FeskConfig = DEFAULT_CONFIG) {
+    this.config = {
+      ...config,
+      toneFrequencies: [...config.toneFrequencies],
+      preambleBits: [...config.preambleBits],
+      barker13: [...config.barker13],
+      pilotSequence: [...config.pilotSequence] as [number, number],
+    };
+
+    const parityBytes = this.config.fecParityBytes ?? 0;
+    if (
+      !Number.isInteger(parityBytes) ||
+      parityBytes < 0 ||
+      parityBytes > FeskEncoder.MAX_FEC_PARITY_BYTES
+    ) {
+      throw new Error(
+        `Invalid FEC parity length: ${parityBytes} (max ${FeskEncoder.MAX_FEC_PARITY_BYTES})`,
+      );
+    }
+
+    const toneCount = this.config.toneFrequencies.length;
+    if (!FeskEncoder.TONE_COUNTS.includes(toneCount)) {
+      throw new Error(
+        `Unsupported tone count: ${toneCount} (expected ${FeskEncoder.TONE_COUNTS.join(", ")})`,
+      );
+    }
+  }
+
+  /**
+   * Encode a payload into the complete symbol sequence (preamble + sync + payload)
+   * A chirp configured to replace the preamble leaves it out; the chirp
+   * itself is no symbol and is added by ToneSynthesizer
+   * @param payload Payload bytes (1-256 bytes)
+   * @param fragment Flags the payload as a fragment in a versioned header
+   * @returns Tone indices (0 to M-1) in transmission order
+   */
+  encode(payload: Uint8Array, fragment: boolean = false): number[] {
+    return [
+      ...(this.config.chirpSync?.placement === "replacePreamble"
+        ? []
+        : this.getPreambleSymbols()),
+      ...this.getSyncSymbols(),
+      ...this.encodePayloadTrits(payload, fragment),
+    ];
+  }
+
+  /**
+   * Encode a UTF-8 string into the complete symbol sequence
+   */
+  encodeText(text: string): number[] {
+    return this.encode(new TextEncoder().encode(text));
+  }
+
+  /**
+   * Encode a message of any length as one symbol sequence per fragment frame
+   * @param message Message bytes, split into fragments that fit one frame each
+   * @param messageId 16-bit ID the receiver uses to group fragments
+   */
+  encodeFragmented(message: Uint8Array, messageId: number): number[][] {
+    return new MessageFragmenter()
+      .fragment(message, messageId)
+      .map((fragment) => this.encode(fragment, true));
+  }
+
+  /**
+   * Build the frame bytes: scrambled header and payload followed by the unscrambled CRC
+   * With FEC enabled, the header carries the parity length in bits 9-15 and
+   * Reed-Solomon parity over the scrambled bytes follows the CRC. With
+   * config.versionedHeader the header opens with the version and flags byte
+   * and ends with its own checksum (see FrameHeaderCodec).
+   */
+  buildFrameBytes(payload: Uint8Array, fragment: boolean = false): Uint8Array {
+    this.validatePayload(payload);
+
+    const payloadLength = payload.length;
+    const parityBytes = this.config.fecParityBytes ?? 0;
+    const header = FrameHeaderCodec.encode(
+      payloadLength,
+      parityBytes,
+      this.config.versionedHeader
+        ? {
+            fec: parityBytes > 0,
+            fragment,
+            pilots: Boolean(this.config.pilotsEnabled),
+            reserved: 0,
+          }
+        : null,
+    );
+    const payloadStart = header.length;
+    const frameBytes = new Uint8Array(payloadStart + payloadLength + 2);
+
+    // The TX scrambler is continuous over header and payload
+    const scrambler = new LFSRScrambler();
+    for (let i = 0; i < payloadStart; i++) {
+      frameBytes[i] = scrambler.scrambleByte(header[i]);
+    }
+    for (let i = 0; i < payloadLength; i++) {
+      frameBytes[payloadStart + i] = scrambler.scrambleByte(payload[i]);
+    }
+
+    // CRC is computed over the plain payload and sent unscrambled
+    const crc = CRC16.calculate(payload);
+    frameBytes[payloadStart + payloadLength] = (crc >> 8) & 0xff;
+    frameBytes[payloadStart + payloadLength + 1] = crc & 0xff;
+
+    if (parityBytes === 0) {
+      return frameBytes;
+    }
+
+    return new ReedSolomon(parityBytes).encodeBlocks(frameBytes);
+  }
+
+  /**
+   * Encode the payload section only (differentially encoded trits, no preamble/sync)
+   * Trits are base-M digits for M tones; FEC frames are packed blockwise;
+   * pilots are inserted when config.pilotsEnabled is set
+   */
+  encodePayloadTrits(payload: Uint8Array, fragment: boolean = false): number[] {
+    const frameBytes = this.buildFrameBytes(payload, fragment);
+    const radix = this.config.toneFrequencies.length;
+    const trits = this.config.fecParityBytes
+      ? CanonicalTritEncoder.differentialEncode(
+          CanonicalTritEncoder.encodeBytesBlockwise(
+            frameBytes,
+            CanonicalTritEncoder.FEC_BLOCK_BYTES,
+            radix,
+          ),
+          radix,
+        )
+      : CanonicalTritEncoder.encodeBytesWithDifferential(frameBytes, radix);
+
+    if (!this.config.pilotsEnabled) {
+      return trits;
+    }
+
+    return new PilotSequence(
+      this.config.pilotSequence,
+      this.config.pilotInterval,
+    ).insert(trits);
+  }
+
+  getPreambleSymbols(): number[] {
+    // Preamble uses the binary alphabet: 1 -> f2 (symbol 2), 0 -> f0 (symbol 0)
+    return this.config.preambleBits.map((bit) => (bit === 1 ? 2 : 0));
+  }
+
+  getSyncSymbols(): number[] {
+    // Sync uses same binary alphabet as preamble
+    return this.config.barker13.map((bit) => (bit === 1 ? 2 : 0));
+  }
+
+  private validatePayload(payload: Uint8Array): void {
+    if (payload.length === 0) {
+      throw new Error("Payload must contain at least one byte");
+    }
+
+    if (payload.length > FeskEncoder.MAX_PAYLOAD_LENGTH) {
+      throw new Error(
+        `Payload too long: ${payload.length} bytes (max ${FeskEncoder.MAX_PAYLOAD_LENGTH})`,
+      );
+    }
+  }
+}
@@ -0,0 +1,805 @@
+import { FeskConfig, DEFAULT_CONFIG } from "./config";
+import { Frame, LocatedFrame, LocatedMessage } from "./types";
+import { FeskDecoder, DecoderState } from "./feskDecoder";
+import { FeskEncoder } from "./feskEncoder";
+import { SyncDetector } from "./syncDetector";
+import { MessageReassembler } from "./messageReassembler";
+import { Goertzel } from "./utils/goertzel";
+import { GoertzelBank } from "./utils/goertzelBank";
+import { ToneLikelihood, ToneLikelihoods } from "./utils/toneLikelihood";
+import { CanonicalTritEncoder } from "./utils/canonicalTritEncoder";
+import { PilotSequence } from "./utils/pilotSequence";
+import { ReedSolomon } from "./utils/reedSolomon";
+import { FrameHeaderCodec } from "./utils/frameHeader";
+
+export interface FeskStreamDecoderOptions {
+  carrierThreshold?: number; // strongest tone magnitude relative to the window RMS
+  carrierLossSymbols?: number; // symbols without carrier before a frame is given up
+  maxClockDrift?: number; // searched symbol duration range around config.symbolDuration
+  goertzelBank?: GoertzelBank; // shared with decoders of other tone sets on the same audio
+  crossChannelRejection?: number; // strongest own tone below this share of another bank tone is leakage
+}
+
+export type FeskStreamLossReason = "sync" | "carrier" | "length" | "end";
+
+export interface FeskStreamEvents {
+  carrier: { present: boolean; sampleOffset: number };
+  preamble: { sampleOffset: number; symbolDuration: number };
+  sync: { sampleOffset: number; symbolDuration: number; bitErrors: number };
+  trit: {
+    symbol: number;
+    index: number; // position within the payload symbols
+    sampleOffset: number;
+    likelihoods: ToneLikelihoods;
+  };
+  frame: LocatedFrame;
+  crcError: LocatedFrame;
+  message: LocatedMessage; // after the frame event of its last fragment
+  lost: {
+    reason: FeskStreamLossReason;
+    sampleOffset: number;
+    tritCount: number;
+  };
+}
+
+export type FeskStreamEventName = keyof FeskStreamEvents;
+
+type FeskStreamListener<E extends FeskStreamEventName> = (
+  event: FeskStreamEvents[E],
+) => void;
+
+interface HopDecision {
+  strengths: number[];
+  symbol: number;
+}
+
+interface SymbolReading {
+  symbol: number;
+  likelihoods: ToneLikelihoods;
+  carrier: boolean;
+}
+
+const HOPS_PER_SYMBOL = 8;
+
+/**
+ * Continuous FESK receiver for live audio
+ *
+ * PCM chunks of any size are appended to an internal buffer, so symbols and
+ * frames may straddle chunk boundaries. The preamble is searched on a grid of
+ * 1/8 symbol; once it is found the start and symbol duration are refined on
+ * the known preamble and sync symbols, and the payload is read at that
+ * duration until a frame completes. Decoding then resumes right after the
+ * frame, so back-to-back frames are all delivered. Fragment frames are also
+ * collected into messages, emitted once complete. Sample offsets count from
+ * the first sample written since construction or reset().
+ */
+export class FeskStreamDecoder {
+  private config: FeskConfig;
+  private carrierThreshold: number;
+  private carrierLossSymbols: number;
+  private maxClockDrift: number;
+  private goertzelBank: GoertzelBank | null;
+  private crossChannelRejection: number;
+  private payloadDecoder: FeskDecoder;
+  private syncDetector: SyncDetector;
+  private reassembler = new MessageReassembler();
+  private preambleSymbols: number[];
+  private syncSymbols: number[];
+  private nominalSymbolSamples: number;
+  private hopSize: number;
+  private frameTritCounts: Set<number>;
+  private maxFrameTrits: number;
+  private listeners: {
+    [E in FeskStreamEventName]?: FeskStreamListener<E>[];
+  } = {};
+
+  private buffer: Float32Array = new Float32Array(0);
+  private bufferStart = 0;
+  private state!: DecoderState;
+  private carrierPresent = false;
+
+  // Searching phase
+  private searchOrigin = 0;
+  private searchHop = 0;
+  private hopHistory: HopDecision[] = [];
+  private preambleTrigger: { hop: number; score: number } | null = null;
+
+  // Sync and payload phases
+  private frameStart = 0;
+  private symbolSamples = 0;
+  private syncSymbolsRead = 0;
+  private silentTrits = 0; // trailing payload trits read without carrier
+
+  constructor(
+    config: FeskConfig = DEFAULT_CONFIG,
+    options: FeskStreamDecoderOptions = {},
+  ) {
+    this.config = {
+      ...config,
+      toneFrequencies: [...config.toneFrequencies],
+      preambleBits: [...config.preambleBits],
+      barker13: [...config.barker13],
+      pilotSequence: [...config.pilotSequence] as [number, number],
+    };
+    this.carrierThreshold = options.carrierThreshold ?? 0.2;
+    this.carrierLossSymbols = options.carrierLossSymbols ?? 2;
+    this.maxClockDrift = options.maxClockDrift ?? 0.02;
+    this.goertzelBank = options.goertzelBank ?? null;
+    this.crossChannelRejection = options.crossChannelRejection ?? 0.1;
+
+    // The sync word is expected right after the preamble
+    if (this.config.chirpSync) {
+      throw new Error("Chirp sync is not supported by the stream decoder");
+    }
+    if (!(this.config.sampleRate > 0) || !(this.config.symbolDuration > 0)) {
+      throw new Error(
+        `Invalid stream timing: ${this.config.sampleRate} Hz, ${this.config.symbolDuration} s symbols`,
+      );
+    }
+
+    if (this.goertzelBank) {
+      const bankFrequencies = this.goertzelBank.getFrequencies();
+      const missing = this.config.toneFrequencies.filter(
+        (frequency) => !bankFrequencies.includes(frequency),
+      );
+      if (missing.length > 0) {
+        throw new Error(
+          `Tones missing from the Goertzel bank: ${missing.join(", ")} Hz`,
+        );
+      }
+    }
+
+    this.payloadDecoder = new FeskDecoder(this.config);
+    this.syncDetector = new SyncDetector(this.config);
+    this.preambleSymbols = this.config.preambleBits.map((bit) =>
+      bit === 1 ? 2 : 0,
+    );
+    this.syncSymbols = this.config.barker13.map((bit) => (bit === 1 ? 2 : 0));
+    this.nominalSymbolSamples =
+      this.config.symbolDuration * this.config.sampleRate;
+    this.hopSize = this.nominalSymbolSamples / HOPS_PER_SYMBOL;
+
+    this.frameTritCounts = new Set<number>();
+    for (const headerLength of [
+      FrameHeaderCodec.LEGACY_LENGTH,
+      FrameHeaderCodec.VERSIONED_LENGTH,
+    ]) {
+      for (let length = 1; length <= FeskEncoder.MAX_PAYLOAD_LENGTH; length++) {
+        for (const count of this.tritCountsFor(
+          headerLength,
+          length,
+          this.config.fecParityBytes ?? 0,
+        )) {
+          this.frameTritCounts.add(count);
+        }
+      }
+    }
+    this.maxFrameTrits = Math.max(...this.frameTritCounts);
+
+    this.reset();
+  }
+
+  on<E extends FeskStreamEventName>(
+    event: E,
+    listener: FeskStreamListener<E>,
+  ): this {
+    const listeners = (this.listeners[event] ?? []) as FeskStreamListener<E>[];
+    listeners.push(listener);
+    (this.listeners as Record<E, FeskStreamListener<E>[]>)[event] = listeners;
+    return this;
+  }
+
+  off<E extends FeskStreamEventName>(
+    event: E,
+    listener: FeskStreamListener<E>,
+  ): this {
+    const listeners = this.listeners[event] as
+      | FeskStreamListener<E>[]
+      | undefined;
+    const index = listeners ? listeners.indexOf(listener) : -1;
+    if (index >= 0) {
+      listeners!.splice(index, 1);
+    }
+    return this;
+  }
+
+  /**
+   * Append a chunk of mono PCM samples at config.sampleRate
+   * Events for everything the chunk completes are emitted before returning
+   */
+  write(samples: Float32Array): void {
+    if (samples.length === 0) {
+      return;
+    }
+
+    const combined = new Float32Array(this.buffer.length + samples.length);
+    combined.set(this.buffer);
+    combined.set(samples, this.buffer.length);
+    this.buffer = combined;
+
+    this.run();
+  }
+
+  /**
+   * End of stream: finish the symbol in progress and make a last decode
+   * attempt on the buffered trits, then start over from sample offset 0
+   */
+  flush(): void {
+    const endOfStream = this.bufferStart + this.buffer.length;
+    this.write(new Float32Array(Math.ceil(this.symbolSamples)));
+
+    if (this.state.phase !== "searching") {
+      this.loseFrame("end", endOfStream);
+    }
+
+    this.reset();
+  }
+
+  reset(): void {
+    this.buffer = new Float32Array(0);
+    this.bufferStart = 0;
+    this.carrierPresent = false;
+    this.state = {
+      phase: "searching",
+      tritBuffer: [],
+      estimatedSymbolDuration: this.config.symbolDuration,
+      estimatedFrequencies: [...this.config.toneFrequencies],
+      frameStartTime: 0,
+      tritCount: 0,
+    };
+    this.reassembler.reset();
+    this.resumeSearch(0);
+  }
+
+  getState(): DecoderState {
+    return { ...this.state, tritBuffer: [...this.state.tritBuffer] };
+  }
+
+  private run(): void {
+    for (;;) {
+      let progressed: boolean;
+      switch (this.state.phase) {
+        case "searching":
+          progressed = this.searchStep();
+          break;
+        case "sync":
+          progressed = this.syncStep();
+          break;
+        case "payload":
+          progressed = this.payloadStep();
+          break;
+      }
+      if (!progressed) break;
+    }
+
+    this.trimBuffer();
+  }
+
+  private searchStep(): boolean {
+    const position =
+      this.searchOrigin + Math.round(this.searchHop * this.hopSize);
+    const window = this.getWindow(
+      position,
+      Math.round(this.nominalSymbolSamples),
+    );
+    if (!window) {
+      return false;
+    }
+
+    const strengths = this.toneStrengths(window, position);
+    this.setCarrier(this.hasCarrier(window, position, strengths), position);
+
+    // Leakage from another channel must not line up into a preamble
+    this.hopHistory.push({
+      strengths,
+      symbol: this.isLeakage(window, position, strengths)
+        ? -1
+        : this.strongest(strengths),
+    });
+    const maxHistory = (this.preambleSymbols.length + 3) * HOPS_PER_SYMBOL;
+    if (this.hopHistory.length > maxHistory) {
+      this.hopHistory.shift();
+    }
+
+    const hop = this.searchHop++;
+    const score = this.preambleScore();
+    if (
+      score !== null &&
+      (!this.preambleTrigger || score > this.preambleTrigger.score)
+    ) {
+      this.preambleTrigger = { hop, score };
+    }
+
+    // Noise before the preamble can complete a match an even number of
+    // symbols early, so the best alignment must hold for a few symbols
+    if (
+      this.preambleTrigger &&
+      hop - this.preambleTrigger.hop >= 2.5 * HOPS_PER_SYMBOL
+    ) {
+      this.lockPreamble(this.preambleTrigger.hop);
+    }
+
+    return true;
+  }
+
+  // Match score of the preamble ending at the newest hop, or null if it does not match
+  private preambleScore(): number | null {
+    const length = this.preambleSymbols.length;
+    const span = (length - 1) * HOPS_PER_SYMBOL;
+    if (this.hopHistory.length <= span) {
+      return null;
+    }
+
+    const first = this.hopHistory.length - 1 - span;
+    let matches = 0;
+    let score = 0;
+    for (let j = 0; j < length; j++) {
+      const decision = this.hopHistory[first + j * HOPS_PER_SYMBOL];
+      const expected = this.preambleSymbols[j];
+      if (decision.symbol === expected) matches++;
+      score += this.toneShare(decision.strengths, expected);
+    }
+
+    return matches >= length - 1 ? score : null;
+  }
+
+  private lockPreamble(hop: number): void {
+    const coarseStart =
+      this.searchOrigin +
+      Math.round(
+        (hop - (this.preambleSymbols.length - 1) * HOPS_PER_SYMBOL) *
+          this.hopSize,
+      );
+    const timing = this.refineTiming(
+      coarseStart,
+      this.nominalSymbolSamples,
+      this.preambleSymbols,
+      this.maxClockDrift,
+    );
+
+    this.frameStart = timing.start;
+    this.setSymbolSamples(timing.symbolSamples);
+    this.state.phase = "sync";
+    this.state.frameStartTime = (timing.start / this.config.sampleRate) * 1000;
+    this.syncSymbolsRead = 0;
+    this.syncDetector.reset();
+
+    this.emit("preamble", {
+      sampleOffset: Math.round(timing.start),
+      symbolDuration: this.state.estimatedSymbolDuration,
+    });
+  }
+
+  private syncStep(): boolean {
+    const index = this.preambleSymbols.length + this.syncSymbolsRead;
+    // The timing refinement after sync looks up to a symbol past its end
+    if (this.symbolStart(index + 2) > this.bufferStart + this.buffer.length) {
+      return false;
+    }
+    const reading = this.readSymbol(index)!;
+
+    this.syncSymbolsRead++;
+    const result = this.syncDetector.addSymbol({
+      symbol: reading.symbol,
+      confidence: Math.exp(reading.likelihoods[reading.symbol]),
+      timestamp:
+        ((this.frameStart + index * this.symbolSamples) /
+          this.config.sampleRate) *
+        1000,
+      likelihoods: reading.likelihoods,
+    });
+
+    if (result?.detected) {
+      const pattern = [...this.preambleSymbols, ...this.syncSymbols];
+      const timing = this.refineTiming(
+        this.frameStart,
+        this.symbolSamples,
+        pattern,
+        this.maxClockDrift / 4,
+      );
+      this.frameStart = timing.start;
+      this.setSymbolSamples(timing.symbolSamples);
+      this.state.phase = "payload";
+      this.state.tritBuffer = [];
+      this.state.tritCount = 0;
+      this.silentTrits = 0;
+
+      this.emit("sync", {
+        sampleOffset: Math.round(
+          this.frameStart + this.preambleSymbols.length * this.symbolSamples,
+        ),
+        symbolDuration: this.state.estimatedSymbolDuration,
+        bitErrors: result.bitErrors,
+      });
+      return true;
+    }
+
+    if (this.syncSymbolsRead >= this.syncSymbols.length) {
+      this.emit("lost", {
+        reason: "sync",
+        sampleOffset: Math.round(this.symbolStart(index + 1)),
+        tritCount: 0,
+      });
+      this.resumeSearch(this.frameStart + this.symbolSamples);
+    }
+
+    return true;
+  }
+
+  private payloadStep(): boolean {
+    const headerSymbols = this.preambleSymbols.length + this.syncSymbols.length;
+    const index = this.state.tritBuffer.length;
+    const reading = this.readSymbol(headerSymbols + index);
+    if (!reading) {
+      return false;
+    }
+
+    const symbolStart = this.symbolStart(headerSymbols + index);
+    this.setCarrier(reading.carrier, Math.round(symbolStart));
+
+    if (!reading.carrier && this.silentTrits + 1 >= this.carrierLossSymbols) {
+      this.loseFrame("carrier", symbolStart);
+      return true;
+    }
+
+    this.state.tritBuffer.push(reading.symbol);
+    this.state.tritCount++;
+    this.silentTrits = reading.carrier ? 0 : this.silentTrits + 1;
+    this.emit("trit", {
+      symbol: reading.symbol,
+      index,
+      sampleOffset: Math.round(symbolStart),
+      likelihoods: reading.likelihoods,
+    });
+
+    const tritCount = this.state.tritBuffer.length;
+    const frameEnd = this.symbolStart(headerSymbols + tritCount);
+
+    if (this.frameTritCounts.has(tritCount)) {
+      const frame = this.payloadDecoder.processSymbolSequence(
+        this.state.tritBuffer,
+      );
+
+      if (frame?.isValid || (frame && this.isFrameComplete(frame, tritCount))) {
+        const located = {
+          frame,
+          startSample: Math.round(this.frameStart),
+          endSample: Math.round(frameEnd),
+        };
+        if (frame.isValid) {
+          this.emitFrame(located);
+        } else {
+          this.emit("crcError", located);
+        }
+        this.resumeSearch(frameEnd);
+        return true;
+      }
+    }
+
+    if (tritCount >= this.maxFrameTrits) {
+      this.loseFrame("length", frameEnd);
+    }
+
+    return true;
+  }
+
+  private loseFrame(reason: FeskStreamLossReason, position: number): void {
+    // Where the transmission ends, the trits received with carrier get a last
+    // decode attempt: their count may be one no expected frame length predicts,
+    // e.g. FEC parity this receiver is not configured for
+    if (reason === "carrier" || reason === "end") {
+      const trits = this.state.tritBuffer.slice(
+        0,
+        this.state.tritBuffer.length - this.silentTrits,
+      );
+      const frame =
+        trits.length > 0 && !this.frameTritCounts.has(trits.length)
+          ? this.payloadDecoder.processSymbolSequence(trits)
+          : null;
+
+      if (frame?.isValid) {
+        this.emitFrame({
+          frame,
+          startSample: Math.round(this.frameStart),
+          endSample: Math.round(
+            this.symbolStart(
+              this.preambleSymbols.length +
+                this.syncSymbols.length +
+                trits.length,
+            ),
+          ),
+        });
+        this.resumeSearch(position);
+        return;
+      }
+    }
+
+    this.emit("lost", {
+      reason,
+      sampleOffset: Math.round(position),
+      tritCount: this.state.tritCount,
+    });
+    this.resumeSearch(position);
+  }
+
+  private emitFrame(located: LocatedFrame): void {
+    this.emit("frame", located);
+    const message = this.reassembler.addFrame(located.frame);
+    if (message) {
+      this.emit("message", { ...message, endSample: located.endSample });
+    }
+  }
+
+  private resumeSearch(position: number): void {
+    this.state.phase = "searching";
+    this.state.tritBuffer = [];
+    this.state.tritCount = 0;
+    this.searchOrigin = Math.round(position);
+    this.searchHop = 0;
+    this.hopHistory = [];
+    this.preambleTrigger = null;
+    this.syncSymbolsRead = 0;
+    this.silentTrits = 0;
+    this.setSymbolSamples(this.nominalSymbolSamples);
+  }
+
+  private setSymbolSamples(symbolSamples: number): void {
+    this.symbolSamples = symbolSamples;
+    this.state.estimatedSymbolDuration = symbolSamples / this.config.sampleRate;
+  }
+
+  /**
+   * Grid search of the start and symbol duration maximizing the share of the
+   * expected tone over a known symbol pattern
+   */
+  private refineTiming(
+    start: number,
+    symbolSamples: number,
+    pattern: number[],
+    durationRange: number,
+  ): { start: number; symbolSamples: number } {
+    const score = (candidateStart: number, candidateSamples: number) => {
+      let total = 0;
+      for (let j = 0; j < pattern.length; j++) {
+        const windowStart = Math.round(candidateStart + j * candidateSamples);
+        const window = this.getWindow(
+          windowStart,
+          Math.round(candidateSamples),
+        );
+        if (!window) return -Infinity;
+        total += this.toneShare(
+          this.toneStrengths(window, windowStart),
+          pattern[j],
+        );
+      }
+      return total;
+    };
+
+    let best = { start, symbolSamples, score: score(start, symbolSamples) };
+    const consider = (candidateStart: number, candidateSamples: number) => {
+      const candidateScore = score(candidateStart, candidateSamples);
+      if (candidateScore > best.score) {
+        best = {
+          start: candidateStart,
+          symbolSamples: candidateSamples,
+          score: candidateScore,
+        };
+      }
+    };
+
+    // Alternate offset and duration, halving the steps each round; the
+    // duration is scaled about the pattern centre so it barely moves the offset
+    const centre = pattern.length / 2;
+    for (let round = 0; round < 3; round++) {
+      const scale = Math.pow(2, -round);
+      const offsetAnchor = best.start;
+      for (let k = -4; k <= 4; k++) {
+        consider(
+          offsetAnchor + (k * scale * this.hopSize) / 4,
+          best.symbolSamples,
+        );
+      }
+
+      const centreSample = best.start + centre * best.symbolSamples;
+      const durationAnchor = best.symbolSamples;
+      for (let k = -8; k <= 8; k++) {
+        const candidateSamples =
+          durationAnchor * (1 + (k * scale * durationRange) / 8);
+        consider(centreSample - centre * candidateSamples, candidateSamples);
+      }
+    }
+
+    return { start: best.start, symbolSamples: best.symbolSamples };
+  }
+
+  // Decide the symbol at a frame position from the central part of its slot
+  private readSymbol(index: number): SymbolReading | null {
+    const guard = this.symbolSamples * 0.1;
+    const start = Math.round(this.symbolStart(index) + guard);
+    const window = this.getWindow(
+      start,
+      Math.round(this.symbolSamples - 2 * guard),
+    );
+    if (!window) {
+      return null;
+    }
+
+    const strengths = this.toneStrengths(window, start);
+    const likelihoods = ToneLikelihood.fromStrengths(strengths);
+    return {
+      symbol: ToneLikelihood.mostLikely(likelihoods),
+      likelihoods,
+      carrier: this.hasCarrier(window, start, strengths),
+    };
+  }
+
+  private symbolStart(index: number): number {
+    return this.frameStart + index * this.symbolSamples;
+  }
+
+  // Header-consistent frame: its own length accounts for every received
+  // trit, with pilots when a versioned header flags them
+  private isFrameComplete(frame: Frame, tritCount: number): boolean {
+    const [withoutPilots, withPilots] = this.tritCountsFor(
+      FrameHeaderCodec.lengthOf(frame.header),
+      frame.header.payloadLength,
+      frame.fec?.parityBytes ?? 0,
+    );
+    const flags = frame.header.flags;
+    const counts = flags
+      ? [flags.pilots ? withPilots : withoutPilots]
+      : [withoutPilots, withPilots];
+    return counts.includes(tritCount);
+  }
+
+  private tritCountsFor(
+    headerLength: number,
+    payloadLength: number,
+    parityBytes: number,
+  ): number[] {
+    const frameBytes = headerLength + payloadLength + 2;
+    const dataTrits =
+      parityBytes > 0
+        ? CanonicalTritEncoder.tritCountForBlockwise(
+            new ReedSolomon(parityBytes).encodedLength(frameBytes),
+            CanonicalTritEncoder.FEC_BLOCK_BYTES,
+            this.config.toneFrequencies.length,
+          )
+        : CanonicalTritEncoder.tritCountForBytes(
+            frameBytes,
+            this.config.toneFrequencies.length,
+          );
+    const pilots = new PilotSequence(
+      this.config.pilotSequence,
+      this.config.pilotInterval,
+    );
+
+    return [
+      dataTrits,
+      dataTrits +
+        pilots.countForDataLength(dataTrits) * pilots.getSequence().length,
+    ];
+  }
+
+  private getWindow(start: number, length: number): Float32Array | null {
+    const offset = start - this.bufferStart;
+    if (offset < 0 || length <= 0 || offset + length > this.buffer.length) {
+      return null;
+    }
+    return this.buffer.subarray(offset, offset + length);
+  }
+
+  // Drop samples no pending step can reach again
+  private trimBuffer(): void {
+    let keepFrom: number;
+    switch (this.state.phase) {
+      case "searching":
+        keepFrom =
+          this.searchOrigin +
+          Math.round(
+            (this.searchHop - this.hopHistory.length - 2) * this.hopSize,
+          );
+        break;
+      case "sync":
+        keepFrom = this.frameStart - 2 * this.hopSize;
+        break;
+      case "payload":
+        keepFrom = this.symbolStart(
+          this.preambleSymbols.length +
+            this.syncSymbols.length +
+            this.state.tritBuffer.length,
+        );
+        break;
+    }
+
+    const drop = Math.floor(keepFrom) - this.bufferStart;
+    if (drop >= this.config.sampleRate) {
+      this.buffer = this.buffer.slice(Math.min(drop, this.buffer.length));
+      this.bufferStart += drop;
+    }
+  }
+
+  // start is the sample offset of the window, under which the bank caches it
+  private toneStrengths(window: Float32Array, start: number): number[] {
+    if (this.goertzelBank) {
+      return this.goertzelBank.strengths(
+        window,
+        start,
+        this.config.toneFrequencies,
+      );
+    }
+    return Goertzel.getFrequencyStrengthsParametric(
+      window,
+      this.config.toneFrequencies,
+      this.config.sampleRate,
+    );
+  }
+
+  private toneShare(strengths: number[], tone: number): number {
+    const total = strengths.reduce((sum, strength) => sum + strength, 0);
+    return total > 0 ? strengths[tone] / total : 0;
+  }
+
+  private strongest(strengths: number[]): number {
+    return strengths.indexOf(Math.max(...strengths));
+  }
+
+  // A pure tone scores about 0.7 (Goertzel magnitude A/2 against RMS A/sqrt(2))
+  private hasCarrier(
+    window: Float32Array,
+    start: number,
+    strengths: number[],
+  ): boolean {
+    let rms: number;
+    if (this.goertzelBank) {
+      rms = this.goertzelBank.rms(window, start);
+    } else {
+      let sumSquares = 0;
+      for (let i = 0; i < window.length; i++) {
+        sumSquares += window[i] * window[i];
+      }
+      rms = Math.sqrt(sumSquares / window.length);
+    }
+    return (
+      rms > 1e-4 &&
+      Math.max(...strengths) / rms >= this.carrierThreshold &&
+      !this.isLeakage(window, start, strengths)
+    );
+  }
+
+  // Own tones far weaker than another channel's: sidelobes of its transmission
+  private isLeakage(
+    window: Float32Array,
+    start: number,
+    strengths: number[],
+  ): boolean {
+    if (!this.goertzelBank) {
+      return false;
+    }
+    const foreign = this.goertzelBank.strongestExcept(
+      window,
+      start,
+      this.config.toneFrequencies,
+    );
+    return Math.max(...strengths) < this.crossChannelRejection * foreign;
+  }
+
+  private setCarrier(present: boolean, sampleOffset: number): void {
+    if (present !== this.carrierPresent) {
+      this.carrierPresent = present;
+      this.emit("carrier", { present, sampleOffset });
+    }
+  }
+
+  private emit<E extends FeskStreamEventName>(
+    event: E,
+    payload: FeskStreamEvents[E],
+  ): void {
+    const listeners = this.listeners[event] as
+      | FeskStreamListener<E>[]
+      | undefined;
+    for (const listener of listeners ? [...listeners] : []) {
+      listener(payload);
+    }
+  }
+}
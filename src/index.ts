@@ -1,12 +1,105 @@
 export { FeskDecoder } from "./feskDecoder";
+export { FeskEncoder } from "./feskEncoder";
+export {
+  DecodePipeline,
+  DecodeStrategyRegistry,
+  createDecodeStrategyRegistry,
+  defaultDecodeStrategies,
+  completeDecodeStrategies,
+  type DecodeContext,
+  type DecodeStrategy,
+  type DecodePipelineOptions,
+  type DecodePipelineRunOptions,
+  type DecodePipelineAttempt,
+  type DecodePipelineResult,
+} from "./decodePipeline";
+export {
+  FeskDecodeError,
+  NoCarrier,
+  PreambleNotFound,
+  SyncMismatch,
+  LengthOutOfRange,
+  Truncated,
+  CrcMismatch,
+  InvalidAudio,
+  AbortError,
+  throwIfAborted,
+  type DecodeError,
+  type DecodeErrorKind,
+} from "./decodeErrors";
+export {
+  FeskStreamDecoder,
+  type FeskStreamDecoderOptions,
+  type FeskStreamEvents,
+  type FeskStreamEventName,
+  type FeskStreamLossReason,
+} from "./feskStreamDecoder";
+export {
+  MultiChannelReceiver,
+  type ReceiverChannel,
+  type MultiChannelEvents,
+} from "./multiChannelReceiver";
+export {
+  FeskDecodeStream,
+  type FeskDecodeStreamOptions,
+  type FeskFrameRecord,
+  type FeskMessageRecord,
+  type PcmSampleFormat,
+} from "./feskDecodeStream";
 export { ToneDetector } from "./toneDetector";
 export { PreambleDetector } from "./preambleDetector";
 export { SyncDetector } from "./syncDetector";
 export { WavReader, type WavReadOptions } from "./utils/wavReader";
+export {
+  WavWriter,
+  type WavWriteOptions,
+  type WavWriteInput,
+  type WavSampleFormat,
+  type WavInfoMetadata,
+} from "./utils/wavWriter";
 export { DEFAULT_CONFIG } from "./config";
 export * from "./types";
 export * from "./config";
+export { MessageFragmenter } from "./messageFragmenter";
+export {
+  MessageReassembler,
+  type MessageReassemblerOptions,
+  type PendingMessageStatus,
+} from "./messageReassembler";
+export { CRC32 } from "./utils/crc32";
+export { FrameHeaderCodec, type FrameHeaderFields } from "./utils/frameHeader";
 export { SymbolExtractor } from "./audio/symbolExtractor";
+export {
+  ChirpSync,
+  type ChirpSyncOptions,
+  type ChirpDetection,
+} from "./audio/chirpSync";
+export {
+  SymbolTimingLoop,
+  type SymbolTimingLoopOptions,
+} from "./audio/symbolTiming";
+export { GoertzelBank } from "./utils/goertzelBank";
+export { ToneLikelihood, type ToneLikelihoods } from "./utils/toneLikelihood";
+export {
+  FrequencyEstimator,
+  FrequencyTracker,
+  type SpectralPeak,
+  type ToneMeasurement,
+} from "./utils/frequencyEstimator";
+export {
+  ListDecoder,
+  type ListDecoderOptions,
+  type ListDecodeResult,
+} from "./utils/listDecoder";
+export {
+  ToneSynthesizer,
+  type ToneSynthesizerOptions,
+} from "./audio/toneSynthesizer";
+export {
+  ChannelSimulator,
+  type ChannelSimulatorOptions,
+  type ChannelImpairments,
+} from "./audio/channelSimulator";
 
 // Simple example usage
 if (require.main === module) {
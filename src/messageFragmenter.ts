@@ -0,0 +1,134 @@
+import { MessageFragment } from "./types";
+import { CRC32 } from "./utils/crc32";
+
+/**
+ * Splits messages larger than one frame into fragment payloads
+ *
+ * Fragment payload layout (big-endian):
+ *   [0]      0xF5 fragment marker
+ *   [1-2]    message ID
+ *   [3-4]    fragment index
+ *   [5-6]    fragment count
+ *   [7-10]   CRC-32 of the whole message
+ *   [11-]    fragment data
+ * Every fragment carries the message checksum, so any subset of fragments
+ * identifies its message regardless of arrival order.
+ */
+export class MessageFragmenter {
+  static readonly MARKER = 0xf5;
+  static readonly HEADER_LENGTH = 11;
+  static readonly MAX_FRAGMENT_DATA = 256 - MessageFragmenter.HEADER_LENGTH; // frame payload limit
+  static readonly MAX_FRAGMENTS = 0xffff;
+
+  private fragmentDataLength: number;
+
+  constructor(
+    fragmentDataLength: number = MessageFragmenter.MAX_FRAGMENT_DATA,
+  ) {
+    if (
+      !Number.isInteger(fragmentDataLength) ||
+      fragmentDataLength <= 0 ||
+      fragmentDataLength > MessageFragmenter.MAX_FRAGMENT_DATA
+    ) {
+      throw new Error(
+        `Invalid fragment data length: ${fragmentDataLength} (max ${MessageFragmenter.MAX_FRAGMENT_DATA})`,
+      );
+    }
+    this.fragmentDataLength = fragmentDataLength;
+  }
+
+  /**
+   * Split a message into frame payloads, one per fragment
+   * @param message Message bytes (at least one byte)
+   * @param messageId 16-bit ID shared by all fragments of the message
+   */
+  fragment(message: Uint8Array, messageId: number): Uint8Array[] {
+    if (message.length === 0) {
+      throw new Error("Message must contain at least one byte");
+    }
+
+    if (!Number.isInteger(messageId) || messageId < 0 || messageId > 0xffff) {
+      throw new Error(`Invalid message ID: ${messageId}`);
+    }
+
+    const fragmentCount = Math.ceil(message.length / this.fragmentDataLength);
+    if (fragmentCount > MessageFragmenter.MAX_FRAGMENTS) {
+      throw new Error(
+        `Message too long: ${message.length} bytes (max ${MessageFragmenter.MAX_FRAGMENTS * this.fragmentDataLength})`,
+      );
+    }
+
+    const checksum = CRC32.calculate(message);
+    const payloads: Uint8Array[] = [];
+
+    for (let index = 0; index < fragmentCount; index++) {
+      const data = message.subarray(
+        index * this.fragmentDataLength,
+        (index + 1) * this.fragmentDataLength,
+      );
+      payloads.push(
+        MessageFragmenter.buildFragment({
+          messageId,
+          fragmentIndex: index,
+          fragmentCount,
+          messageChecksum: checksum,
+          data,
+        }),
+      );
+    }
+
+    return payloads;
+  }
+
+  /**
+   * Serialize a fragment into a frame payload
+   */
+  static buildFragment(fragment: MessageFragment): Uint8Array {
+    const payload = new Uint8Array(
+      MessageFragmenter.HEADER_LENGTH + fragment.data.length,
+    );
+    const view = new DataView(payload.buffer);
+
+    view.setUint8(0, MessageFragmenter.MARKER);
+    view.setUint16(1, fragment.messageId);
+    view.setUint16(3, fragment.fragmentIndex);
+    view.setUint16(5, fragment.fragmentCount);
+    view.setUint32(7, fragment.messageChecksum >>> 0);
+    payload.set(fragment.data, MessageFragmenter.HEADER_LENGTH);
+
+    return payload;
+  }
+
+  /**
+   * Parse a frame payload as a fragment
+   * @returns The fragment, or null if the payload is not a well-formed fragment
+   */
+  static parseFragment(payload: Uint8Array): MessageFragment | null {
+    if (
+      payload.length <= MessageFragmenter.HEADER_LENGTH ||
+      payload[0] !== MessageFragmenter.MARKER
+    ) {
+      return null;
+    }
+
+    const view = new DataView(
+      payload.buffer,
+      payload.byteOffset,
+      payload.byteLength,
+    );
+    const fragmentIndex = view.getUint16(3);
+    const fragmentCount = view.getUint16(5);
+
+    if (fragmentCount === 0 || fragmentIndex >= fragmentCount) {
+      return null;
+    }
+
+    return {
+      messageId: view.getUint16(1),
+      fragmentIndex,
+      fragmentCount,
+      messageChecksum: view.getUint32(7),
+      data: payload.slice(MessageFragmenter.HEADER_LENGTH),
+    };
+  }
+}
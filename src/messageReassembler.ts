@@ -0,0 +1,130 @@
+import { Frame, MessageFragment, ReassembledMessage } from "./types";
+import { MessageFragmenter } from "./messageFragmenter";
+import { CRC32 } from "./utils/crc32";
+
+export interface MessageReassemblerOptions {
+  maxPendingMessages?: number; // oldest incomplete message is dropped beyond this
+}
+
+export interface PendingMessageStatus {
+  messageId: number;
+  fragmentCount: number;
+  receivedFragments: number;
+}
+
+interface PendingMessage {
+  messageId: number;
+  fragmentCount: number;
+  messageChecksum: number;
+  fragments: Map<number, Uint8Array>;
+}
+
+/**
+ * Collects fragments across frames and delivers complete messages
+ *
+ * Fragments may arrive in any order and more than once. A message is
+ * delivered once all its fragments are present and the whole-message CRC-32
+ * matches; repeats of an already delivered message are ignored.
+ */
+export class MessageReassembler {
+  private readonly maxPendingMessages: number;
+  private pending = new Map<string, PendingMessage>();
+  private delivered: string[] = [];
+
+  constructor(options: MessageReassemblerOptions = {}) {
+    this.maxPendingMessages = options.maxPendingMessages ?? 8;
+  }
+
+  /**
+   * Add a decoded frame; invalid frames and non-fragment payloads are ignored
+   * A versioned frame is a fragment only when its header says so; a legacy
+   * frame is taken for one when its payload opens with the fragment marker.
+   * @returns The reassembled message when this frame completes one
+   */
+  addFrame(frame: Frame): ReassembledMessage | null {
+    if (!frame.isValid || frame.header.flags?.fragment === false) {
+      return null;
+    }
+
+    const fragment = MessageFragmenter.parseFragment(frame.payload);
+    return fragment ? this.addFragment(fragment) : null;
+  }
+
+  addFragment(fragment: MessageFragment): ReassembledMessage | null {
+    // Checksum and count are part of the key so a reused ID starts afresh
+    const key = `${fragment.messageId}:${fragment.fragmentCount}:${fragment.messageChecksum}`;
+    if (this.delivered.includes(key)) {
+      return null;
+    }
+
+    let message = this.pending.get(key);
+    if (!message) {
+      message = {
+        messageId: fragment.messageId,
+        fragmentCount: fragment.fragmentCount,
+        messageChecksum: fragment.messageChecksum,
+        fragments: new Map(),
+      };
+      this.pending.set(key, message);
+      this.evictOldest();
+    }
+
+    if (!message.fragments.has(fragment.fragmentIndex)) {
+      message.fragments.set(fragment.fragmentIndex, fragment.data);
+    }
+
+    if (message.fragments.size < message.fragmentCount) {
+      return null;
+    }
+
+    this.pending.delete(key);
+
+    const parts: Uint8Array[] = [];
+    for (let index = 0; index < message.fragmentCount; index++) {
+      parts.push(message.fragments.get(index)!);
+    }
+    const data = new Uint8Array(
+      parts.reduce((sum, part) => sum + part.length, 0),
+    );
+    let offset = 0;
+    for (const part of parts) {
+      data.set(part, offset);
+      offset += part.length;
+    }
+
+    if (!CRC32.validate(data, message.messageChecksum)) {
+      return null;
+    }
+
+    this.delivered.push(key);
+    if (this.delivered.length > this.maxPendingMessages) {
+      this.delivered.shift();
+    }
+
+    return {
+      messageId: message.messageId,
+      data,
+      fragmentCount: message.fragmentCount,
+    };
+  }
+
+  getPendingMessages(): PendingMessageStatus[] {
+    return Array.from(this.pending.values()).map((message) => ({
+      messageId: message.messageId,
+      fragmentCount: message.fragmentCount,
+      receivedFragments: message.fragments.size,
+    }));
+  }
+
+  reset(): void {
+    this.pending.clear();
+    this.delivered = [];
+  }
+
+  private evictOldest(): void {
+    while (this.pending.size > this.maxPendingMessages) {
+      const oldest = this.pending.keys().next().value as string;
+      this.pending.delete(oldest);
+    }
+  }
+}
@@ -0,0 +1,170 @@
+import { FeskConfig } from "./config";
+import {
+  FeskStreamDecoder,
+  FeskStreamDecoderOptions,
+  FeskStreamEventName,
+  FeskStreamEvents,
+} from "./feskStreamDecoder";
+import { GoertzelBank } from "./utils/goertzelBank";
+
+export interface ReceiverChannel {
+  id: string; // tags every event of the channel
+  config: FeskConfig; // tone set of the channel's transmitters
+}
+
+export type MultiChannelEvents = {
+  [E in FeskStreamEventName]: FeskStreamEvents[E] & { channel: string };
+};
+
+type MultiChannelListener<E extends FeskStreamEventName> = (
+  event: MultiChannelEvents[E],
+) => void;
+
+const STREAM_EVENTS: FeskStreamEventName[] = [
+  "carrier",
+  "preamble",
+  "sync",
+  "trit",
+  "frame",
+  "crcError",
+  "message",
+  "lost",
+];
+
+// Closest two channels' tones may be, in Hz
+const MIN_CHANNEL_SEPARATION = 50;
+
+/**
+ * Receiver for several transmitters on different tone sets at once
+ *
+ * Every channel runs its own FeskStreamDecoder over the same audio, all
+ * measuring their tones through one GoertzelBank, so a window the channels
+ * share is analysed only once. A channel ignores its tones where they are
+ * far weaker than another channel's, so one loud transmitter does not raise
+ * false preambles on the others. Events carry the id of the channel that
+ * emitted them; within one write, channels report in the order given.
+ */
+export class MultiChannelReceiver {
+  private channels: { id: string; decoder: FeskStreamDecoder }[];
+  private goertzelBank: GoertzelBank;
+  private listeners: {
+    [E in FeskStreamEventName]?: MultiChannelListener<E>[];
+  } = {};
+
+  constructor(
+    channels: ReceiverChannel[],
+    options: FeskStreamDecoderOptions = {},
+  ) {
+    if (channels.length === 0) {
+      throw new Error("At least one channel is required");
+    }
+    const sampleRate = channels[0].config.sampleRate;
+    channels.forEach((channel, i) => {
+      if (channels.findIndex(({ id }) => id === channel.id) !== i) {
+        throw new Error(`Duplicate channel id: ${channel.id}`);
+      }
+      if (channel.config.sampleRate !== sampleRate) {
+        throw new Error(
+          `Channel ${channel.id} expects ${channel.config.sampleRate} Hz audio, not ${sampleRate} Hz`,
+        );
+      }
+      for (const other of channels.slice(0, i)) {
+        for (const frequency of channel.config.toneFrequencies) {
+          if (
+            other.config.toneFrequencies.some(
+              (tone) => Math.abs(tone - frequency) < MIN_CHANNEL_SEPARATION,
+            )
+          ) {
+            throw new Error(
+              `Channels ${other.id} and ${channel.id} both use ${frequency} Hz`,
+            );
+          }
+        }
+      }
+    });
+
+    this.goertzelBank = new GoertzelBank(
+      channels.flatMap((channel) => channel.config.toneFrequencies),
+      sampleRate,
+    );
+    this.channels = channels.map(({ id, config }) => {
+      const decoder = new FeskStreamDecoder(config, {
+        ...options,
+        goertzelBank: this.goertzelBank,
+      });
+      for (const event of STREAM_EVENTS) {
+        decoder.on(event, (payload) =>
+          this.emit(event, { ...payload, channel: id }),
+        );
+      }
+      return { id, decoder };
+    });
+  }
+
+  on<E extends FeskStreamEventName>(
+    event: E,
+    listener: MultiChannelListener<E>,
+  ): this {
+    const listeners = (this.listeners[event] ??
+      []) as MultiChannelListener<E>[];
+    listeners.push(listener);
+    (this.listeners as Record<E, MultiChannelListener<E>[]>)[event] = listeners;
+    return this;
+  }
+
+  off<E extends FeskStreamEventName>(
+    event: E,
+    listener: MultiChannelListener<E>,
+  ): this {
+    const listeners = this.listeners[event] as
+      | MultiChannelListener<E>[]
+      | undefined;
+    const index = listeners ? listeners.indexOf(listener) : -1;
+    if (index >= 0) {
+      listeners!.splice(index, 1);
+    }
+    return this;
+  }
+
+  getChannelIds(): string[] {
+    return this.channels.map(({ id }) => id);
+  }
+
+  /**
+   * Append a chunk of mono PCM samples, passed to every channel
+   */
+  write(samples: Float32Array): void {
+    for (const { decoder } of this.channels) {
+      decoder.write(samples);
+    }
+  }
+
+  /**
+   * End of stream on every channel, then start over from sample offset 0
+   */
+  flush(): void {
+    for (const { decoder } of this.channels) {
+      decoder.flush();
+    }
+    this.goertzelBank.clear();
+  }
+
+  reset(): void {
+    for (const { decoder } of this.channels) {
+      decoder.reset();
+    }
+    this.goertzelBank.clear();
+  }
+
+  private emit<E extends FeskStreamEventName>(
+    event: E,
+    payload: MultiChannelEvents[E],
+  ): void {
+    const listeners = this.listeners[event] as
+      | MultiChannelListener<E>[]
+      | undefined;
+    for (const listener of listeners ? [...listeners] : []) {
+      listener(payload);
+    }
+  }
+}
@@ -1,5 +1,10 @@
 import { ToneDetection, SymbolDetection } from "./types";
 import { FeskConfig } from "./config";
+import { ToneLikelihood } from "./utils/toneLikelihood";
+import {
+  FrequencyEstimator,
+  ToneMeasurement,
+} from "./utils/frequencyEstimator";
 
 export class PreambleDetector {
   private config: FeskConfig;
@@ -38,6 +43,14 @@ export class PreambleDetector {
           symbol,
           confidence: bestDetection.confidence,
           timestamp,
+          likelihoods:
+            bestDetection.likelihoods ??
+            ToneLikelihood.fromHardDecision(
+              symbol,
+              bestDetection.confidence,
+              this.config.toneFrequencies.length,
+            ),
+          frequency: bestDetection.measuredFrequency,
         });
       }
     }
@@ -46,14 +59,12 @@ export class PreambleDetector {
   }
 
   private toneToSymbol(frequency: number): number | null {
-    const [f0, f1, f2] = this.config.toneFrequencies;
     const tolerance = 50; // Hz tolerance
 
-    if (Math.abs(frequency - f0) < tolerance) return 0;
-    if (Math.abs(frequency - f1) < tolerance) return 1;
-    if (Math.abs(frequency - f2) < tolerance) return 2;
-
-    return null;
+    const symbol = this.config.toneFrequencies.findIndex(
+      (tone) => Math.abs(frequency - tone) < tolerance,
+    );
+    return symbol >= 0 ? symbol : null;
   }
 
   private addSymbol(symbol: SymbolDetection): void {
@@ -140,31 +151,32 @@ export class PreambleDetector {
         startTime,
         endTime,
         confidence: avgConfidence,
+        bitErrors: this.config.preambleBits.length - matches,
         estimatedSymbolDuration: this.estimatedSymbolDuration,
-        estimatedFrequencies: this.estimateFrequencies(),
+        estimatedFrequencies: this.estimateFrequencies(recentSymbols),
       };
     }
 
     return null;
   }
 
-  private estimateFrequencies(): [number, number, number] {
-    // Analyze recent symbols to refine frequency estimates
-    const frequencies = new Map<number, number[]>();
-
-    // Collect frequencies for each symbol type
-    for (const symbol of this.symbolBuffer.slice(-20)) {
-      // Last 20 symbols
-      if (!frequencies.has(symbol.symbol)) {
-        frequencies.set(symbol.symbol, []);
+  /**
+   * Tones measured over the preamble symbols; only f0 and f2 are sent in
+   * the preamble, so the other tones are inferred from them
+   */
+  private estimateFrequencies(preambleSymbols: SymbolDetection[]): number[] {
+    const measurements: ToneMeasurement[] = [];
+    preambleSymbols.forEach((detection, i) => {
+      const expected = this.config.preambleBits[i] === 1 ? 2 : 0;
+      if (detection.symbol === expected && detection.frequency !== undefined) {
+        measurements.push({ tone: expected, frequency: detection.frequency });
       }
-      // We don't have the original frequency here, so we'll use config values
-      // In a real implementation, we'd store the detected frequency with each symbol
-    }
+    });
 
-    // For now, return the configured frequencies
-    // TODO: Implement frequency refinement based on actual detections
-    return [...this.config.toneFrequencies] as [number, number, number];
+    return FrequencyEstimator.fitTones(
+      measurements,
+      this.config.toneFrequencies,
+    );
   }
 
   reset(): void {
@@ -179,6 +191,7 @@ export interface PreambleDetectionResult {
   startTime: number;
   endTime: number;
   confidence: number;
+  bitErrors: number; // preamble symbols that did not match
   estimatedSymbolDuration: number;
-  estimatedFrequencies: [number, number, number];
+  estimatedFrequencies: number[];
 }
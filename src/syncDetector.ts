@@ -1,6 +1,10 @@
 import { SymbolDetection } from "./types";
 import { FeskConfig } from "./config";
 
+// Fraction of sync bits that must match: two bit errors in a 13-bit sync
+// word, one in a 7-bit one
+const MIN_SYNC_MATCH_RATIO = 0.84;
+
 export class SyncDetector {
   private config: FeskConfig;
   private symbolBuffer: SymbolDetection[];
@@ -27,10 +31,10 @@ export class SyncDetector {
       return null;
     }
 
-    // Get the most recent symbols matching Barker-13 length
+    // Get the most recent symbols matching the sync word length
     const recentSymbols = this.symbolBuffer.slice(-this.config.barker13.length);
 
-    // Convert symbols to binary bits for Barker-13 matching
+    // Convert symbols to binary bits for sync word matching
     // Sync uses same binary alphabet as preamble: f0 = 0, f2 = 1
     const detectedBits: number[] = [];
     let totalConfidence = 0;
@@ -52,17 +56,16 @@ export class SyncDetector {
       totalConfidence += symbol.confidence;
     }
 
-    // Check correlation with Barker-13 sequence
+    // Check correlation with the sync word
     const correlation = this.calculateCorrelation(
       detectedBits,
       this.config.barker13,
     );
     const avgConfidence = totalConfidence / recentSymbols.length;
 
-    // Barker-13 has excellent autocorrelation properties
-    // Perfect match gives correlation of 13, any 1-bit error gives correlation <= 1
-    if (correlation >= 11 && avgConfidence >= 0.5) {
-      // Allow for 1-2 bit errors
+    // Correlation counts matching bits: the sync word length for a
+    // perfect match
+    if (this.isSyncMatch(correlation, avgConfidence)) {
       return {
         detected: true,
         startTime: recentSymbols[0].timestamp,
@@ -76,6 +79,13 @@ export class SyncDetector {
     return null;
   }
 
+  private isSyncMatch(correlation: number, avgConfidence: number): boolean {
+    return (
+      correlation / this.config.barker13.length >= MIN_SYNC_MATCH_RATIO &&
+      avgConfidence >= 0.5
+    );
+  }
+
   private calculateCorrelation(detected: number[], expected: number[]): number {
     if (detected.length !== expected.length) {
       return 0;
@@ -124,7 +134,7 @@ export class SyncDetector {
       const correlation = this.calculateCorrelation(bits, this.config.barker13);
       const avgConfidence = totalConfidence / window.length;
 
-      if (correlation >= 11 && avgConfidence >= 0.5) {
+      if (this.isSyncMatch(correlation, avgConfidence)) {
         results.push({
           detected: true,
           startTime: window[0].timestamp,
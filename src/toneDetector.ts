@@ -1,6 +1,11 @@
-import { ToneDetection, AudioSample } from "./types";
+import { ToneDetection, AudioSample, SymbolDetection } from "./types";
 import { FeskConfig } from "./config";
 import { Goertzel } from "./utils/goertzel";
+import { ToneLikelihood } from "./utils/toneLikelihood";
+import { FrequencyEstimator } from "./utils/frequencyEstimator";
+
+// Enough symbols for a complete transmission; extraction stops there
+const MAX_EXTRACTED_SYMBOLS = 300;
 
 export class ToneDetector {
   private config: FeskConfig;
@@ -70,6 +75,13 @@ export class ToneDetector {
         frequency: this.config.toneFrequencies[maxIndex],
         magnitude: maxStrength,
         confidence: confidence,
+        likelihoods: ToneLikelihood.fromStrengths(strengths),
+        measuredFrequency: FrequencyEstimator.refineTone(
+          windowedData,
+          this.config.toneFrequencies[maxIndex],
+          sampleRate,
+          maxStrength,
+        ),
       };
     }
 
@@ -129,6 +141,7 @@ export class ToneDetector {
         frequency: this.config.toneFrequencies[maxIndex],
         magnitude: maxStrength,
         confidence: confidence,
+        likelihoods: ToneLikelihood.fromStrengths(strengths),
       };
     }
 
@@ -183,20 +196,31 @@ export class ToneDetector {
     audioSample: AudioSample,
     startOffsetSeconds: number = 0,
   ): number[] {
-    const symbols: number[] = [];
+    return this.extractSymbolDetections(audioSample, startOffsetSeconds).map(
+      (detection) => detection.symbol,
+    );
+  }
+
+  /**
+   * Symbols of extractSymbols with per-symbol log-likelihoods for all tones
+   */
+  extractSymbolDetections(
+    audioSample: AudioSample,
+    startOffsetSeconds: number = 0,
+  ): SymbolDetection[] {
+    const detections: SymbolDetection[] = [];
     const data = audioSample.data;
     const sampleRate = audioSample.sampleRate;
 
     const symbolDurationSamples = Math.floor(this.symbolDuration * sampleRate);
-    const analysisWindowSamples = this.windowSize; // Use our optimized window size
+    const analysisWindowSamples = this.windowSize;
     const startOffsetSamples = Math.floor(startOffsetSeconds * sampleRate);
 
-    let symbolIndex = 0;
     const maxSymbols = Math.floor(
       (data.length - startOffsetSamples) / symbolDurationSamples,
     );
 
-    while (symbolIndex < maxSymbols) {
+    for (let symbolIndex = 0; symbolIndex < maxSymbols; symbolIndex++) {
       const symbolStartSample =
         startOffsetSamples + symbolIndex * symbolDurationSamples;
       const windowCenterSample =
@@ -208,20 +232,26 @@ export class ToneDetector {
       if (windowEndSample >= data.length) break;
 
       const segment = data.slice(windowStartSample, windowEndSample);
-      const result = Goertzel.detectStrongestToneParametric(
+      const strengths = Goertzel.getFrequencyStrengthsParametric(
         segment,
         this.config.toneFrequencies,
         sampleRate,
       );
-
-      symbols.push(result.toneIndex);
-      symbolIndex++;
-
-      // Stop if we have a reasonable number of symbols for a complete transmission
-      if (symbols.length >= 300) break;
+      const likelihoods = ToneLikelihood.fromStrengths(strengths);
+      const totalStrength = strengths.reduce((sum, s) => sum + s, 0);
+      const symbol = ToneLikelihood.mostLikely(likelihoods);
+
+      detections.push({
+        symbol,
+        confidence: totalStrength > 0 ? strengths[symbol] / totalStrength : 0,
+        timestamp: (symbolStartSample / sampleRate) * 1000,
+        likelihoods,
+      });
+
+      if (detections.length >= MAX_EXTRACTED_SYMBOLS) break;
     }
 
-    return symbols;
+    return detections;
   }
 
   /**
@@ -317,8 +347,7 @@ export class ToneDetector {
       symbols.push(bestTone);
       symbolIndex++;
 
-      // Stop if we have a reasonable number of symbols for a complete transmission
-      if (symbols.length >= 300) break;
+      if (symbols.length >= MAX_EXTRACTED_SYMBOLS) break;
     }
 
     return symbols;
@@ -331,8 +360,10 @@ export class ToneDetector {
     audioSample: AudioSample,
     searchWindow: number,
   ): number {
-    // Look for alternating 2-0 preamble pattern
-    const expectedPreamble = [2, 0, 2, 0, 2, 0, 2, 0];
+    // Look for the start of the preamble pattern
+    const expectedPreamble = this.config.preambleBits
+      .slice(0, 8)
+      .map((bit) => (bit === 1 ? 2 : 0));
     const data = audioSample.data;
     const sampleRate = audioSample.sampleRate;
     const symbolDurationSamples = Math.floor(this.symbolDuration * sampleRate);
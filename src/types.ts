@@ -1,3 +1,5 @@
+import type { DecodeError, DecodeErrorKind } from "./decodeErrors";
+
 export interface AudioSample {
   data: Float32Array;
   sampleRate: number;
@@ -13,12 +15,16 @@ export interface ToneDetection {
   frequency: number;
   magnitude: number;
   confidence: number;
+  likelihoods?: number[]; // normalized log-likelihoods for f0..f(M-1)
+  measuredFrequency?: number; // spectral peak near the detected tone, in Hz
 }
 
 export interface SymbolDetection {
-  symbol: number; // 0, 1, or 2 for ternary
+  symbol: number; // 0 to M-1, e.g. 0, 1, or 2 for ternary
   confidence: number;
   timestamp: number;
+  likelihoods: number[]; // normalized log-likelihoods per symbol value
+  frequency?: number; // measured tone frequency, in Hz
 }
 
 export interface Frame {
@@ -26,16 +32,136 @@ export interface Frame {
   payload: Uint8Array;
   crc: number;
   isValid: boolean;
+  pilots?: PilotReport; // present when the frame carried pilot slots
+  fec?: FecReport; // present when the frame carried Reed-Solomon parity
+  listDecoding?: ListDecodeReport; // present when recovered by the list decoder
+}
+
+export interface PilotReport {
+  pilotCount: number; // pilot slots carried inside the frame
+  mismatches: number; // pilot symbols that did not match the pilot sequence
+}
+
+export interface FecReport {
+  parityBytes: number; // parity bytes per Reed-Solomon block
+  correctedBytes: number; // byte errors corrected before the CRC check
+}
+
+export interface ListDecodeReport {
+  posterior: number; // probability the accepted sequence is the one sent, given the CRC passed
+  corrections: number; // symbols changed from the hard decisions
+  candidatesTried: number; // sequences checked against the CRC
+}
+
+export interface LocatedFrame {
+  frame: Frame;
+  startSample: number; // first sample of the preamble
+  endSample: number; // sample after the last payload symbol
+}
+
+export type DecodeStrategyName =
+  | "incremental" // chunked preamble/sync/payload state machine
+  | "fixedGrid" // fixed symbol grid at configured durations and offsets
+  | "timingSync" // symbol stream realigned on the preamble and sync
+  | "preambleCandidates" // symbol grids anchored on scored preamble positions
+  | "symbolExtractor" // tone set, duration and start search
+  | "listDecoding" // symbol extractor sequence repaired by the list decoder
+  | "chirpSync"; // symbols read from the sample-accurate start a chirp gives
+
+export type DecodeFailureReason = DecodeErrorKind;
+
+export interface DecodeCorrection {
+  kind: "pattern" | "list" | "fec"; // preamble/sync repair, list decoder, Reed-Solomon
+  count: number; // symbols changed, or bytes corrected for fec
+}
+
+/**
+ * Outcome of a decode attempt on an audio buffer
+ * Position and signal fields describe the winning frame and are null (or
+ * empty) when nothing decoded; the bit errors then come from the attempt
+ * that got furthest.
+ */
+export interface DecodeResult {
+  frame: Frame | null;
+  error: DecodeError | null; // null when the frame is valid
+  failureReason: DecodeFailureReason | null; // error kind
+  strategy: DecodeStrategyName | null;
+  frequencySet: string | null;
+  toneFrequencies: number[] | null;
+  symbolDuration: number | null; // seconds
+  startTime: number | null; // preamble start in seconds from the start of the audio
+  snrDb: number | null; // detected tone against the other tone bins, over the frame
+  symbolConfidences: number[]; // per transmitted symbol, preamble first
+  preambleBitErrors: number | null;
+  syncBitErrors: number | null;
+  corrections: DecodeCorrection[];
+  clockRatio: number | null; // nominal symbol duration over the period tracked by timing recovery
+  partial: boolean; // the time budget ran out before the search finished
+}
+
+/**
+ * Options of the audio decode entry points
+ * With a time budget, the search stops starting new candidates once it is
+ * spent and the result carries the best frame found so far. An aborted
+ * signal rejects the call with AbortError.
+ */
+export interface DecodeRunOptions {
+  timeBudgetMs?: number; // from the start of the call
+  deadline?: number; // Date.now() time; the earlier of the two applies
+  signal?: AbortSignal; // checked between candidates and chunk yields
+  onProgress?: (progress: DecodeProgress) => void;
+}
+
+/**
+ * Search loop a progress report comes from
+ * - frequencySets: chunked decoding over frequency sets and symbol durations
+ * - startTimes: symbol extractor grid search over start times
+ * - candidates: decoding of the symbol extractor's best candidates
+ */
+export type DecodeProgressPhase = "frequencySets" | "startTimes" | "candidates";
+
+export interface DecodeProgress {
+  phase: DecodeProgressPhase;
+  fraction: number; // 0..1 through the current phase
+  candidatesTried: number; // over the whole call
+  bestScoreSoFar: number | null; // best symbol extractor score; null before one is scored
 }
 
 export interface FrameHeader {
   payloadLength: number;
+  version?: number; // protocol version; absent on legacy frames
+  flags?: FrameFlags; // present on versioned frames
+}
+
+export interface FrameFlags {
+  fec: boolean; // Reed-Solomon parity follows the CRC
+  fragment: boolean; // the payload is a MessageFragmenter fragment
+  pilots: boolean; // pilot slots are inserted among the payload trits
+  reserved: number; // flag bits this version does not define, as sent
+}
+
+export interface MessageFragment {
+  messageId: number;
+  fragmentIndex: number; // 0-based position within the message
+  fragmentCount: number;
+  messageChecksum: number; // CRC-32 of the whole reassembled message
+  data: Uint8Array;
+}
+
+export interface ReassembledMessage {
+  messageId: number;
+  data: Uint8Array;
+  fragmentCount: number;
+}
+
+export interface LocatedMessage extends ReassembledMessage {
+  endSample: number; // sample after the frame that completed the message
 }
 
 export interface DecoderState {
   phase: "searching" | "preamble" | "sync" | "header" | "payload";
   symbolBuffer: SymbolDetection[];
   estimatedSymbolDuration: number;
-  estimatedFrequencies: [number, number, number];
+  estimatedFrequencies: number[];
   frameStartTime: number;
 }
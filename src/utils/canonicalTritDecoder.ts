@@ -1,35 +1,61 @@
+import { CanonicalTritEncoder } from "./canonicalTritEncoder";
+import { FrameHeaderCodec, FrameHeaderFields } from "./frameHeader";
+
 /**
  * Canonical MS-first trit decoder that matches the new TX format
  * Implements the exact reverse of pack_bytes_to_trits_msfirst
  * Fixed to handle very long sequences by using chunked processing
  * Now supports differential decoding as used in the TX library
+ * Trits are base-radix digits: radix 3 for the HT3 triad, M for M-ary profiles
  */
 export class CanonicalTritDecoder {
   private value: bigint = 0n;
   private useLegacyMode: boolean = false;
+  private readonly radix: number;
 
-  constructor() {
+  constructor(radix: number = 3) {
+    this.radix = radix;
     this.reset();
   }
 
   reset(): void {
     this.value = 0n;
+    this.useLegacyMode = false;
+  }
+
+  /**
+   * Read the frame header from descrambled frame bytes
+   * A known version nibble with a matching checksum marks a versioned
+   * header; anything else is read as a legacy length header and switches
+   * the decoder to legacy mode.
+   */
+  readHeader(plainBytes: Uint8Array): FrameHeaderFields {
+    const versioned = FrameHeaderCodec.parseVersioned(plainBytes);
+    this.useLegacyMode = versioned === null;
+    return versioned ?? FrameHeaderCodec.parseLegacy(plainBytes);
+  }
+
+  isLegacyMode(): boolean {
+    return this.useLegacyMode;
   }
 
   addTrit(trit: number): void {
-    if (trit < 0 || trit > 2) {
+    if (trit < 0 || trit >= this.radix) {
       throw new Error(`Invalid trit value: ${trit}`);
     }
 
-    // MS-trit-first: multiply current value by 3 and add new trit
-    this.value = this.value * 3n + BigInt(trit);
+    // MS-trit-first: multiply current value by the radix and add new trit
+    this.value = this.value * BigInt(this.radix) + BigInt(trit);
   }
 
   /**
    * Apply differential decoding to a sequence of trits
    * This reverses the differential encoding applied in the TX library
    */
-  static differentialDecode(encodedTrits: number[]): number[] {
+  static differentialDecode(
+    encodedTrits: number[],
+    radix: number = 3,
+  ): number[] {
     if (encodedTrits.length === 0) {
       return [];
     }
@@ -38,8 +64,8 @@ export class CanonicalTritDecoder {
     let previousTrit = 0; // Initialize to 0 as in TX library
 
     for (const encodedTrit of encodedTrits) {
-      // Reverse: original_trit = (encoded_trit - previous_trit + 3) % 3
-      const originalTrit = (encodedTrit - previousTrit + 3) % 3;
+      // Reverse: original_trit = (encoded_trit - previous_trit + radix) % radix
+      const originalTrit = (encodedTrit - previousTrit + radix) % radix;
       decodedTrits.push(originalTrit);
       previousTrit = encodedTrit; // Update previous trit to the encoded value
     }
@@ -53,22 +79,26 @@ export class CanonicalTritDecoder {
    */
   static decodeLongSequenceWithDifferential(
     encodedTrits: number[],
+    radix: number = 3,
   ): Uint8Array {
-    const decodedTrits = CanonicalTritDecoder.differentialDecode(encodedTrits);
-    return CanonicalTritDecoder.decodeLongSequence(decodedTrits);
+    const decodedTrits = CanonicalTritDecoder.differentialDecode(
+      encodedTrits,
+      radix,
+    );
+    return CanonicalTritDecoder.decodeLongSequence(decodedTrits, radix);
   }
 
   /**
-   * Correct implementation: Base-3 (MS-trit-first) -> bytes (MSB-first)
+   * Correct implementation: Base-radix (MS-trit-first) -> bytes (MSB-first)
    * This is the exact inverse of the TX pack_bytes_to_trits_msfirst algorithm
    */
-  static decodeLongSequence(trits: number[]): Uint8Array {
+  static decodeLongSequence(trits: number[], radix: number = 3): Uint8Array {
     if (trits.length === 0) {
       return new Uint8Array([0]);
     }
 
     // Use correct iterative base conversion for all sequences
-    // digits: base-3, MS→LS (don't reverse the input trits!)
+    // digits: base-radix, MS→LS (don't reverse the input trits!)
     let digits = trits.slice();
     const out: number[] = [];
 
@@ -78,21 +108,76 @@ export class CanonicalTritDecoder {
 
       // Process digits MS-first (left to right)
       for (const d of digits) {
-        // cur ∈ [0..(3*255+2)] fits in JS number exactly
-        const cur = carry * 3 + d;
+        // cur ∈ [0..(radix*255+radix-1)] fits in JS number exactly
+        const cur = carry * radix + d;
         const qDigit = Math.floor(cur / 256);
         carry = cur % 256;
         if (q.length || qDigit) q.push(qDigit);
       }
 
       out.push(carry); // remainder (LS byte)
-      digits = q; // next quotient in base-3 (MS→LS)
+      digits = q; // next quotient in base-radix (MS→LS)
     }
 
     out.reverse(); // make bytes MSB-first
     return new Uint8Array(out);
   }
 
+  /**
+   * Inverse of CanonicalTritEncoder.encodeBytesBlockwise
+   * @returns Bytes, or null if the trit count matches no blockwise byte count
+   */
+  static decodeBlockwise(
+    trits: number[],
+    blockBytes: number,
+    radix: number = 3,
+  ): Uint8Array | null {
+    const blockTrits = CanonicalTritEncoder.tritCountForBytes(
+      blockBytes,
+      radix,
+    );
+    const fullBlocks = Math.floor(trits.length / blockTrits);
+    const remainderTrits = trits.length - fullBlocks * blockTrits;
+
+    let remainderBytes = 0;
+    if (remainderTrits > 0) {
+      while (
+        remainderBytes < blockBytes &&
+        CanonicalTritEncoder.tritCountForBytes(remainderBytes, radix) <
+          remainderTrits
+      ) {
+        remainderBytes++;
+      }
+      if (
+        CanonicalTritEncoder.tritCountForBytes(remainderBytes, radix) !==
+        remainderTrits
+      ) {
+        return null;
+      }
+    }
+
+    const bytes = new Uint8Array(fullBlocks * blockBytes + remainderBytes);
+    let offset = 0;
+    for (let start = 0; start < trits.length; ) {
+      const count =
+        offset + blockBytes <= bytes.length ? blockBytes : remainderBytes;
+      const groupTrits = CanonicalTritEncoder.tritCountForBytes(count, radix);
+      const group = CanonicalTritDecoder.decodeLongSequence(
+        trits.slice(start, start + groupTrits),
+        radix,
+      );
+
+      // Keep the low-order bytes: a corrupted group can exceed 256^count
+      const kept = group.slice(Math.max(0, group.length - count));
+      bytes.set(kept, offset + count - kept.length);
+
+      offset += count;
+      start += groupTrits;
+    }
+
+    return bytes;
+  }
+
   /**
    * Extract bytes in MS-byte-first order
    * This is the exact reverse of the canonical packing algorithm
@@ -0,0 +1,150 @@
+/**
+ * Canonical MS-first trit encoder matching the TX format
+ * Implements pack_bytes_to_trits_msfirst, the exact inverse of
+ * CanonicalTritDecoder.decodeLongSequence
+ * The radix is the tone count: trits for the HT3 triad, base-M digits for
+ * M-ary profiles
+ */
+export class CanonicalTritEncoder {
+  // FEC frames pack bytes in small blocks so a trit error stays local
+  static readonly FEC_BLOCK_BYTES = 2;
+
+  /**
+   * Number of trits the TX library emits for a given byte count:
+   * the smallest k such that radix^k >= 256^n
+   */
+  static tritCountForBytes(byteCount: number, radix: number = 3): number {
+    if (byteCount <= 0) {
+      return 0;
+    }
+
+    const limit = 1n << BigInt(byteCount * 8);
+    const base = BigInt(radix);
+    let capacity = 1n;
+    let trits = 0;
+
+    while (capacity < limit) {
+      capacity *= base;
+      trits++;
+    }
+
+    return trits;
+  }
+
+  /**
+   * Bytes (MSB-first) -> base-radix (MS-trit-first), left-padded with zero
+   * trits to the fixed length used by the TX library
+   */
+  static encodeBytes(bytes: Uint8Array, radix: number = 3): number[] {
+    CanonicalTritEncoder.validateRadix(radix);
+    const tritCount = CanonicalTritEncoder.tritCountForBytes(
+      bytes.length,
+      radix,
+    );
+    const out: number[] = [];
+
+    // digits: base-256, MS→LS
+    let digits = Array.from(bytes);
+
+    while (digits.length > 0) {
+      const q: number[] = [];
+      let carry = 0;
+
+      for (const d of digits) {
+        // cur ∈ [0..(256*(radix-1)+255)] fits in JS number exactly
+        const cur = carry * 256 + d;
+        const qDigit = Math.floor(cur / radix);
+        carry = cur % radix;
+        if (q.length || qDigit) q.push(qDigit);
+      }
+
+      out.push(carry); // remainder (LS trit)
+      digits = q; // next quotient in base-256 (MS→LS)
+    }
+
+    while (out.length < tritCount) {
+      out.push(0);
+    }
+
+    out.reverse(); // make trits MS-first
+    return out;
+  }
+
+  /**
+   * Pack bytes block by block: every blockBytes bytes become an independent
+   * canonical trit group, and a shorter final block uses its own trit count
+   */
+  static encodeBytesBlockwise(
+    bytes: Uint8Array,
+    blockBytes: number,
+    radix: number = 3,
+  ): number[] {
+    const trits: number[] = [];
+    for (let start = 0; start < bytes.length; start += blockBytes) {
+      trits.push(
+        ...CanonicalTritEncoder.encodeBytes(
+          bytes.subarray(start, start + blockBytes),
+          radix,
+        ),
+      );
+    }
+    return trits;
+  }
+
+  /**
+   * Number of trits encodeBytesBlockwise emits for a given byte count
+   */
+  static tritCountForBlockwise(
+    byteCount: number,
+    blockBytes: number,
+    radix: number = 3,
+  ): number {
+    return (
+      Math.floor(byteCount / blockBytes) *
+        CanonicalTritEncoder.tritCountForBytes(blockBytes, radix) +
+      CanonicalTritEncoder.tritCountForBytes(byteCount % blockBytes, radix)
+    );
+  }
+
+  /**
+   * Apply differential encoding to a sequence of trits
+   * This is the inverse of CanonicalTritDecoder.differentialDecode
+   */
+  static differentialEncode(trits: number[], radix: number = 3): number[] {
+    CanonicalTritEncoder.validateRadix(radix);
+    const encodedTrits: number[] = [];
+    let previousTrit = 0; // Initialize to 0 as in TX library
+
+    for (const trit of trits) {
+      if (!Number.isInteger(trit) || trit < 0 || trit >= radix) {
+        throw new Error(`Invalid trit value: ${trit}`);
+      }
+
+      // encoded_trit = (trit + previous_encoded) % radix
+      const encodedTrit = (trit + previousTrit) % radix;
+      encodedTrits.push(encodedTrit);
+      previousTrit = encodedTrit;
+    }
+
+    return encodedTrits;
+  }
+
+  /**
+   * Encode bytes and apply differential encoding in one step
+   */
+  static encodeBytesWithDifferential(
+    bytes: Uint8Array,
+    radix: number = 3,
+  ): number[] {
+    return CanonicalTritEncoder.differentialEncode(
+      CanonicalTritEncoder.encodeBytes(bytes, radix),
+      radix,
+    );
+  }
+
+  private static validateRadix(radix: number): void {
+    if (!Number.isInteger(radix) || radix < 2 || radix > 256) {
+      throw new Error(`Invalid radix: ${radix}`);
+    }
+  }
+}
@@ -0,0 +1,33 @@
+export class CRC32 {
+  private static readonly POLY = 0xedb88320; // CRC-32/IEEE, reflected
+  private static table: Uint32Array | null = null;
+
+  static calculate(data: Uint8Array, initValue: number = 0xffffffff): number {
+    const table = CRC32.getTable();
+    let crc = initValue >>> 0;
+
+    for (let i = 0; i < data.length; i++) {
+      crc = table[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+    }
+
+    return (crc ^ 0xffffffff) >>> 0;
+  }
+
+  static validate(data: Uint8Array, expectedCrc: number): boolean {
+    return CRC32.calculate(data) === expectedCrc >>> 0;
+  }
+
+  private static getTable(): Uint32Array {
+    if (!CRC32.table) {
+      CRC32.table = new Uint32Array(256);
+      for (let n = 0; n < 256; n++) {
+        let c = n;
+        for (let k = 0; k < 8; k++) {
+          c = c & 1 ? CRC32.POLY ^ (c >>> 1) : c >>> 1;
+        }
+        CRC32.table[n] = c >>> 0;
+      }
+    }
+    return CRC32.table;
+  }
+}
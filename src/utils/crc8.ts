@@ -0,0 +1,17 @@
+export class CRC8 {
+  private static readonly POLY = 0x07; // CRC-8/SMBUS polynomial
+
+  static calculate(data: Uint8Array, initValue: number = 0x00): number {
+    let crc = initValue;
+
+    for (let i = 0; i < data.length; i++) {
+      crc ^= data[i];
+      for (let bit = 0; bit < 8; bit++) {
+        crc = crc & 0x80 ? (crc << 1) ^ CRC8.POLY : crc << 1;
+      }
+      crc &= 0xff;
+    }
+
+    return crc;
+  }
+}
@@ -0,0 +1,117 @@
+import { FrameFlags, FrameHeader } from "../types";
+import { CRC8 } from "./crc8";
+
+export interface FrameHeaderFields {
+  header: FrameHeader;
+  parityBytes: number; // Reed-Solomon parity bytes per block, 0 without FEC
+  length: number; // header bytes before the payload
+}
+
+const FLAG_FEC = 0x1;
+const FLAG_FRAGMENT = 0x2;
+const FLAG_PILOTS = 0x4;
+
+/**
+ * Plain (unscrambled) frame header layouts, big-endian:
+ *
+ * Legacy, 2 bytes:
+ *   [0-1]  parity bytes (bits 9-15) | payload length (bits 0-8)
+ *
+ * Versioned, 4 bytes:
+ *   [0]    version (bits 4-7) | flags (bits 0-3)
+ *   [1-2]  parity bytes (bits 9-15) | payload length (bits 0-8)
+ *   [3]    CRC-8 of bytes 0-2
+ *
+ * A legacy header with 8-15 parity bytes also opens with a version 1 nibble;
+ * the checksum tells the layouts apart, except 1 time in 256.
+ */
+export class FrameHeaderCodec {
+  static readonly VERSION = 1;
+  static readonly LEGACY_LENGTH = 2;
+  static readonly VERSIONED_LENGTH = 4;
+
+  /**
+   * @param flags - Flags of a versioned header, or null for a legacy header
+   */
+  static encode(
+    payloadLength: number,
+    parityBytes: number,
+    flags: FrameFlags | null,
+  ): Uint8Array {
+    const lengthWord = (parityBytes << 9) | payloadLength;
+    if (!flags) {
+      return new Uint8Array([(lengthWord >> 8) & 0xff, lengthWord & 0xff]);
+    }
+
+    const header = new Uint8Array(FrameHeaderCodec.VERSIONED_LENGTH);
+    header[0] =
+      (FrameHeaderCodec.VERSION << 4) | FrameHeaderCodec.packFlags(flags);
+    header[1] = (lengthWord >> 8) & 0xff;
+    header[2] = lengthWord & 0xff;
+    header[3] = CRC8.calculate(header.subarray(0, 3));
+    return header;
+  }
+
+  /**
+   * @returns null unless the bytes open with a known version and a matching
+   * header checksum
+   */
+  static parseVersioned(plainBytes: Uint8Array): FrameHeaderFields | null {
+    if (plainBytes.length < FrameHeaderCodec.VERSIONED_LENGTH) {
+      return null;
+    }
+    const version = plainBytes[0] >> 4;
+    if (
+      version === 0 ||
+      version > FrameHeaderCodec.VERSION ||
+      CRC8.calculate(plainBytes.subarray(0, 3)) !== plainBytes[3]
+    ) {
+      return null;
+    }
+
+    const lengthWord = (plainBytes[1] << 8) | plainBytes[2];
+    return {
+      header: {
+        payloadLength: lengthWord & 0x1ff,
+        version,
+        flags: FrameHeaderCodec.unpackFlags(plainBytes[0] & 0x0f),
+      },
+      parityBytes: lengthWord >> 9,
+      length: FrameHeaderCodec.VERSIONED_LENGTH,
+    };
+  }
+
+  static parseLegacy(plainBytes: Uint8Array): FrameHeaderFields {
+    const lengthWord = (plainBytes[0] << 8) | plainBytes[1];
+    return {
+      header: { payloadLength: lengthWord & 0x1ff },
+      parityBytes: lengthWord >> 9,
+      length: FrameHeaderCodec.LEGACY_LENGTH,
+    };
+  }
+
+  // Header bytes of a parsed frame
+  static lengthOf(header: FrameHeader): number {
+    return header.version === undefined
+      ? FrameHeaderCodec.LEGACY_LENGTH
+      : FrameHeaderCodec.VERSIONED_LENGTH;
+  }
+
+  private static packFlags(flags: FrameFlags): number {
+    return (
+      (flags.fec ? FLAG_FEC : 0) |
+      (flags.fragment ? FLAG_FRAGMENT : 0) |
+      (flags.pilots ? FLAG_PILOTS : 0) |
+      (flags.reserved & ~(FLAG_FEC | FLAG_FRAGMENT | FLAG_PILOTS) & 0x0f)
+    );
+  }
+
+  private static unpackFlags(bits: number): FrameFlags {
+    return {
+      fec: (bits & FLAG_FEC) !== 0,
+      fragment: (bits & FLAG_FRAGMENT) !== 0,
+      pilots: (bits & FLAG_PILOTS) !== 0,
+      reserved: bits & ~(FLAG_FEC | FLAG_FRAGMENT | FLAG_PILOTS),
+    };
+  }
+}
@@ -0,0 +1,205 @@
+import { Goertzel } from "./goertzel";
+
+export interface SpectralPeak {
+  frequency: number; // in Hz
+  strength: number; // Goertzel magnitude; 0 when no peak lies inside the span
+}
+
+export interface ToneMeasurement {
+  tone: number; // index into the nominal tones
+  frequency: number; // measured, in Hz
+}
+
+/**
+ * Automatic frequency control: measures where the received tones actually
+ * are, so detection does not have to guess from a fixed set of tone scales
+ */
+export class FrequencyEstimator {
+  /**
+   * Strongest spectral peak within ±span of a nominal tone
+   * The segment is Hann-windowed and swept in quarter-bin steps; the peak is
+   * refined with parabolic interpolation over the log magnitudes. When the
+   * sweep is strongest at either end, no peak lies inside the span and the
+   * nominal tone is returned with strength 0.
+   *
+   * @param segment - Audio samples to analyze
+   * @param nominal - Tone the peak is searched around (in Hz)
+   * @param sampleRate - Sample rate of the audio (in Hz)
+   * @param span - Search half-width as a fraction of the nominal tone
+   */
+  static findPeak(
+    segment: Float32Array,
+    nominal: number,
+    sampleRate: number,
+    span: number = 0.02,
+  ): SpectralPeak {
+    if (segment.length === 0) {
+      return { frequency: nominal, strength: 0 };
+    }
+
+    const windowed = FrequencyEstimator.hann(segment);
+    const step = sampleRate / segment.length / 4;
+    const halfWidth = Math.max(step, nominal * span);
+    const frequencies: number[] = [];
+    const levels: number[] = [];
+    for (
+      let f = nominal - halfWidth;
+      f <= nominal + halfWidth + 1e-9;
+      f += step
+    ) {
+      frequencies.push(f);
+      levels.push(
+        Math.log(
+          Goertzel.getFrequencyStrengthParametric(windowed, f, sampleRate) +
+            1e-12,
+        ),
+      );
+    }
+
+    let peak = 0;
+    for (let i = 1; i < levels.length; i++) {
+      if (levels[i] > levels[peak]) peak = i;
+    }
+    if (peak === 0 || peak === levels.length - 1) {
+      return { frequency: nominal, strength: 0 };
+    }
+
+    const [left, center, right] = levels.slice(peak - 1, peak + 2);
+    const denominator = left - 2 * center + right;
+    const shift = denominator < 0 ? (0.5 * (left - right)) / denominator : 0;
+    return {
+      frequency: frequencies[peak] + shift * step,
+      strength: Math.exp(center),
+    };
+  }
+
+  /**
+   * Three-point refinement of a tone detected in an already windowed segment
+   * Cheap enough for every detection window, but only accurate within about
+   * a bin of the tone.
+   *
+   * @param strength - Goertzel strength at the tone itself
+   * @returns Estimated frequency in Hz, at most one bin from the tone
+   */
+  static refineTone(
+    windowed: Float32Array,
+    tone: number,
+    sampleRate: number,
+    strength: number,
+  ): number {
+    const bin = sampleRate / windowed.length;
+    const level = (frequency: number) =>
+      Math.log(
+        Goertzel.getFrequencyStrengthParametric(
+          windowed,
+          frequency,
+          sampleRate,
+        ) + 1e-12,
+      );
+    const left = level(tone - bin);
+    const center = Math.log(strength + 1e-12);
+    const right = level(tone + bin);
+    const denominator = left - 2 * center + right;
+    if (!(denominator < 0)) {
+      return tone;
+    }
+    const shift = (0.5 * (left - right)) / denominator;
+    return tone + Math.max(-1, Math.min(1, shift)) * bin;
+  }
+
+  /**
+   * Tone frequencies fitted to measurements of some of the tones
+   * Two measured tones fix an offset and a scale, so the others are inferred
+   * from their nominal spacing; a single tone gives a scale only.
+   *
+   * @returns The nominal tones when nothing was measured
+   */
+  static fitTones(
+    measurements: readonly ToneMeasurement[],
+    nominal: readonly number[],
+  ): number[] {
+    const sums = new Map<number, { total: number; count: number }>();
+    for (const { tone, frequency } of measurements) {
+      if (!Number.isFinite(frequency) || nominal[tone] === undefined) continue;
+      const sum = sums.get(tone) ?? { total: 0, count: 0 };
+      sum.total += frequency;
+      sum.count++;
+      sums.set(tone, sum);
+    }
+
+    const means = [...sums.entries()]
+      .map(([tone, { total, count }]) => ({ tone, frequency: total / count }))
+      .sort((a, b) => nominal[a.tone] - nominal[b.tone]);
+
+    let scale = 1;
+    let offset = 0;
+    if (means.length >= 2) {
+      const low = means[0];
+      const high = means[means.length - 1];
+      scale =
+        (high.frequency - low.frequency) /
+        (nominal[high.tone] - nominal[low.tone]);
+      offset = low.frequency - scale * nominal[low.tone];
+    } else if (means.length === 1) {
+      scale = means[0].frequency / nominal[means[0].tone];
+    }
+
+    return nominal.map((tone) => tone * scale + offset);
+  }
+
+  private static hann(segment: Float32Array): Float32Array {
+    const windowed = new Float32Array(segment.length);
+    const denominator = Math.max(1, segment.length - 1);
+    for (let i = 0; i < segment.length; i++) {
+      windowed[i] =
+        segment[i] * (0.5 - 0.5 * Math.cos((2 * Math.PI * i) / denominator));
+    }
+    return windowed;
+  }
+}
+
+/**
+ * Follows slow drift of all tones together, as from a sample clock offset
+ * Each measurement moves the tones a fraction of the way towards the scale
+ * it implies.
+ */
+export class FrequencyTracker {
+  private tones: number[];
+  private readonly gain: number;
+  private readonly maxStep: number;
+
+  /**
+   * @param initial - Tones at the start of tracking, e.g. from the preamble
+   * @param gain - Share of each measured error that is applied
+   * @param maxStep - Largest relative correction a single measurement may apply
+   */
+  constructor(
+    initial: readonly number[],
+    gain: number = 0.1,
+    maxStep: number = 0.002,
+  ) {
+    this.tones = [...initial];
+    this.gain = gain;
+    this.maxStep = maxStep;
+  }
+
+  update(tone: number, measured: number): void {
+    const expected = this.tones[tone];
+    if (
+      expected === undefined ||
+      !(expected > 0) ||
+      !Number.isFinite(measured)
+    ) {
+      return;
+    }
+    const correction = Math.max(
+      -this.maxStep,
+      Math.min(this.maxStep, this.gain * (measured / expected - 1)),
+    );
+    this.tones = this.tones.map((frequency) => frequency * (1 + correction));
+  }
+
+  getTones(): number[] {
+    return [...this.tones];
+  }
+}
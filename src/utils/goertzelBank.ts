@@ -0,0 +1,134 @@
+import { Goertzel } from "./goertzel";
+
+interface WindowAnalysis {
+  strengths: Float64Array; // per bank frequency, NaN until computed
+  rms: number; // NaN until computed
+}
+
+/**
+ * Goertzel filters over the tones of several receivers reading one audio
+ * stream
+ *
+ * Windows are identified by their first sample and length, so receivers that
+ * look at the same window share its strengths; each tone is computed the
+ * first time any receiver asks for it. The oldest windows are dropped once
+ * the cache is full. Call clear() whenever the sample offsets start over.
+ */
+export class GoertzelBank {
+  private readonly frequencies: number[];
+  private readonly sampleRate: number;
+  private readonly capacity: number;
+  private readonly indexByFrequency = new Map<number, number>();
+  private windows = new Map<string, WindowAnalysis>();
+
+  /**
+   * @param frequencies - Every tone any receiver will ask for (in Hz)
+   * @param capacity - Windows kept before the oldest are dropped
+   */
+  constructor(
+    frequencies: readonly number[],
+    sampleRate: number,
+    capacity: number = 4096,
+  ) {
+    this.frequencies = [...new Set(frequencies)];
+    this.sampleRate = sampleRate;
+    this.capacity = capacity;
+    this.frequencies.forEach((frequency, index) =>
+      this.indexByFrequency.set(frequency, index),
+    );
+  }
+
+  getFrequencies(): number[] {
+    return [...this.frequencies];
+  }
+
+  /**
+   * @param window - Audio samples of the window
+   * @param start - Sample offset of the window's first sample
+   * @param frequencies - Tones to measure, all from the bank
+   * @returns Strengths in the same order as frequencies
+   */
+  strengths(
+    window: Float32Array,
+    start: number,
+    frequencies: readonly number[],
+  ): number[] {
+    const analysis = this.analysis(window, start);
+    return frequencies.map((frequency) => {
+      const index = this.indexByFrequency.get(frequency);
+      if (index === undefined) {
+        throw new Error(`Frequency not in the Goertzel bank: ${frequency} Hz`);
+      }
+      return this.strengthAt(analysis, window, index);
+    });
+  }
+
+  /**
+   * Strongest bank tone other than the given ones, e.g. the tones of the
+   * other receivers
+   */
+  strongestExcept(
+    window: Float32Array,
+    start: number,
+    frequencies: readonly number[],
+  ): number {
+    const analysis = this.analysis(window, start);
+    let strongest = 0;
+    this.frequencies.forEach((frequency, index) => {
+      if (!frequencies.includes(frequency)) {
+        strongest = Math.max(
+          strongest,
+          this.strengthAt(analysis, window, index),
+        );
+      }
+    });
+    return strongest;
+  }
+
+  rms(window: Float32Array, start: number): number {
+    const analysis = this.analysis(window, start);
+    if (Number.isNaN(analysis.rms)) {
+      let sumSquares = 0;
+      for (let i = 0; i < window.length; i++) {
+        sumSquares += window[i] * window[i];
+      }
+      analysis.rms = Math.sqrt(sumSquares / window.length);
+    }
+    return analysis.rms;
+  }
+
+  clear(): void {
+    this.windows.clear();
+  }
+
+  private analysis(window: Float32Array, start: number): WindowAnalysis {
+    const key = `${start}:${window.length}`;
+    let analysis = this.windows.get(key);
+    if (!analysis) {
+      analysis = {
+        strengths: new Float64Array(this.frequencies.length).fill(NaN),
+        rms: NaN,
+      };
+      this.windows.set(key, analysis);
+      if (this.windows.size > this.capacity) {
+        this.windows.delete(this.windows.keys().next().value!);
+      }
+    }
+    return analysis;
+  }
+
+  private strengthAt(
+    analysis: WindowAnalysis,
+    window: Float32Array,
+    index: number,
+  ): number {
+    if (Number.isNaN(analysis.strengths[index])) {
+      analysis.strengths[index] = Goertzel.getFrequencyStrengthParametric(
+        window,
+        this.frequencies[index],
+        this.sampleRate,
+      );
+    }
+    return analysis.strengths[index];
+  }
+}
@@ -0,0 +1,32 @@
+export class LFSRScrambler {
+  private state: number;
+  private readonly polynomial = 0x0211; // x^9 + x^5 + 1
+  private readonly seed = 0x1ff;
+
+  constructor() {
+    this.state = this.seed;
+  }
+
+  reset(): void {
+    this.state = this.seed;
+  }
+
+  scrambleByte(plainByte: number): number {
+    let scrambled = 0;
+
+    for (let i = 0; i < 8; i++) {
+      // Extract bit 0 from LFSR
+      const lfsrBit = this.state & 1;
+
+      // XOR with input bit to scramble (same keystream as LFSRDescrambler)
+      const inputBit = (plainByte >> i) & 1;
+      scrambled |= (inputBit ^ lfsrBit) << i;
+
+      // Advance LFSR: feedback polynomial (match RX exactly)
+      const feedback = ((this.state >> 8) ^ (this.state >> 4)) & 1;
+      this.state = ((this.state << 1) | feedback) & 0x1ff;
+    }
+
+    return scrambled;
+  }
+}
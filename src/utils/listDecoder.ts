@@ -0,0 +1,238 @@
+import { Frame, ListDecodeReport } from "../types";
+import { ToneLikelihoods } from "./toneLikelihood";
+
+export interface ListDecoderOptions {
+  listSize?: number; // most likely sequences checked against the CRC
+  minPosterior?: number; // reject CRC matches below this posterior probability
+}
+
+export interface ListDecodeResult {
+  frame: Frame;
+  sequence: number[];
+  modifications: { index: number; from: number; to: number }[];
+  report: ListDecodeReport;
+}
+
+interface Alternative {
+  index: number;
+  symbol: number;
+  cost: number; // log-likelihood lost against the received symbol
+}
+
+interface Chain {
+  alternative: number;
+  previous: Chain | null;
+}
+
+interface SearchState {
+  cost: number;
+  last: number;
+  chain: Chain;
+}
+
+/**
+ * CRC-guided list decoder over soft symbol decisions
+ *
+ * Symbol sequences are enumerated in order of decreasing likelihood under
+ * independent per-symbol log-likelihoods, and the first one the verifier
+ * accepts is returned. Because the enumeration is ordered, the posterior of
+ * that match can be bounded: every more likely sequence failed the CRC, and
+ * any unexplored sequence passes a 16-bit CRC with probability 2^-16.
+ */
+export class ListDecoder {
+  static readonly CRC_FALSE_ACCEPT_PROBABILITY = Math.pow(2, -16);
+
+  private readonly listSize: number;
+  private readonly minPosterior: number;
+
+  constructor(options: ListDecoderOptions = {}) {
+    this.listSize = options.listSize ?? 256;
+    this.minPosterior = options.minPosterior ?? 0;
+  }
+
+  /**
+   * @param symbols Received hard symbols
+   * @param likelihoods Log-likelihoods per symbol, aligned with symbols
+   * @param startIndex First position that may be changed (e.g. the payload start)
+   * @param verify Returns a frame when the sequence passes the CRC
+   */
+  decode(
+    symbols: number[],
+    likelihoods: ToneLikelihoods[],
+    startIndex: number,
+    verify: (sequence: number[]) => Frame | null,
+  ): ListDecodeResult | null {
+    const alternatives: Alternative[] = [];
+    let baseLogProbability = 0;
+
+    for (let i = startIndex; i < symbols.length; i++) {
+      const likelihood = likelihoods[i];
+      const received = symbols[i];
+      if (!likelihood || received < 0 || received >= likelihood.length) {
+        continue;
+      }
+
+      baseLogProbability += likelihood[received];
+      for (let symbol = 0; symbol < likelihood.length; symbol++) {
+        if (symbol === received) continue;
+        alternatives.push({
+          index: i,
+          symbol,
+          cost: Math.max(0, likelihood[received] - likelihood[symbol]),
+        });
+      }
+    }
+
+    alternatives.sort((a, b) => a.cost - b.cost);
+
+    const heap: SearchState[] = [];
+    let exploredProbability = 0;
+    let candidatesTried = 0;
+
+    const tryCandidate = (
+      chain: Chain | null,
+      cost: number,
+    ): ListDecodeResult | null => {
+      const sequence = [...symbols];
+      const modifications: ListDecodeResult["modifications"] = [];
+      for (let link = chain; link; link = link.previous) {
+        const { index, symbol } = alternatives[link.alternative];
+        modifications.unshift({ index, from: symbols[index], to: symbol });
+        sequence[index] = symbol;
+      }
+
+      candidatesTried++;
+      const logProbability = baseLogProbability - cost;
+      exploredProbability += Math.exp(logProbability);
+
+      const frame = verify(sequence);
+      if (!frame || !frame.isValid) {
+        return null;
+      }
+
+      const posterior = this.posterior(logProbability, exploredProbability);
+      if (posterior < this.minPosterior) {
+        return null;
+      }
+
+      const report: ListDecodeReport = {
+        posterior,
+        corrections: modifications.length,
+        candidatesTried,
+      };
+      frame.listDecoding = report;
+      return { frame, sequence, modifications, report };
+    };
+
+    const base = tryCandidate(null, 0);
+    if (base) {
+      return base;
+    }
+
+    if (alternatives.length > 0) {
+      this.push(heap, {
+        cost: alternatives[0].cost,
+        last: 0,
+        chain: { alternative: 0, previous: null },
+      });
+    }
+
+    // Each subset of changes is reached once: either extend it with the next
+    // alternative or swap its last alternative for the next one.
+    // Inconsistent subsets are skipped, so the pops need their own bound.
+    let pops = 0;
+    while (
+      heap.length > 0 &&
+      candidatesTried < this.listSize &&
+      pops++ < this.listSize * 16
+    ) {
+      const state = this.pop(heap);
+      const next = state.last + 1;
+
+      if (next < alternatives.length) {
+        this.push(heap, {
+          cost: state.cost + alternatives[next].cost,
+          last: next,
+          chain: { alternative: next, previous: state.chain },
+        });
+        this.push(heap, {
+          cost:
+            state.cost -
+            alternatives[state.last].cost +
+            alternatives[next].cost,
+          last: next,
+          chain: { alternative: next, previous: state.chain.previous },
+        });
+      }
+
+      // Two alternatives for the same symbol are not a valid sequence
+      if (!this.isConsistent(state.chain, alternatives)) continue;
+
+      const result = tryCandidate(state.chain, state.cost);
+      if (result) {
+        return result;
+      }
+    }
+
+    return null;
+  }
+
+  // P(match | CRC passed) given that all more likely sequences failed
+  private posterior(
+    logProbability: number,
+    exploredProbability: number,
+  ): number {
+    const unexplored = Math.max(0, 1 - exploredProbability);
+    const logRatio =
+      Math.log(unexplored * ListDecoder.CRC_FALSE_ACCEPT_PROBABILITY) -
+      logProbability;
+    return 1 / (1 + Math.exp(logRatio));
+  }
+
+  private isConsistent(chain: Chain, alternatives: Alternative[]): boolean {
+    const seen = new Set<number>();
+    for (let link: Chain | null = chain; link; link = link.previous) {
+      const index = alternatives[link.alternative].index;
+      if (seen.has(index)) {
+        return false;
+      }
+      seen.add(index);
+    }
+    return true;
+  }
+
+  private push(heap: SearchState[], state: SearchState): void {
+    heap.push(state);
+    let i = heap.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (heap[parent].cost <= heap[i].cost) break;
+      [heap[parent], heap[i]] = [heap[i], heap[parent]];
+      i = parent;
+    }
+  }
+
+  private pop(heap: SearchState[]): SearchState {
+    const top = heap[0];
+    const last = heap.pop()!;
+    if (heap.length > 0) {
+      heap[0] = last;
+      let i = 0;
+      for (;;) {
+        const left = 2 * i + 1;
+        const right = left + 1;
+        let smallest = i;
+        if (left < heap.length && heap[left].cost < heap[smallest].cost) {
+          smallest = left;
+        }
+        if (right < heap.length && heap[right].cost < heap[smallest].cost) {
+          smallest = right;
+        }
+        if (smallest === i) break;
+        [heap[smallest], heap[i]] = [heap[i], heap[smallest]];
+        i = smallest;
+      }
+    }
+    return top;
+  }
+}
@@ -0,0 +1,121 @@
+import { PilotReport } from "../types";
+
+export interface PilotRemovalResult {
+  trits: number[]; // data trits with pilot slots removed
+  slotIndices: number[]; // index of each pilot slot in the input sequence
+  slotMismatches: number[]; // mismatched pilot symbols per slot
+}
+
+/**
+ * Pilot insertion and removal for the payload trit stream
+ *
+ * The TX inserts the pilot sequence after every `interval` data trits, as long
+ * as more data follows. Pilots are raw tones and do not take part in the
+ * differential encoding chain, so they are stripped before differential decoding.
+ */
+export class PilotSequence {
+  private readonly pilot: number[];
+  private readonly interval: number;
+
+  constructor(pilot: readonly number[], interval: number) {
+    this.pilot = [...pilot];
+    this.interval = interval;
+  }
+
+  isEnabled(): boolean {
+    return this.interval > 0 && this.pilot.length > 0;
+  }
+
+  /**
+   * Insert pilots into a data trit stream
+   */
+  insert(trits: number[]): number[] {
+    if (!this.isEnabled()) {
+      return [...trits];
+    }
+
+    const output: number[] = [];
+    for (let i = 0; i < trits.length; i++) {
+      output.push(trits[i]);
+      if ((i + 1) % this.interval === 0 && i + 1 < trits.length) {
+        output.push(...this.pilot);
+      }
+    }
+
+    return output;
+  }
+
+  /**
+   * Remove every pilot slot from a received symbol stream
+   */
+  remove(symbols: number[]): PilotRemovalResult {
+    const result: PilotRemovalResult = {
+      trits: [],
+      slotIndices: [],
+      slotMismatches: [],
+    };
+
+    if (!this.isEnabled()) {
+      result.trits = [...symbols];
+      return result;
+    }
+
+    const period = this.interval + this.pilot.length;
+    for (let start = 0; start < symbols.length; start += period) {
+      const dataEnd = Math.min(start + this.interval, symbols.length);
+      result.trits.push(...symbols.slice(start, dataEnd));
+
+      // Data only continues after a complete pilot slot, so anything
+      // shorter than a slot at the end is an incomplete pilot or trailing noise
+      if (dataEnd + this.pilot.length > symbols.length) {
+        break;
+      }
+
+      let mismatches = 0;
+      for (let j = 0; j < this.pilot.length; j++) {
+        if (symbols[dataEnd + j] !== this.pilot[j]) {
+          mismatches++;
+        }
+      }
+      result.slotIndices.push(dataEnd);
+      result.slotMismatches.push(mismatches);
+    }
+
+    return result;
+  }
+
+  /**
+   * Number of pilot slots a transmitter inserts for a given data trit count
+   */
+  countForDataLength(dataTrits: number): number {
+    if (!this.isEnabled() || dataTrits <= 0) {
+      return 0;
+    }
+    return Math.floor((dataTrits - 1) / this.interval);
+  }
+
+  /**
+   * Pilot quality for a frame occupying the first `dataTrits` data trits
+   */
+  report(removal: PilotRemovalResult, dataTrits: number): PilotReport {
+    const pilotCount = Math.min(
+      this.countForDataLength(dataTrits),
+      removal.slotMismatches.length,
+    );
+
+    let mismatches = 0;
+    for (let i = 0; i < pilotCount; i++) {
+      mismatches += removal.slotMismatches[i];
+    }
+
+    return { pilotCount, mismatches };
+  }
+
+  getSequence(): number[] {
+    return [...this.pilot];
+  }
+
+  getInterval(): number {
+    return this.interval;
+  }
+}
@@ -0,0 +1,339 @@
+export interface ReedSolomonDecodeResult {
+  data: Uint8Array; // corrected data bytes (parity removed)
+  correctedBytes: number;
+}
+
+// GF(256) log/antilog tables for the primitive polynomial x^8 + x^4 + x^3 + x^2 + 1
+const GF_EXP = new Uint8Array(512);
+const GF_LOG = new Uint8Array(256);
+
+(() => {
+  let x = 1;
+  for (let i = 0; i < 255; i++) {
+    GF_EXP[i] = x;
+    GF_LOG[x] = i;
+    x <<= 1;
+    if (x & 0x100) {
+      x ^= 0x11d;
+    }
+  }
+  for (let i = 255; i < 512; i++) {
+    GF_EXP[i] = GF_EXP[i - 255];
+  }
+})();
+
+const gfMul = (a: number, b: number): number =>
+  a === 0 || b === 0 ? 0 : GF_EXP[GF_LOG[a] + GF_LOG[b]];
+
+const gfDiv = (a: number, b: number): number => {
+  if (b === 0) {
+    throw new Error("Division by zero in GF(256)");
+  }
+  return a === 0 ? 0 : GF_EXP[(GF_LOG[a] + 255 - GF_LOG[b]) % 255];
+};
+
+const gfPow = (exponent: number): number =>
+  GF_EXP[((exponent % 255) + 255) % 255];
+
+// Evaluate a polynomial stored lowest degree first
+const evalLowFirst = (poly: number[], x: number): number => {
+  let y = 0;
+  for (let i = poly.length - 1; i >= 0; i--) {
+    y = gfMul(y, x) ^ poly[i];
+  }
+  return y;
+};
+
+/**
+ * Systematic Reed–Solomon code over GF(256)
+ *
+ * Generator roots are α^0..α^(parityBytes-1), so each codeword of at most
+ * 255 bytes corrects up to floor(parityBytes / 2) byte errors. Longer
+ * messages are split into near-equal blocks by encodeBlocks; the data bytes
+ * stay contiguous and the parity of every block follows them in order.
+ */
+export class ReedSolomon {
+  static readonly MAX_CODEWORD_LENGTH = 255;
+
+  private readonly parityBytes: number;
+  private readonly generator: number[]; // highest degree first
+
+  constructor(parityBytes: number) {
+    if (
+      !Number.isInteger(parityBytes) ||
+      parityBytes <= 0 ||
+      parityBytes >= ReedSolomon.MAX_CODEWORD_LENGTH
+    ) {
+      throw new Error(`Invalid Reed-Solomon parity length: ${parityBytes}`);
+    }
+
+    this.parityBytes = parityBytes;
+
+    let generator = [1];
+    for (let i = 0; i < parityBytes; i++) {
+      // Multiply by (x - α^i)
+      const next = [...generator, 0];
+      for (let j = 0; j < generator.length; j++) {
+        next[j + 1] ^= gfMul(generator[j], gfPow(i));
+      }
+      generator = next;
+    }
+    this.generator = generator;
+  }
+
+  getParityBytes(): number {
+    return this.parityBytes;
+  }
+
+  /**
+   * Parity bytes for a single codeword
+   */
+  encode(data: Uint8Array): Uint8Array {
+    this.validateDataLength(data.length);
+
+    const remainder = new Uint8Array(this.parityBytes);
+    for (let i = 0; i < data.length; i++) {
+      const coefficient = data[i] ^ remainder[0];
+      remainder.copyWithin(0, 1);
+      remainder[this.parityBytes - 1] = 0;
+
+      if (coefficient !== 0) {
+        for (let j = 0; j < this.parityBytes; j++) {
+          remainder[j] ^= gfMul(this.generator[j + 1], coefficient);
+        }
+      }
+    }
+
+    return remainder;
+  }
+
+  /**
+   * Correct a single codeword (data followed by parity)
+   * @returns Corrected data, or null when the errors exceed the code's capacity
+   */
+  decode(codeword: Uint8Array): ReedSolomonDecodeResult | null {
+    const length = codeword.length;
+    if (
+      length <= this.parityBytes ||
+      length > ReedSolomon.MAX_CODEWORD_LENGTH
+    ) {
+      return null;
+    }
+
+    // Syndromes S_i = r(α^i); the first byte is the highest power
+    const syndromes: number[] = [];
+    let hasErrors = false;
+    for (let i = 0; i < this.parityBytes; i++) {
+      let value = 0;
+      for (let k = 0; k < length; k++) {
+        value = gfMul(value, gfPow(i)) ^ codeword[k];
+      }
+      syndromes.push(value);
+      hasErrors = hasErrors || value !== 0;
+    }
+
+    const dataLength = length - this.parityBytes;
+    if (!hasErrors) {
+      return { data: codeword.slice(0, dataLength), correctedBytes: 0 };
+    }
+
+    const locator = this.findErrorLocator(syndromes);
+    const errorCount = locator.length - 1;
+    if (errorCount * 2 > this.parityBytes) {
+      return null;
+    }
+
+    // Chien search: an error at power e has locator root α^(-e)
+    const powers: number[] = [];
+    for (let e = 0; e < length; e++) {
+      if (evalLowFirst(locator, gfPow(-e)) === 0) {
+        powers.push(e);
+      }
+    }
+    if (powers.length !== errorCount) {
+      return null;
+    }
+
+    // Forney: Ω(x) = S(x)Λ(x) mod x^P, Y = X Ω(X^-1) / Λ'(X^-1)
+    const evaluator = new Array<number>(this.parityBytes).fill(0);
+    for (let i = 0; i < this.parityBytes; i++) {
+      for (let j = 0; j < locator.length && i + j < this.parityBytes; j++) {
+        evaluator[i + j] ^= gfMul(syndromes[i], locator[j]);
+      }
+    }
+    const derivative = locator.slice(1).map((c, i) => (i % 2 === 0 ? c : 0));
+
+    const corrected = codeword.slice();
+    for (const e of powers) {
+      const inverse = gfPow(-e);
+      const denominator = evalLowFirst(derivative, inverse);
+      if (denominator === 0) {
+        return null;
+      }
+      const magnitude = gfMul(
+        gfPow(e),
+        gfDiv(evalLowFirst(evaluator, inverse), denominator),
+      );
+      corrected[length - 1 - e] ^= magnitude;
+    }
+
+    return {
+      data: corrected.slice(0, dataLength),
+      correctedBytes: errorCount,
+    };
+  }
+
+  /**
+   * Number of codewords needed to protect dataLength bytes
+   */
+  blockCount(dataLength: number): number {
+    return Math.ceil(
+      dataLength / (ReedSolomon.MAX_CODEWORD_LENGTH - this.parityBytes),
+    );
+  }
+
+  /**
+   * Total encoded length for dataLength bytes across all blocks
+   */
+  encodedLength(dataLength: number): number {
+    return dataLength + this.blockCount(dataLength) * this.parityBytes;
+  }
+
+  /**
+   * Data length that encodes to exactly encodedLength bytes, or null if none does
+   */
+  dataLengthFor(encodedLength: number): number | null {
+    for (let blocks = 1; blocks * this.parityBytes < encodedLength; blocks++) {
+      const dataLength = encodedLength - blocks * this.parityBytes;
+      if (this.blockCount(dataLength) === blocks) {
+        return dataLength;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Encode data of any length: data bytes followed by the parity of each block
+   */
+  encodeBlocks(data: Uint8Array): Uint8Array {
+    const blocks = this.splitBlocks(data.length);
+    const output = new Uint8Array(this.encodedLength(data.length));
+    output.set(data);
+
+    blocks.forEach(([start, end], index) => {
+      output.set(
+        this.encode(data.subarray(start, end)),
+        data.length + index * this.parityBytes,
+      );
+    });
+
+    return output;
+  }
+
+  /**
+   * Inverse of encodeBlocks; fails if any block is uncorrectable
+   */
+  decodeBlocks(encoded: Uint8Array): ReedSolomonDecodeResult | null {
+    const dataLength = this.dataLengthFor(encoded.length);
+    if (dataLength === null || dataLength <= 0) {
+      return null;
+    }
+
+    const data = new Uint8Array(dataLength);
+    let correctedBytes = 0;
+
+    const blocks = this.splitBlocks(dataLength);
+    for (let index = 0; index < blocks.length; index++) {
+      const [start, end] = blocks[index];
+      const parityStart = dataLength + index * this.parityBytes;
+      const codeword = new Uint8Array(end - start + this.parityBytes);
+      codeword.set(encoded.subarray(start, end));
+      codeword.set(
+        encoded.subarray(parityStart, parityStart + this.parityBytes),
+        end - start,
+      );
+
+      const result = this.decode(codeword);
+      if (!result) {
+        return null;
+      }
+      data.set(result.data, start);
+      correctedBytes += result.correctedBytes;
+    }
+
+    return { data, correctedBytes };
+  }
+
+  private splitBlocks(dataLength: number): Array<[number, number]> {
+    const count = this.blockCount(dataLength);
+    const base = Math.floor(dataLength / count);
+    const extra = dataLength % count;
+    const blocks: Array<[number, number]> = [];
+
+    let start = 0;
+    for (let i = 0; i < count; i++) {
+      const end = start + base + (i < extra ? 1 : 0);
+      blocks.push([start, end]);
+      start = end;
+    }
+
+    return blocks;
+  }
+
+  private validateDataLength(length: number): void {
+    if (
+      length <= 0 ||
+      length + this.parityBytes > ReedSolomon.MAX_CODEWORD_LENGTH
+    ) {
+      throw new Error(
+        `Invalid Reed-Solomon data length: ${length} (max ${ReedSolomon.MAX_CODEWORD_LENGTH - this.parityBytes})`,
+      );
+    }
+  }
+
+  // Berlekamp–Massey; returns Λ(x) lowest degree first, trimmed to its degree
+  private findErrorLocator(syndromes: number[]): number[] {
+    let current = [1];
+    let previous = [1];
+    let degree = 0;
+    let shift = 1;
+    let previousDiscrepancy = 1;
+
+    for (let n = 0; n < syndromes.length; n++) {
+      let discrepancy = syndromes[n];
+      for (let i = 1; i <= degree && i < current.length; i++) {
+        discrepancy ^= gfMul(current[i], syndromes[n - i]);
+      }
+
+      if (discrepancy === 0) {
+        shift++;
+        continue;
+      }
+
+      const scale = gfDiv(discrepancy, previousDiscrepancy);
+      const next = [...current];
+      for (let i = 0; i < previous.length; i++) {
+        while (next.length <= i + shift) {
+          next.push(0);
+        }
+        next[i + shift] ^= gfMul(scale, previous[i]);
+      }
+
+      if (2 * degree <= n) {
+        previous = current;
+        degree = n + 1 - degree;
+        previousDiscrepancy = discrepancy;
+        shift = 1;
+      } else {
+        shift++;
+      }
+      current = next;
+    }
+
+    const locator = current.slice(0, degree + 1);
+    while (locator.length < degree + 1) {
+      locator.push(0);
+    }
+    return locator;
+  }
+}
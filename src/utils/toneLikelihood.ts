@@ -0,0 +1,102 @@
+export type ToneLikelihoods = number[]; // one per tone, f0 first
+
+/**
+ * Soft tone decisions as normalized log-likelihoods
+ *
+ * Each symbol carries ln P(tone k | observation) for all M tones, so the
+ * values of one symbol always satisfy logsumexp = 0. Goertzel magnitudes are
+ * turned into energies and scaled by a noise estimate taken from the weaker
+ * tones, as in non-coherent FSK detection.
+ */
+export class ToneLikelihood {
+  // Floor so a single hard-looking symbol can still be overturned downstream
+  static readonly MIN_LOG_LIKELIHOOD = -20;
+
+  static uniform(toneCount: number = 3): ToneLikelihoods {
+    return new Array<number>(toneCount).fill(-Math.log(toneCount));
+  }
+
+  /**
+   * Log-likelihoods from the Goertzel strengths of one symbol window, one
+   * strength per tone
+   */
+  static fromStrengths(strengths: readonly number[]): ToneLikelihoods {
+    const energies = strengths.map((s) => s * s);
+    const maxEnergy = Math.max(...energies);
+    if (!(maxEnergy > 0)) {
+      return ToneLikelihood.uniform(energies.length);
+    }
+
+    // The weaker tones approximate the noise energy per tone
+    const sorted = [...energies].sort((a, b) => a - b);
+    const weaker = sorted.slice(0, -1);
+    const noise = Math.max(
+      weaker.reduce((sum, energy) => sum + energy, 0) / weaker.length,
+      maxEnergy * 1e-3,
+    );
+
+    return ToneLikelihood.normalize(energies.map((energy) => energy / noise));
+  }
+
+  /**
+   * Log-likelihoods for a hard decision with a known confidence (0-1)
+   * Used where only the winning tone and its energy ratio are available
+   */
+  static fromHardDecision(
+    symbol: number,
+    confidence: number,
+    toneCount: number = 3,
+  ): ToneLikelihoods {
+    if (symbol < 0 || symbol >= toneCount) {
+      return ToneLikelihood.uniform(toneCount);
+    }
+
+    const p = Math.min(Math.max(confidence, 1 / toneCount), 1);
+    const others = (1 - p) / (toneCount - 1);
+    return ToneLikelihood.normalize(
+      Array.from({ length: toneCount }, (_, tone) =>
+        Math.log(tone === symbol ? p : others),
+      ),
+    );
+  }
+
+  /**
+   * Reorder likelihoods from detector tone order to symbol order
+   * @param mapping mapping[tone] = symbol
+   */
+  static permute(
+    likelihoods: ToneLikelihoods,
+    mapping: readonly number[],
+  ): ToneLikelihoods {
+    const permuted: ToneLikelihoods = new Array<number>(likelihoods.length);
+    for (let tone = 0; tone < likelihoods.length; tone++) {
+      permuted[mapping[tone]] = likelihoods[tone];
+    }
+    return permuted;
+  }
+
+  static mostLikely(likelihoods: ToneLikelihoods): number {
+    return likelihoods.indexOf(Math.max(...likelihoods));
+  }
+
+  static probabilities(likelihoods: ToneLikelihoods): ToneLikelihoods {
+    return likelihoods.map((value) => Math.exp(value));
+  }
+
+  // Log-softmax with the floor applied, then renormalized
+  private static normalize(scores: number[]): ToneLikelihoods {
+    const logNormalize = (values: number[]) => {
+      const max = Math.max(...values);
+      const logSum =
+        max +
+        Math.log(values.reduce((sum, value) => sum + Math.exp(value - max), 0));
+      return values.map((value) => value - logSum);
+    };
+
+    return logNormalize(
+      logNormalize(scores).map((value) =>
+        Math.max(value, ToneLikelihood.MIN_LOG_LIKELIHOOD),
+      ),
+    );
+  }
+}
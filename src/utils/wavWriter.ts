@@ -0,0 +1,204 @@
+import * as fs from "fs";
+import { AudioSample } from "../types";
+
+export type WavSampleFormat = "pcm16" | "pcm24" | "float32";
+
+export interface WavInfoMetadata {
+  title?: string; // INAM
+  artist?: string; // IART
+  comment?: string; // ICMT
+  software?: string; // ISFT
+  date?: string; // ICRD
+  genre?: string; // IGNR
+  copyright?: string; // ICOP
+}
+
+export interface WavWriteOptions {
+  format?: WavSampleFormat;
+  sampleRate?: number; // required unless writing an AudioSample
+  metadata?: WavInfoMetadata;
+}
+
+export type WavWriteInput = Float32Array | Float32Array[] | AudioSample;
+
+const INFO_CHUNK_IDS: Record<keyof WavInfoMetadata, string> = {
+  title: "INAM",
+  artist: "IART",
+  comment: "ICMT",
+  software: "ISFT",
+  date: "ICRD",
+  genre: "IGNR",
+  copyright: "ICOP",
+};
+
+const WAVE_FORMAT_PCM = 0x0001;
+const WAVE_FORMAT_IEEE_FLOAT = 0x0003;
+
+export class WavWriter {
+  /**
+   * Encode samples into a complete RIFF/WAVE file buffer
+   * @param input Mono samples, one array per channel, or an AudioSample
+   * @param options Sample format, sample rate and optional LIST/INFO metadata
+   */
+  static encode(input: WavWriteInput, options: WavWriteOptions = {}): Buffer {
+    const { format = "pcm16", metadata } = options;
+    const channels = WavWriter.getChannels(input);
+    const sampleRate =
+      options.sampleRate ??
+      (WavWriter.isAudioSample(input) ? input.sampleRate : undefined);
+
+    if (!sampleRate || sampleRate <= 0) {
+      throw new Error("A positive sampleRate is required to write WAV data");
+    }
+
+    if (channels.length === 0) {
+      throw new Error("At least one channel is required to write WAV data");
+    }
+
+    const frameCount = channels[0].length;
+    if (channels.some((channel) => channel.length !== frameCount)) {
+      throw new Error("All channels must have the same length");
+    }
+
+    const bytesPerSample = format === "pcm16" ? 2 : format === "pcm24" ? 3 : 4;
+    const isFloat = format === "float32";
+    const numChannels = channels.length;
+    const blockAlign = numChannels * bytesPerSample;
+    const dataLength = frameCount * blockAlign;
+    const dataPadding = dataLength % 2;
+
+    // Float files carry the extended fmt chunk and a fact chunk
+    const fmtChunkSize = isFloat ? 18 : 16;
+    const factChunk = isFloat ? 12 : 0;
+    const listChunk = WavWriter.buildInfoChunk(metadata);
+
+    const riffSize =
+      4 +
+      (8 + fmtChunkSize) +
+      factChunk +
+      listChunk.length +
+      (8 + dataLength + dataPadding);
+    const buffer = Buffer.alloc(8 + riffSize);
+    let offset = 0;
+
+    offset += buffer.write("RIFF", offset, "ascii");
+    offset = buffer.writeUInt32LE(riffSize, offset);
+    offset += buffer.write("WAVE", offset, "ascii");
+
+    offset += buffer.write("fmt ", offset, "ascii");
+    offset = buffer.writeUInt32LE(fmtChunkSize, offset);
+    offset = buffer.writeUInt16LE(
+      isFloat ? WAVE_FORMAT_IEEE_FLOAT : WAVE_FORMAT_PCM,
+      offset,
+    );
+    offset = buffer.writeUInt16LE(numChannels, offset);
+    offset = buffer.writeUInt32LE(sampleRate, offset);
+    offset = buffer.writeUInt32LE(sampleRate * blockAlign, offset);
+    offset = buffer.writeUInt16LE(blockAlign, offset);
+    offset = buffer.writeUInt16LE(bytesPerSample * 8, offset);
+    if (isFloat) {
+      offset = buffer.writeUInt16LE(0, offset); // cbSize
+      offset += buffer.write("fact", offset, "ascii");
+      offset = buffer.writeUInt32LE(4, offset);
+      offset = buffer.writeUInt32LE(frameCount, offset);
+    }
+
+    offset += listChunk.copy(buffer, offset);
+
+    offset += buffer.write("data", offset, "ascii");
+    offset = buffer.writeUInt32LE(dataLength, offset);
+
+    for (let i = 0; i < frameCount; i++) {
+      for (let channel = 0; channel < numChannels; channel++) {
+        const value = channels[channel][i];
+
+        if (isFloat) {
+          offset = buffer.writeFloatLE(value, offset);
+          continue;
+        }
+
+        const sample = Math.max(-1, Math.min(1, value));
+        if (format === "pcm16") {
+          const intSample = Math.round(
+            sample < 0 ? sample * 0x8000 : sample * 0x7fff,
+          );
+          offset = buffer.writeInt16LE(intSample, offset);
+        } else {
+          const intSample = Math.round(
+            sample < 0 ? sample * 0x800000 : sample * 0x7fffff,
+          );
+          offset = buffer.writeIntLE(intSample, offset, 3);
+        }
+      }
+    }
+
+    return buffer;
+  }
+
+  /**
+   * Write samples to a WAV file on disk
+   */
+  static async writeWavFile(
+    filePath: string,
+    input: WavWriteInput,
+    options: WavWriteOptions = {},
+  ): Promise<void> {
+    const buffer = WavWriter.encode(input, options);
+    try {
+      await fs.promises.writeFile(filePath, buffer);
+    } catch (error) {
+      throw new Error(`Failed to write WAV file: ${error}`);
+    }
+  }
+
+  private static isAudioSample(input: WavWriteInput): input is AudioSample {
+    return !(input instanceof Float32Array) && !Array.isArray(input);
+  }
+
+  private static getChannels(input: WavWriteInput): Float32Array[] {
+    if (input instanceof Float32Array) {
+      return [input];
+    }
+    if (Array.isArray(input)) {
+      return input;
+    }
+    return [input.data];
+  }
+
+  /**
+   * Build a LIST chunk of type INFO; empty when no metadata is provided
+   */
+  private static buildInfoChunk(metadata?: WavInfoMetadata): Buffer {
+    if (!metadata) {
+      return Buffer.alloc(0);
+    }
+
+    const subChunks: Buffer[] = [];
+    for (const key of Object.keys(INFO_CHUNK_IDS) as Array<
+      keyof WavInfoMetadata
+    >) {
+      const value = metadata[key];
+      if (value === undefined || value === "") continue;
+
+      // INFO strings are NUL-terminated and padded to an even length
+      const text = Buffer.from(`${value}\0`, "utf8");
+      const padded = Buffer.alloc(text.length + (text.length % 2));
+      text.copy(padded);
+
+      const header = Buffer.alloc(8);
+      header.write(INFO_CHUNK_IDS[key], 0, "ascii");
+      header.writeUInt32LE(text.length, 4);
+      subChunks.push(header, padded);
+    }
+
+    if (subChunks.length === 0) {
+      return Buffer.alloc(0);
+    }
+
+    const body = Buffer.concat([Buffer.from("INFO", "ascii"), ...subChunks]);
+    const header = Buffer.alloc(8);
+    header.write("LIST", 0, "ascii");
+    header.writeUInt32LE(body.length, 4);
+    return Buffer.concat([header, body]);
+  }
+}
@@ -1,4 +1,5 @@
 import { trimSilence } from './audio'
+import type { DecodeProgress } from '@fesk/types'
 
 export interface DecodePipelineResult {
   frame: any
@@ -9,6 +10,8 @@ export interface DecodePipelineResult {
 
 interface DecodePipelineOptions {
   preferExtractor?: boolean
+  signal?: AbortSignal
+  onProgress?: (progress: DecodeProgress) => void
 }
 
 export async function decodeWithDefaultPipeline(
@@ -16,148 +19,55 @@ export async function decodeWithDefaultPipeline(
   sampleRate: number,
   options: DecodePipelineOptions = {},
 ): Promise<DecodePipelineResult> {
+  const { DecodePipeline, defaultDecodeStrategies } = await import('@fesk/decodePipeline')
   const { FeskDecoder } = await import('@fesk/feskDecoder')
-  const decoder = new FeskDecoder()
 
   const { data: trimmedData, leadPaddingMs } = trimSilence(originalData, sampleRate)
   const workingData = trimmedData.length > 0 ? trimmedData : originalData
-  const preferExtractor = options.preferExtractor ?? sampleRate >= 47000
 
-  const buildSample = (data: Float32Array) => ({
-    data,
-    sampleRate,
-    duration: data.length / sampleRate,
+  const pipeline = new DecodePipeline({
+    strategies: defaultDecodeStrategies(sampleRate, options.preferExtractor),
+    chunkSizeOrSizes: 100,
   })
 
-  const runSymbolExtractor = async (data: Float32Array) => {
-    if (!data || data.length === 0) return null
-    try {
-      decoder.reset()
+  let data = workingData
+  const runOptions = { signal: options.signal, onProgress: options.onProgress }
+  let result = await pipeline.decode(workingData, sampleRate, runOptions)
 
-      const duration = data.length / sampleRate
-      const startTimeRange = {
-        start: 0,
-        end: Math.max(0.05, Math.min(duration, Math.max(0.5, duration * 0.75))),
-        step: 0.02,
-      }
+  // The untrimmed audio gets a last try with the symbol extractor
+  if ((!result.frame || !result.frame.isValid) && workingData !== originalData) {
+    const fullResult = await new DecodePipeline({
+      strategies: ['symbolExtractor'],
+    }).decode(originalData, sampleRate, runOptions)
 
-      const candidate = await decoder.decodeAudioDataWithSymbolExtractor(
-        data,
-        sampleRate,
-        { startTimeRange },
-      )
-
-      if (!candidate) return null
-
-      const info = decoder.getLastSymbolExtractorInfo()
-      return {
-        frame: candidate,
-        symbols: decoder.toneDetector.extractSymbols(buildSample(data), 0),
-        frequencySet: info?.frequencySet ?? null,
-      }
-    } catch (error) {
-      console.error('Symbol extractor attempt failed:', error)
-      return null
-    }
-  }
-
-  let frame: any = null
-  let symbols: number[] = []
-  let frequencySet: string | null = null
-
-  let extractorInput = workingData
-  let extractorAttemptedTrimmed = false
-  let extractorAttemptedOriginal = workingData === originalData
-
-  if (preferExtractor) {
-    const extractorResult = await runSymbolExtractor(workingData)
-    extractorAttemptedTrimmed = true
-    if (extractorAttemptedOriginal === false && workingData === originalData) {
-      extractorAttemptedOriginal = true
-    }
-
-    if (extractorResult) {
-      frame = extractorResult.frame
-      symbols = extractorResult.symbols
-      frequencySet = extractorResult.frequencySet ?? frequencySet
-    }
-  }
-
-  let startTime: number | null = null
-
-  if (!frame) {
-    decoder.reset()
-
-    startTime = decoder.findTransmissionStart(workingData, sampleRate)
-
-    if (startTime !== null) {
-      let decodeStartMs = startTime
-
-      if (sampleRate >= 47000) {
-        decodeStartMs += 300
-      }
-
-      const startSeconds = decodeStartMs / 1000
-      const offsetIndex = Math.floor(startSeconds * sampleRate)
-      const offsetData = workingData.slice(offsetIndex)
-
-      extractorInput = offsetData
-
-      frame = await decoder.processAudioComplete(offsetData, sampleRate, 100)
-
-      symbols = decoder.toneDetector.extractSymbols(buildSample(offsetData), 0)
-    } else {
-      frame = await decoder.processAudioComplete(workingData, sampleRate, 100)
-
-      symbols = decoder.toneDetector.extractSymbols(buildSample(workingData), 0)
-    }
-  }
-
-  if (!frame || !frame.isValid) {
-    if (extractorInput !== workingData && extractorInput.length > 0) {
-      const offsetResult = await runSymbolExtractor(extractorInput)
-
-      if (offsetResult) {
-        frame = offsetResult.frame
-        symbols = offsetResult.symbols
-        frequencySet = offsetResult.frequencySet ?? frequencySet
-      }
-    }
-
-    if ((!frame || !frame.isValid) && !extractorAttemptedTrimmed) {
-      const trimmedResult = await runSymbolExtractor(workingData)
-      extractorAttemptedTrimmed = true
-
-      if (trimmedResult) {
-        frame = trimmedResult.frame
-        symbols = trimmedResult.symbols
-        frequencySet = trimmedResult.frequencySet ?? frequencySet
-      }
-    }
-
-    if ((!frame || !frame.isValid) && !extractorAttemptedOriginal) {
-      const fullResult = await runSymbolExtractor(originalData)
-      extractorAttemptedOriginal = true
-
-      if (fullResult) {
-        frame = fullResult.frame
-        symbols = fullResult.symbols
-        frequencySet = fullResult.frequencySet ?? frequencySet
-      }
+    if (fullResult.frame) {
+      data = originalData
+      result = fullResult
     }
   }
 
-  const effectiveStartTime =
-    startTime !== null
-      ? startTime + leadPaddingMs
-      : leadPaddingMs > 0
-        ? leadPaddingMs
-        : null
+  const offset = data === workingData ? leadPaddingMs : 0
+  const startSample =
+    result.startTime !== null ? Math.floor(result.startTime * sampleRate) : 0
+  const symbolData = data.subarray(startSample)
+  const symbols = new FeskDecoder().toneDetector.extractSymbols(
+    {
+      data: symbolData,
+      sampleRate,
+      duration: symbolData.length / sampleRate,
+    },
+    0,
+  )
 
   return {
-    frame,
+    frame: result.frame,
     symbols,
-    frequencySet,
-    startTime: effectiveStartTime,
+    frequencySet: result.frequencySet,
+    startTime:
+      result.startTime !== null
+        ? result.startTime * 1000 + offset
+        : leadPaddingMs > 0
+          ? leadPaddingMs
+          : null,
   }
 }